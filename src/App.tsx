@@ -1,201 +1,1177 @@
 import React from 'react';
-import { Upload, Image as ImageIcon, Video, Music, Clock } from 'lucide-react';
-import { analyzeAudioFile, SegmentAnalysis } from './audioAnalysis';
+import { Upload, Image as ImageIcon, Video, Music, Clock, Lock, Unlock, RefreshCw, Scissors, Merge, Pencil, Shuffle, Check, History } from 'lucide-react';
+import {
+  analyzeAudioFile,
+  analyzeBoundaries,
+  AnalysisCallbacks,
+  AnalysisContext,
+  decodeAudioFile,
+  DEFAULT_CONTINUITY_STRENGTH,
+  DEFAULT_SEGMENTATION_OPTIONS,
+  resumeAudioAnalysis,
+  SegmentAnalysis,
+  SegmentationOptions
+} from './audioAnalysis';
+import { SECTION_LABEL_NAMES, SegmentBoundary } from './audioStructure';
+import { estimateGenerationCost, estimateSegmentRanges, formatCost } from './costEstimate';
+import { isAbortError } from './lumaClient';
 import { 
   executeFullGenerationFlow, 
   GeneratedMedia, 
-  LumaResponse, 
-  createAudioFileUrl 
+  createAudioFileUrl,
+  discardInFlightGenerations,
+  generateImageVariants,
+  IMAGE_MODEL,
+  IMAGE_VARIANT_COUNT,
+  regenerateSegmentImage,
+  selectImageVariant,
+  VIDEO_MODEL,
+  VIDEO_RESOLUTION
 } from './lumaGeneration';
+import { getLibraryImageUrl, getLibraryVideoUrl } from './mediaLibrary';
+import {
+  applyProjectEvent,
+  createSegmentStatuses,
+  GenerationState,
+  SegmentStatus,
+  subscribeProjectEvents
+} from './projectEvents';
+import ProjectHistory from './ProjectHistory';
+import {
+  createProject,
+  fetchProject,
+  fetchProjectAudio,
+  getActiveProjectId,
+  getProjectAudioUrl,
+  Project,
+  saveGeneratedMedia,
+  saveSegmentAnalysis,
+  setActiveProjectId,
+  updateProject
+} from './projects';
+import { DEFAULT_PROVIDER_SET, PROVIDER_SET_LABELS, ProviderSetName } from './providers';
+import SlideshowPreview from './SlideshowPreview';
+import {
+  mergeBoundaries,
+  moveBoundary,
+  replaceMedia,
+  replaceSegments,
+  splitBoundary,
+  Storyboard,
+  toBoundaries
+} from './storyboard';
+import { applyStyleBible, generateStyleBible } from './styleBible';
+import Timeline from './Timeline';
+import { FinalRender, uploadAudioForRender } from './videoRender';
+
+// ステータスグリッドの表示（生成状態ごとのラベルと色）
+const GENERATION_STATE_STYLES: Record<GenerationState | 'none', { label: string; className: string }> = {
+  none: { label: '未着手', className: 'bg-gray-200' },
+  pending: { label: '待機中', className: 'bg-yellow-400' },
+  processing: { label: '生成中', className: 'bg-blue-500 animate-pulse' },
+  completed: { label: '完了', className: 'bg-green-500' },
+  failed: { label: '失敗', className: 'bg-red-500' }
+};
 
 function App() {
   const [file, setFile] = React.useState<File | null>(null);
-  const [segmentDuration, setSegmentDuration] = React.useState<number>(30);
+  const [project, setProject] = React.useState<Project | null>(null);
+  const [segmentation, setSegmentation] = React.useState<SegmentationOptions>(DEFAULT_SEGMENTATION_OPTIONS);
+  const [continuityStrength, setContinuityStrength] = React.useState(DEFAULT_CONTINUITY_STRENGTH);
+  const [provider, setProvider] = React.useState<ProviderSetName>(DEFAULT_PROVIDER_SET);
+  const [audioDuration, setAudioDuration] = React.useState<number | null>(null);
+  const [budgetDraft, setBudgetDraft] = React.useState('');
   const [analyzing, setAnalyzing] = React.useState(false);
   const [error, setError] = React.useState<string | null>(null);
+  const [notice, setNotice] = React.useState<string | null>(null);
   const [analyses, setAnalyses] = React.useState<SegmentAnalysis[]>([]);
   const [analysisProgress, setAnalysisProgress] = React.useState<{ current: number, total: number } | null>(null);
+  const [analysisStatus, setAnalysisStatus] = React.useState<string>('');
   const [generatingImages, setGeneratingImages] = React.useState(false);
   const [generatingVideo, setGeneratingVideo] = React.useState(false);
   const [generatedImages, setGeneratedImages] = React.useState<GeneratedMedia[]>([]);
   const [imageProgress, setImageProgress] = React.useState<{ current: number, total: number } | null>(null);
-  const [generatedVideo, setGeneratedVideo] = React.useState<LumaResponse | null>(null);
+  const [clipProgress, setClipProgress] = React.useState<{ current: number, total: number } | null>(null);
+  const [finalVideo, setFinalVideo] = React.useState<FinalRender | null>(null);
+  const [renderError, setRenderError] = React.useState<string | null>(null);
   const [videoStatus, setVideoStatus] = React.useState<string>('');
   const [audioUrl, setAudioUrl] = React.useState<string | null>(null);
-  const [activeTab, setActiveTab] = React.useState<'analysis' | 'images' | 'video'>('analysis');
+  const [activeTab, setActiveTab] = React.useState<'analysis' | 'timeline' | 'images' | 'video'>('analysis');
+  const [page, setPage] = React.useState<'editor' | 'projects'>('editor');
+  const [segmentStatuses, setSegmentStatuses] = React.useState<SegmentStatus[]>([]);
+  const [renderPercent, setRenderPercent] = React.useState<number | null>(null);
+  const [editingPrompt, setEditingPrompt] = React.useState<{ index: number, prompt: string } | null>(null);
+  const [storyboardBusy, setStoryboardBusy] = React.useState<number | null>(null);
+  const [busyImages, setBusyImages] = React.useState<number[]>([]);
+  const [imagePromptDraft, setImagePromptDraft] = React.useState<{ index: number, prompt: string } | null>(null);
+  const restoreStarted = React.useRef(false);
+  // 画像ごとの操作が並行して完了しても更新が失われないよう、最新の生成結果を保持する
+  const mediaRef = React.useRef<GeneratedMedia[]>(generatedImages);
+  mediaRef.current = generatedImages;
+  // ストーリーボードの再分析用にデコードした音声
+  const audioBufferRef = React.useRef<AudioBuffer | null>(null);
+  // 実行中の分析・生成を中止するためのコントローラー
+  const abortControllerRef = React.useRef<AbortController | null>(null);
 
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0];
     if (!selectedFile) return;
 
     setFile(selectedFile);
-    setAudioUrl(createAudioFileUrl(selectedFile));
+    audioBufferRef.current = null;
+    setProject(null);
+    setActiveProjectId(null);
+    setSegmentStatuses([]);
+    const url = createAudioFileUrl(selectedFile);
+    setAudioUrl(url);
+    setAudioDuration(null);
+    setBudgetDraft('');
+    // 分析前の見積もりのため、音声の長さだけを読み込む
+    const probe = new Audio(url);
+    probe.onloadedmetadata = () => setAudioDuration(probe.duration);
     setError(null);
     setAnalyses([]);
     setGeneratedImages([]);
-    setGeneratedVideo(null);
+    setFinalVideo(null);
+    setRenderError(null);
     setActiveTab('analysis');
   };
 
-  const handleAnalyzeAudio = async () => {
-    if (!file) return;
-
+  // 音声を分析する（保存済みのセグメント境界と分析結果があれば続きから分析する）
+  const runAnalysis = async (target: Project, audioFile: File) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setAnalyzing(true);
     setError(null);
+    setNotice(null);
     setAnalyses([]);
 
     try {
-      const results = await analyzeAudioFile(
-        file, 
-        segmentDuration,
-        (progress, total) => setAnalysisProgress({ current: progress, total })
-      );
+      await updateProject(target.id, { stage: 'analyzing' });
+
+      // 全セグメントの分析をそろえるため、最初に楽曲全体のスタイルバイブルを作成する
+      let styleBible = target.styleBible;
+      if (!styleBible) {
+        setAnalysisStatus('楽曲全体の世界観を分析中...');
+        styleBible = await generateStyleBible(target.audioId, target.audioName, controller.signal, target.id);
+        setProject(await updateProject(target.id, { styleBible }));
+      }
+      setAnalysisStatus('セグメントを分析中...');
+      const context: AnalysisContext = {
+        styleBible,
+        continuityStrength: target.continuityStrength,
+        projectId: target.id,
+        signal: controller.signal
+      };
+
+      const onProgress = (progress: number, total: number) => setAnalysisProgress({ current: progress, total });
+      const callbacks: AnalysisCallbacks = {
+        onSegmentsReady: async (boundaries) => {
+          setSegmentStatuses(boundaries.map(() => ({ analyzed: false })));
+          await updateProject(target.id, { segments: boundaries, analyses: [] });
+        },
+        onSegmentAnalyzed: (analysis, index) => {
+          saveSegmentAnalysis(target.id, index, analysis);
+        }
+      };
+
+      const results = target.segments.length > 0
+        ? await resumeAudioAnalysis(
+          audioFile,
+          target.segments,
+          target.analyses,
+          onProgress,
+          callbacks.onSegmentAnalyzed,
+          context
+        )
+        : await analyzeAudioFile(audioFile, target.segmentation, onProgress, callbacks, context);
+
+      setProject(await updateProject(target.id, { stage: 'analyzed', analyses: results }));
       setAnalyses(results);
       setActiveTab('analysis');
     } catch (err) {
-      setError((err as Error).message);
+      if (isAbortError(err)) {
+        setNotice('分析を中止しました');
+        updateProject(target.id, { stage: 'canceled' }).catch(() => undefined);
+        return;
+      }
+      const message = (err as Error).message;
+      setError(message);
+      updateProject(target.id, { stage: 'failed', error: message }).catch(() => undefined);
     } finally {
+      abortControllerRef.current = null;
       setAnalyzing(false);
       setAnalysisProgress(null);
+      setAnalysisStatus('');
     }
   };
 
-  const handleGenerateMedia = async () => {
-    if (!file || analyses.length === 0) return;
-
+  // 画像とクリップを生成してレンダリングする（保存済みの生成結果は再利用する）
+  // imagesOnlyの場合は画像だけを生成し、スライドショーのプレビューで確認できるようにする
+  const runGeneration = async (
+    target: Project,
+    targetAnalyses: SegmentAnalysis[],
+    existingMedia: GeneratedMedia[],
+    imagesOnly = false
+  ) => {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setGeneratingImages(true);
-    setGeneratingVideo(true);
+    setGeneratingVideo(!imagesOnly);
     setError(null);
+    setNotice(null);
+    setFinalVideo(null);
+    setRenderError(null);
+    setRenderPercent(null);
+    setSegmentStatuses(createSegmentStatuses({ ...target, media: existingMedia }));
 
     try {
-      const videoResponse = await executeFullGenerationFlow(
-        file,
-        analyses,
-        (progress, total) => {
-          setImageProgress({ current: progress, total });
-          if (progress === total) {
-            setGeneratingImages(false);
+      await updateProject(target.id, {
+        stage: 'generating',
+        media: existingMedia,
+        finalVideo: null,
+        renderError: null,
+        error: null
+      });
+
+      const result = await executeFullGenerationFlow(
+        target,
+        targetAnalyses,
+        {
+          onImageProgress: (progress, total) => {
+            setImageProgress({ current: progress, total });
+            if (progress === total) {
+              setGeneratingImages(false);
+            }
+          },
+          onVideoProgress: (status) => setVideoStatus(status),
+          onClipProgress: (progress, total) => setClipProgress({ current: progress, total }),
+          onMediaUpdate: (media) => {
+            // Lumaの生成IDを即座に保存し、再読み込み後もポーリングを再開できるようにする
+            saveGeneratedMedia(target.id, media);
+            setGeneratedImages(prev => [
+              ...prev.filter(item => item.segmentIndex !== media.segmentIndex),
+              media
+            ].sort((a, b) => a.segmentIndex - b.segmentIndex));
           }
         },
-        (status) => setVideoStatus(status)
+        existingMedia,
+        controller.signal,
+        imagesOnly
       );
       
-      setGeneratedVideo(videoResponse);
+      setGeneratedImages(result.media);
+      setFinalVideo(result.finalVideo ?? null);
+      setRenderError(result.renderError ?? null);
+      setProject(await updateProject(target.id, {
+        stage: 'completed',
+        media: result.media,
+        finalVideo: result.finalVideo ?? null,
+        renderError: result.renderError ?? null
+      }));
       setActiveTab('video');
     } catch (err) {
-      setError((err as Error).message);
+      if (isAbortError(err)) {
+        // 中止した生成はLuma側で削除済みのため、次の「メディアを生成」で作り直す
+        const media = discardInFlightGenerations(mediaRef.current);
+        setGeneratedImages(media);
+        setSegmentStatuses(createSegmentStatuses({ ...target, analyses: targetAnalyses, media }));
+        setNotice('メディアの生成を中止しました');
+        updateProject(target.id, { stage: 'canceled', media }).then(setProject).catch(() => undefined);
+        return;
+      }
+      const message = (err as Error).message;
+      setError(message);
+      updateProject(target.id, { stage: 'failed', error: message }).catch(() => undefined);
+      // 動画生成に失敗しても、生成済みの画像があればスライドショーを代わりに書き出せる
+      if (mediaRef.current.some(item => item.imageResponse.state === 'completed')) {
+        setActiveTab('video');
+      }
     } finally {
+      abortControllerRef.current = null;
       setGeneratingImages(false);
       setGeneratingVideo(false);
       setImageProgress(null);
+      setClipProgress(null);
       setVideoStatus('');
+      setRenderPercent(null);
     }
   };
 
-  const renderAnalysisTab = () => (
-    <div className="space-y-4">
-      <h2 className="text-xl font-semibold">音声分析結果</h2>
-      
-      {analyses.length === 0 ? (
-        <div className="text-center p-8 bg-gray-50 rounded-lg">
-          <p className="text-gray-500">分析結果がありません。音声ファイルを分析してください。</p>
+  const handleAnalyzeAudio = async () => {
+    if (!file) return;
+
+    try {
+      const audioId = await uploadAudioForRender(file);
+      const created = await createProject(file.name, audioId, segmentation, continuityStrength, provider);
+      setProject(created);
+      setActiveProjectId(created.id);
+      await runAnalysis(created, file);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // 実行中の分析・生成を中止する（生成中の画像とクリップはLuma側でも削除される）
+  const handleCancel = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleGenerateMedia = async () => {
+    if (!project || analyses.length === 0) return;
+
+    // ストーリーボードで編集されていないセグメントは生成済みの結果を再利用し、編集したセグメントだけを生成する
+    await runGeneration(project, analyses, generatedImages);
+  };
+
+  // 動画生成の費用をかける前に、画像だけを生成してスライドショーで確認する
+  const handleGenerateImages = async () => {
+    if (!project || analyses.length === 0) return;
+
+    await runGeneration(project, analyses, generatedImages, true);
+  };
+
+  // 再分析用に音声をデコードする（一度デコードした音声は使い回す）
+  const getAudioBuffer = async (): Promise<AudioBuffer> => {
+    if (!audioBufferRef.current) {
+      const source = file ?? (project ? await fetchProjectAudio(project) : null);
+      if (!source) {
+        throw new Error('音声ファイルがありません');
+      }
+      audioBufferRef.current = await decodeAudioFile(source);
+    }
+    return audioBufferRef.current;
+  };
+
+  // ストーリーボードの変更を画面とプロジェクトに反映する
+  const applyStoryboard = async (storyboard: Storyboard) => {
+    setAnalyses(storyboard.analyses);
+    setGeneratedImages(storyboard.media);
+    setEditingPrompt(null);
+
+    if (project) {
+      setProject(await updateProject(project.id, {
+        segments: toBoundaries(storyboard.analyses),
+        analyses: storyboard.analyses,
+        media: storyboard.media
+      }));
+    }
+  };
+
+  // セグメントを再分析した結果で置き換える（再分析・結合・分割）
+  const replaceWithAnalysis = async (index: number, deleteCount: number, boundaries: SegmentBoundary[]) => {
+    setStoryboardBusy(index);
+    setError(null);
+
+    try {
+      const replacements = await analyzeBoundaries(await getAudioBuffer(), boundaries, {
+        styleBible: project?.styleBible,
+        continuityStrength: project?.continuityStrength,
+        projectId: project?.id
+      }, analyses.slice(0, index));
+      await applyStoryboard(replaceSegments({ analyses, media: generatedImages }, index, deleteCount, replacements));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setStoryboardBusy(null);
+    }
+  };
+
+  const handleSavePrompt = async () => {
+    if (!editingPrompt) return;
+
+    const { index, prompt } = editingPrompt;
+    try {
+      await applyStoryboard(replaceSegments(
+        { analyses, media: generatedImages },
+        index,
+        1,
+        [{ ...analyses[index], imagePrompt: prompt }]
+      ));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleToggleLock = async (index: number) => {
+    try {
+      // ロックは生成結果に影響しないため、画像とクリップはそのまま残す
+      await applyStoryboard({
+        analyses: analyses.map((analysis, i) => (i === index ? { ...analysis, locked: !analysis.locked } : analysis)),
+        media: generatedImages
+      });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // 連続性の強さは、以降の再分析と画像生成に使う
+  const handleContinuityChange = async (strength: number) => {
+    setContinuityStrength(strength);
+    if (!project) return;
+
+    try {
+      setProject(await updateProject(project.id, { continuityStrength: strength }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // 予算の上限を保存する（空欄の場合は上限なし）
+  const handleBudgetCommit = async () => {
+    if (!project) return;
+    const budget = budgetDraft.trim() === '' ? null : Number(budgetDraft);
+    if (budget !== null && !(Number.isFinite(budget) && budget >= 0)) {
+      setError('予算の上限には0以上の数値を入力してください');
+      return;
+    }
+
+    try {
+      setProject(await updateProject(project.id, { budget }));
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleReanalyzeSegment = (index: number) => {
+    replaceWithAnalysis(index, 1, toBoundaries([analyses[index]]));
+  };
+
+  const handleMergeSegments = (index: number) => {
+    replaceWithAnalysis(index, 2, [mergeBoundaries(analyses[index], analyses[index + 1])]);
+  };
+
+  const handleSplitSegment = (index: number) => {
+    const parts = splitBoundary(analyses[index]);
+    if (parts) {
+      replaceWithAnalysis(index, 1, parts);
+    }
+  };
+
+  // タイムラインで動かした境界で前後のセグメントを分割し直す
+  const handleMoveBoundary = (index: number, time: number) => {
+    const parts = moveBoundary(analyses[index], analyses[index + 1], time);
+    if (parts) {
+      replaceWithAnalysis(index, 2, parts);
+    }
+  };
+
+  // サーバーから配信される進捗イベントでステータスグリッドを更新する
+  const projectId = project?.id;
+  React.useEffect(() => {
+    if (!projectId) return;
+
+    return subscribeProjectEvents(projectId, (event) => {
+      if (event.type === 'render') {
+        setRenderPercent(event.percent);
+      } else {
+        setSegmentStatuses(prev => applyProjectEvent(prev, event));
+      }
+    });
+  }, [projectId]);
+
+  // 1つのセグメントの生成結果だけを更新して保存する
+  const applyMediaUpdate = (updated: GeneratedMedia) => {
+    const previous = mediaRef.current.find(item => item.segmentIndex === updated.segmentIndex - 1);
+    const next = replaceMedia(mediaRef.current, updated);
+    mediaRef.current = next;
+    setGeneratedImages(next);
+
+    if (project) {
+      saveGeneratedMedia(project.id, updated);
+      // 画像が変わって直前のセグメントのクリップが破棄された場合はそれも保存する
+      const invalidated = next.find(item => item.segmentIndex === updated.segmentIndex - 1);
+      if (previous?.clipResponse && invalidated && !invalidated.clipResponse) {
+        saveGeneratedMedia(project.id, invalidated);
+      }
+    }
+  };
+
+  const runImageAction = async (media: GeneratedMedia, action: () => Promise<GeneratedMedia>) => {
+    setBusyImages(prev => [...prev, media.segmentIndex]);
+    setError(null);
+
+    try {
+      applyMediaUpdate(await action());
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyImages(prev => prev.filter(index => index !== media.segmentIndex));
+    }
+  };
+
+  const handleRetryImage = (media: GeneratedMedia) => {
+    const analysis = analyses[media.segmentIndex];
+    if (!analysis) return;
+    runImageAction(media, () => regenerateSegmentImage(
+      media,
+      applyStyleBible(analysis.imagePrompt, project?.styleBible),
+      applyMediaUpdate,
+      project?.id
+    ));
+  };
+
+  const handleRegenerateImage = (media: GeneratedMedia, prompt: string) => {
+    const analysis = analyses[media.segmentIndex];
+    if (!analysis) return;
+
+    // プロンプトを変えた場合はストーリーボードにも反映する
+    if (prompt !== analysis.imagePrompt) {
+      const updated = { ...analysis, imagePrompt: prompt };
+      setAnalyses(prev => prev.map((item, index) => (index === media.segmentIndex ? updated : item)));
+      if (project) {
+        saveSegmentAnalysis(project.id, media.segmentIndex, updated);
+      }
+    }
+    setImagePromptDraft(null);
+    runImageAction(media, () => regenerateSegmentImage(
+      media,
+      applyStyleBible(prompt, project?.styleBible),
+      applyMediaUpdate,
+      project?.id
+    ));
+  };
+
+  const handleGenerateVariants = (media: GeneratedMedia) => {
+    const analysis = analyses[media.segmentIndex];
+    if (!analysis) return;
+    runImageAction(media, () => generateImageVariants(
+      media,
+      applyStyleBible(analysis.imagePrompt, project?.styleBible),
+      IMAGE_VARIANT_COUNT,
+      applyMediaUpdate,
+      project?.id
+    ));
+  };
+
+  const handleSelectVariant = (media: GeneratedMedia, variantId: string) => {
+    applyMediaUpdate(selectImageVariant(media, variantId));
+  };
+
+  // 保存されたプロジェクトを開き、途中で止まっている処理を再開する
+  const openProject = async (projectId: string) => {
+    try {
+      const saved = await fetchProject(projectId);
+      const savedAnalyses = saved.analyses.filter((analysis): analysis is SegmentAnalysis => analysis !== null);
+
+      setActiveProjectId(saved.id);
+      setFile(null);
+      audioBufferRef.current = null;
+      setAudioDuration(null);
+      setEditingPrompt(null);
+      setImagePromptDraft(null);
+      setActiveTab('analysis');
+      setProject(saved);
+      setSegmentStatuses(createSegmentStatuses(saved));
+      setSegmentation(saved.segmentation);
+      setContinuityStrength(saved.continuityStrength ?? 0);
+      setProvider(saved.provider ?? DEFAULT_PROVIDER_SET);
+      setBudgetDraft(saved.budget !== undefined ? String(saved.budget) : '');
+      setAudioUrl(getProjectAudioUrl(saved.id));
+      setAnalyses(savedAnalyses);
+      setGeneratedImages(saved.media);
+      setFinalVideo(saved.finalVideo ?? null);
+      setRenderError(saved.renderError ?? null);
+      setError(saved.stage === 'failed' ? saved.error ?? null : null);
+      setNotice(saved.stage === 'canceled' ? '前回の処理は中止されました' : null);
+      if (saved.media.length > 0) {
+        setActiveTab(saved.finalVideo ? 'video' : 'images');
+      }
+
+      if (saved.stage === 'analyzing') {
+        await runAnalysis(saved, await fetchProjectAudio(saved));
+      } else if (saved.stage === 'generating') {
+        await runGeneration(saved, savedAnalyses, saved.media);
+      }
+    } catch (err) {
+      setActiveProjectId(null);
+      setError((err as Error).message);
+    }
+  };
+
+  // 再読み込み後、URLに記録されたプロジェクトを復元し、途中の処理を再開する
+  React.useEffect(() => {
+    const projectId = getActiveProjectId();
+    // StrictModeでエフェクトが2回実行されても再開処理は1回だけにする
+    if (!projectId || restoreStarted.current) return;
+    restoreStarted.current = true;
+    openProject(projectId);
+  }, []);
+
+  // プロジェクトの一覧から開く
+  const handleOpenProject = (projectId: string) => {
+    setPage('editor');
+    openProject(projectId);
+  };
+
+  // 表示中のプロジェクトが一覧から削除された場合は、新しいプロジェクトを始められる状態に戻す
+  const handleProjectDeleted = (projectId: string) => {
+    if (project?.id !== projectId) return;
+    setActiveProjectId(null);
+    setProject(null);
+    setFile(null);
+    audioBufferRef.current = null;
+    setAudioUrl(null);
+    setAudioDuration(null);
+    setSegmentStatuses([]);
+    setAnalyses([]);
+    setGeneratedImages([]);
+    setFinalVideo(null);
+    setRenderError(null);
+    setError(null);
+    setNotice(null);
+    setActiveTab('analysis');
+  };
+
+  // 残りの処理の生成回数と費用の見積もり（分析前は音声の長さと分割方法からセグメントを推定する）
+  const costEstimate = React.useMemo(() => {
+    const segments = analyses.length > 0
+      ? analyses
+      : project && project.segments.length > 0
+        ? project.segments
+        : estimateSegmentRanges(audioDuration ?? 0, segmentation);
+    if (segments.length === 0) {
+      return null;
+    }
+    return estimateGenerationCost({
+      segments,
+      analyzedCount: analyses.length,
+      hasStyleBible: Boolean(project?.styleBible),
+      media: generatedImages,
+      imageModel: IMAGE_MODEL,
+      videoModel: VIDEO_MODEL,
+      resolution: VIDEO_RESOLUTION
+    });
+  }, [analyses, project, audioDuration, segmentation, generatedImages]);
+
+  const renderCostEstimate = () => {
+    if (!costEstimate) return null;
+    if (provider === 'mock') {
+      return (
+        <div className="border border-gray-200 rounded-lg bg-gray-50 px-4 py-3 mb-4 text-sm text-gray-700">
+          モックの提供元はAPIを呼び出さないため費用はかかりません（画像 {costEstimate.images}枚・クリップ {costEstimate.clips}本）
         </div>
-      ) : (
-        <div className="space-y-6">
-          {analyses.map((segment, index) => (
-            <div key={index} className="border rounded-lg p-4 bg-white shadow-sm">
-              <h3 className="text-md font-medium mb-2">
-                セグメント {index + 1}: {formatTime(segment.startTime)} - {formatTime(segment.endTime)}
-              </h3>
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                <div>
-                  <h4 className="text-sm font-medium text-gray-600 mb-1">ストーリー</h4>
-                  <p className="text-sm text-gray-800">{segment.story}</p>
-                </div>
-                <div>
-                  <h4 className="text-sm font-medium text-gray-600 mb-1">ビジュアル</h4>
-                  <p className="text-sm text-gray-800">{segment.visual}</p>
-                </div>
-                <div>
-                  <h4 className="text-sm font-medium text-gray-600 mb-1">感情</h4>
-                  <p className="text-sm text-gray-800">{segment.emotion}</p>
-                </div>
-              </div>
-              <div className="mt-3">
-                <h4 className="text-sm font-medium text-gray-600 mb-1">画像生成プロンプト</h4>
-                <p className="text-xs bg-gray-50 p-2 rounded font-mono">{segment.imagePrompt}</p>
+      );
+    }
+    const remaining = project?.budget !== undefined ? project.budget - (project.spent ?? 0) : null;
+
+    return (
+      <div className="border border-gray-200 rounded-lg bg-gray-50 px-4 py-3 mb-4 text-sm text-gray-700">
+        <p className="font-medium mb-1">
+          見積もり: 約{formatCost(costEstimate.totalCost)}
+          <span className="font-normal text-gray-500">
+            （Luma {formatCost(costEstimate.lumaCost)} + Gemini {formatCost(costEstimate.geminiCost)}）
+          </span>
+        </p>
+        <p className="text-xs text-gray-600">
+          画像 {costEstimate.images}枚（{IMAGE_MODEL}）・クリップ {costEstimate.clips}本（{VIDEO_MODEL}、{VIDEO_RESOLUTION}）・
+          Geminiの呼び出し {costEstimate.geminiCalls}回以上（応答の修正を依頼すると増えます）
+        </p>
+        {project && (
+          <p className="text-xs text-gray-600 mt-1">
+            使用済み: {formatCost(project.spent ?? 0)}
+            {project.budget !== undefined && ` / 上限 ${formatCost(project.budget)}`}
+          </p>
+        )}
+        {remaining !== null && costEstimate.lumaCost > remaining && (
+          <p className="text-xs text-amber-700 mt-1">
+            予算の残り（{formatCost(Math.max(0, remaining))}）を超えるため、上限に達した時点で以降の生成は拒否されます
+          </p>
+        )}
+        <p className="text-xs text-gray-400 mt-1">公開されている単価にもとづく概算で、実際に消費するクレジットとは異なる場合があります</p>
+      </div>
+    );
+  };
+
+  const renderStatusGrid = () => (
+    <div className="mt-4">
+      <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-gray-600">
+        {Object.entries(GENERATION_STATE_STYLES).map(([state, style]) => (
+          <span key={state} className="flex items-center">
+            <span className={`inline-block w-3 h-3 rounded-sm mr-1 ${style.className}`} />
+            {style.label}
+          </span>
+        ))}
+      </div>
+      <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10 gap-2">
+        {segmentStatuses.map((status, index) => {
+          const steps: { label: string; state: GenerationState | 'none' }[] = [
+            { label: '分析', state: status.analyzed ? 'completed' : 'none' },
+            { label: '画像', state: status.image ?? 'none' },
+            { label: 'クリップ', state: status.clip ?? 'none' }
+          ];
+          return (
+            <div key={index} className="border rounded p-2 bg-gray-50" title={status.failureReason}>
+              <p className="text-xs font-medium mb-1">#{index + 1}</p>
+              <div className="flex gap-1">
+                {steps.map(step => (
+                  <span
+                    key={step.label}
+                    className={`flex-1 h-2 rounded-sm ${GENERATION_STATE_STYLES[step.state].className}`}
+                    title={`${step.label}: ${GENERATION_STATE_STYLES[step.state].label}`}
+                  />
+                ))}
               </div>
             </div>
-          ))}
+          );
+        })}
+      </div>
+      {renderPercent !== null && (
+        <div className="mt-3">
+          <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-600 transition-all duration-300"
+              style={{ width: `${renderPercent}%` }}
+            />
+          </div>
+          <p className="text-sm text-gray-600 mt-1 text-center">
+            レンダリング: {renderPercent}%
+          </p>
         </div>
       )}
     </div>
   );
 
-  const renderImagesTab = () => (
-    <div className="space-y-4">
-      <h2 className="text-xl font-semibold">生成された画像</h2>
-      
-      {generatedImages.length === 0 ? (
-        <div className="text-center p-8 bg-gray-50 rounded-lg">
-          <p className="text-gray-500">生成された画像がありません。「メディアを生成」ボタンをクリックしてください。</p>
-        </div>
-      ) : (
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
-          {generatedImages.map((item, index) => (
-            item.imageResponse.state === 'completed' && item.imageResponse.imageUrl && (
-              <div key={index} className="border rounded-lg overflow-hidden bg-white shadow-sm">
-                <img 
-                  src={item.imageResponse.imageUrl} 
-                  alt={`Generated image ${index + 1}`}
-                  className="w-full h-48 object-cover"
-                />
-                <div className="p-3">
-                  <p className="text-sm font-medium">
-                    {formatTime(item.startTime)} - {formatTime(item.endTime)}
-                  </p>
-                </div>
+  const renderAnalysisTab = () => {
+    const storyboardDisabled = analyzing || generatingImages || generatingVideo || storyboardBusy !== null;
+    const styleBible = project?.styleBible;
+    const actionButtonClass = 'flex items-center text-xs px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed';
+
+    return (
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">ストーリーボード</h2>
+
+        {styleBible && (
+          <div className="border border-indigo-100 rounded-lg p-4 bg-indigo-50">
+            <h3 className="text-md font-medium mb-2">全体の世界観</h3>
+            <p className="text-sm text-gray-700 mb-3">{styleBible.worldview}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm">
+              <div>
+                <span className="font-medium text-gray-700">色彩：</span>
+                <span className="text-gray-600">{styleBible.palette.join(', ')}</span>
               </div>
-            )
-          ))}
-        </div>
-      )}
-    </div>
-  );
+              <div>
+                <span className="font-medium text-gray-700">モチーフ：</span>
+                <span className="text-gray-600">{styleBible.motifs.join(', ')}</span>
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">カメラ：</span>
+                <span className="text-gray-600">{styleBible.camera}</span>
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">時代：</span>
+                <span className="text-gray-600">{styleBible.era}</span>
+              </div>
+              <div>
+                <span className="font-medium text-gray-700">表現媒体：</span>
+                <span className="text-gray-600">{styleBible.medium}</span>
+              </div>
+            </div>
+          </div>
+        )}
+        
+        {analyses.length === 0 ? (
+          <div className="text-center p-8 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">分析結果がありません。音声ファイルを分析してください。</p>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {generatedImages.length > 0 && (
+              <p className="text-sm text-gray-600">
+                プロンプトの編集・再分析・結合・分割をしたセグメントだけが、次の「メディアを生成」で再生成されます。
+              </p>
+            )}
+            {analyses.map((segment, index) => {
+              const next = analyses[index + 1];
+              const needsGeneration = generatedImages.length > 0
+                && !generatedImages.some(item => item.segmentIndex === index);
 
-  const renderVideoTab = () => (
-    <div className="space-y-4">
-      <h2 className="text-xl font-semibold">生成された動画</h2>
-      
-      {!generatedVideo || generatedVideo.state !== 'completed' || !generatedVideo.videoUrl ? (
-        <div className="text-center p-8 bg-gray-50 rounded-lg">
-          <p className="text-gray-500">生成された動画がありません。「メディアを生成」ボタンをクリックしてください。</p>
-        </div>
-      ) : (
-        <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
-          <video
-            src={generatedVideo.videoUrl}
-            controls
-            className="w-full h-auto"
-          >
-            お使いのブラウザは動画の再生に対応していません。
-          </video>
-          <div className="p-4">
-            <h3 className="text-lg font-medium mb-2">最終動画</h3>
-            <p className="text-sm text-gray-600">
-              {analyses.length}個のセグメントから生成された動画です。
-            </p>
+              return (
+                <div
+                  key={`${segment.startTime}-${segment.endTime}`}
+                  className={`border rounded-lg p-4 shadow-sm ${segment.locked ? 'bg-gray-50' : 'bg-white'} ${storyboardBusy === index ? 'opacity-60' : ''}`}
+                >
+                  <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+                    <h3 className="text-md font-medium">
+                      セグメント {index + 1}: {formatTime(segment.startTime)} - {formatTime(segment.endTime)}
+                      {segment.section && (
+                        <span className="ml-2 text-xs font-normal bg-amber-50 text-amber-700 px-2 py-1 rounded">
+                          {SECTION_LABEL_NAMES[segment.section]}
+                        </span>
+                      )}
+                      {segment.locked && (
+                        <span className="ml-2 text-xs font-normal bg-gray-200 text-gray-700 px-2 py-1 rounded">
+                          ロック中
+                        </span>
+                      )}
+                      {needsGeneration && (
+                        <span className="ml-2 text-xs font-normal bg-green-50 text-green-700 px-2 py-1 rounded">
+                          再生成待ち
+                        </span>
+                      )}
+                    </h3>
+                    <div className="flex flex-wrap gap-1">
+                      <button
+                        onClick={() => handleToggleLock(index)}
+                        disabled={storyboardDisabled}
+                        className={actionButtonClass}
+                      >
+                        {segment.locked ? <Unlock className="w-3 h-3 mr-1" /> : <Lock className="w-3 h-3 mr-1" />}
+                        {segment.locked ? 'ロック解除' : 'ロック'}
+                      </button>
+                      <button
+                        onClick={() => handleReanalyzeSegment(index)}
+                        disabled={storyboardDisabled || segment.locked}
+                        className={actionButtonClass}
+                      >
+                        <RefreshCw className={`w-3 h-3 mr-1 ${storyboardBusy === index ? 'animate-spin' : ''}`} />
+                        再分析
+                      </button>
+                      <button
+                        onClick={() => handleSplitSegment(index)}
+                        disabled={storyboardDisabled || segment.locked || !splitBoundary(segment)}
+                        className={actionButtonClass}
+                      >
+                        <Scissors className="w-3 h-3 mr-1" />
+                        分割
+                      </button>
+                      {next && (
+                        <button
+                          onClick={() => handleMergeSegments(index)}
+                          disabled={storyboardDisabled || segment.locked || next.locked}
+                          className={actionButtonClass}
+                        >
+                          <Merge className="w-3 h-3 mr-1" />
+                          次と結合
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    <span className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+                      {segment.features.bpm !== null ? `${Math.round(segment.features.bpm)} BPM` : 'BPM 不明'}
+                    </span>
+                    <span className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+                      キー: {segment.features.key} {segment.features.mode === 'major' ? 'major' : 'minor'}
+                    </span>
+                    <span className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+                      音量: {segment.features.loudnessDb} dB
+                    </span>
+                    <span className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+                      オンセット: {segment.features.onsetDensity}/秒
+                    </span>
+                    <span className="text-xs bg-indigo-50 text-indigo-700 px-2 py-1 rounded">
+                      明るさ: {segment.features.spectralCentroid} Hz
+                    </span>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-600 mb-1">ストーリー</h4>
+                      <p className="text-sm text-gray-800">{segment.story}</p>
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-600 mb-1">ビジュアル</h4>
+                      <p className="text-sm text-gray-800">{segment.visual}</p>
+                    </div>
+                    <div>
+                      <h4 className="text-sm font-medium text-gray-600 mb-1">感情</h4>
+                      <p className="text-sm text-gray-800">{segment.emotion}</p>
+                    </div>
+                  </div>
+                  <div className="mt-3">
+                    <div className="flex items-center justify-between mb-1">
+                      <h4 className="text-sm font-medium text-gray-600">画像生成プロンプト</h4>
+                      {editingPrompt?.index !== index && (
+                        <button
+                          onClick={() => setEditingPrompt({ index, prompt: segment.imagePrompt })}
+                          disabled={storyboardDisabled || segment.locked}
+                          className={actionButtonClass}
+                        >
+                          <Pencil className="w-3 h-3 mr-1" />
+                          編集
+                        </button>
+                      )}
+                    </div>
+                    {editingPrompt?.index === index ? (
+                      <div>
+                        <textarea
+                          value={editingPrompt.prompt}
+                          onChange={(e) => setEditingPrompt({ index, prompt: e.target.value })}
+                          rows={4}
+                          className="w-full text-xs p-2 border border-gray-300 rounded font-mono"
+                        />
+                        <div className="flex justify-end gap-2 mt-1">
+                          <button
+                            onClick={() => setEditingPrompt(null)}
+                            className="text-xs px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+                          >
+                            キャンセル
+                          </button>
+                          <button
+                            onClick={handleSavePrompt}
+                            disabled={editingPrompt.prompt.trim().length === 0 || editingPrompt.prompt === segment.imagePrompt}
+                            className="text-xs px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-400"
+                          >
+                            保存
+                          </button>
+                        </div>
+                      </div>
+                    ) : (
+                      <p className="text-xs bg-gray-50 p-2 rounded font-mono">{segment.imagePrompt}</p>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderImagesTab = () => {
+    const pipelineBusy = analyzing || generatingImages || generatingVideo;
+    const actionButtonClass = 'flex items-center text-xs px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed';
+
+    return (
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">生成された画像</h2>
+        
+        {generatedImages.length === 0 ? (
+          <div className="text-center p-8 bg-gray-50 rounded-lg">
+            <p className="text-gray-500">生成された画像がありません。「メディアを生成」ボタンをクリックしてください。</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+            {generatedImages.map((item) => {
+              const { imageResponse } = item;
+              const busy = busyImages.includes(item.segmentIndex);
+              const locked = analyses[item.segmentIndex]?.locked ?? false;
+              const actionsDisabled = pipelineBusy || busy || locked || !analyses[item.segmentIndex];
+              const draft = imagePromptDraft?.index === item.segmentIndex ? imagePromptDraft : null;
+              const imageUrl = getLibraryImageUrl(project?.id, imageResponse);
+
+              return (
+                <div key={item.segmentIndex} className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                  {imageUrl ? (
+                    <img 
+                      src={imageUrl} 
+                      alt={`Generated image ${item.segmentIndex + 1}`}
+                      className={`w-full h-48 object-cover ${busy ? 'opacity-60' : ''}`}
+                    />
+                  ) : (
+                    <div className="flex items-center justify-center h-48 bg-gray-50 p-4">
+                      {imageResponse.state === 'failed' ? (
+                        <p className="text-sm text-red-600 text-center">
+                          画像の生成に失敗しました: {imageResponse.failure_reason || '不明なエラー'}
+                        </p>
+                      ) : (
+                        <p className="text-sm text-gray-500 animate-pulse">画像を生成中...</p>
+                      )}
+                    </div>
+                  )}
+                  <div className="p-3 space-y-2">
+                    <p className="text-sm font-medium">
+                      セグメント {item.segmentIndex + 1}: {formatTime(item.startTime)} - {formatTime(item.endTime)}
+                      {locked && <span className="ml-2 text-xs font-normal text-gray-500">ロック中</span>}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {imageResponse.state === 'failed' && (
+                        <button
+                          onClick={() => handleRetryImage(item)}
+                          disabled={actionsDisabled}
+                          className={actionButtonClass}
+                        >
+                          <RefreshCw className={`w-3 h-3 mr-1 ${busy ? 'animate-spin' : ''}`} />
+                          再試行
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setImagePromptDraft({
+                          index: item.segmentIndex,
+                          prompt: analyses[item.segmentIndex]?.imagePrompt ?? ''
+                        })}
+                        disabled={actionsDisabled}
+                        className={actionButtonClass}
+                      >
+                        <Pencil className="w-3 h-3 mr-1" />
+                        再生成
+                      </button>
+                      <button
+                        onClick={() => handleGenerateVariants(item)}
+                        disabled={actionsDisabled}
+                        className={actionButtonClass}
+                      >
+                        <Shuffle className="w-3 h-3 mr-1" />
+                        {IMAGE_VARIANT_COUNT}つの候補から選ぶ
+                      </button>
+                    </div>
+                    {draft && (
+                      <div>
+                        <textarea
+                          value={draft.prompt}
+                          onChange={(e) => setImagePromptDraft({ index: item.segmentIndex, prompt: e.target.value })}
+                          rows={4}
+                          className="w-full text-xs p-2 border border-gray-300 rounded font-mono"
+                        />
+                        <div className="flex justify-end gap-2 mt-1">
+                          <button
+                            onClick={() => setImagePromptDraft(null)}
+                            className="text-xs px-3 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50"
+                          >
+                            キャンセル
+                          </button>
+                          <button
+                            onClick={() => handleRegenerateImage(item, draft.prompt)}
+                            disabled={actionsDisabled || draft.prompt.trim().length === 0}
+                            className="text-xs px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-gray-400"
+                          >
+                            この内容で再生成
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                    {item.variants && item.variants.length > 0 && (
+                      <div className="grid grid-cols-3 gap-1">
+                        {item.variants.map((variant) => {
+                          const selected = variant.id === imageResponse.id;
+                          const variantUrl = getLibraryImageUrl(project?.id, variant);
+                          return variantUrl ? (
+                            <button
+                              key={variant.id}
+                              onClick={() => handleSelectVariant(item, variant.id)}
+                              disabled={busy || locked || selected}
+                              className={`relative rounded overflow-hidden border-2 ${selected ? 'border-indigo-600' : 'border-transparent hover:border-indigo-300'}`}
+                            >
+                              <img src={variantUrl} alt="候補の画像" className="w-full h-16 object-cover" />
+                              {selected && (
+                                <Check className="absolute top-1 right-1 w-4 h-4 text-white bg-indigo-600 rounded-full p-0.5" />
+                              )}
+                            </button>
+                          ) : (
+                            <div
+                              key={variant.id}
+                              className="flex items-center justify-center h-16 rounded bg-gray-100 text-xs text-center px-1"
+                              title={variant.failure_reason}
+                            >
+                              {variant.state === 'failed'
+                                ? <span className="text-red-600">失敗</span>
+                                : <span className="text-gray-500 animate-pulse">生成中...</span>}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderVideoTab = () => {
+    const clips = generatedImages.filter(item => item.clipResponse);
+    // 最終動画がない場合は、生成済みの画像からスライドショーを作って確認・書き出しできるようにする
+    const slideshowPreview = (
+      <SlideshowPreview
+        audioUrl={audioUrl}
+        segments={analyses}
+        media={generatedImages}
+        projectId={project?.id}
+      />
+    );
+
+    return (
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">生成された動画クリップ</h2>
+        
+        {clips.length === 0 ? (
+          generatedImages.some(item => item.imageResponse.state === 'completed') ? (
+            <>
+              <p className="text-sm text-gray-600">
+                動画クリップはまだありません。生成済みの画像のスライドショーで、動画生成の前に仕上がりを確認できます。
+              </p>
+              {slideshowPreview}
+            </>
+          ) : (
+            <div className="text-center p-8 bg-gray-50 rounded-lg">
+              <p className="text-gray-500">生成された動画がありません。「メディアを生成」ボタンをクリックしてください。</p>
+            </div>
+          )
+        ) : (
+          <>
+            {finalVideo ? (
+              <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                <video src={finalVideo.url} controls className="w-full h-auto">
+                  お使いのブラウザは動画の再生に対応していません。
+                </video>
+                <div className="p-4 flex items-center justify-between">
+                  <div>
+                    <h3 className="text-lg font-medium">最終動画</h3>
+                    <p className="text-sm text-gray-600">
+                      {clips.length}個のクリップを連結し、元の音声を合成した動画です。
+                    </p>
+                  </div>
+                  <a
+                    href={finalVideo.url}
+                    download="music-video.mp4"
+                    className="bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm"
+                  >
+                    MP4をダウンロード
+                  </a>
+                </div>
+              </div>
+            ) : (
+              <>
+                {renderError && (
+                  <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded" role="alert">
+                    最終動画のレンダリングに失敗しました: {renderError}
+                  </div>
+                )}
+                {!(generatingImages || generatingVideo) && slideshowPreview}
+              </>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {clips.map((item) => (
+                <div key={item.segmentIndex} className="border rounded-lg overflow-hidden bg-white shadow-sm">
+                  {getLibraryVideoUrl(project?.id, item.clipResponse) ? (
+                    <video
+                      src={getLibraryVideoUrl(project?.id, item.clipResponse)}
+                      poster={getLibraryImageUrl(project?.id, item.imageResponse)}
+                      controls
+                      className="w-full h-auto"
+                    >
+                      お使いのブラウザは動画の再生に対応していません。
+                    </video>
+                  ) : (
+                    <div className="flex items-center justify-center h-48 bg-gray-50 p-4">
+                      <p className="text-sm text-red-600 text-center">
+                        クリップの生成に失敗しました: {item.clipResponse?.failure_reason || '不明なエラー'}
+                      </p>
+                    </div>
+                  )}
+                  <div className="p-3">
+                    <p className="text-sm font-medium">
+                      セグメント {item.segmentIndex + 1}: {formatTime(item.startTime)} - {formatTime(item.endTime)}
+                    </p>
+                  </div>
+                </div>
+              ))}
+            </div>
             {audioUrl && (
-              <div className="mt-4">
+              <div className="border rounded-lg bg-white shadow-sm p-4">
                 <h4 className="text-sm font-medium mb-2">元の音声</h4>
                 <audio src={audioUrl} controls className="w-full" />
               </div>
             )}
-          </div>
-        </div>
-      )}
-    </div>
-  );
+          </>
+        )}
+      </div>
+    );
+  };
 
   // 秒数を「分:秒」形式にフォーマット
   const formatTime = (seconds: number): string => {
@@ -207,137 +1183,329 @@ function App() {
   return (
     <div className="min-h-screen bg-gray-100 py-8">
       <div className="container mx-auto px-4">
-        <h1 className="text-3xl font-bold mb-6 text-center">音声から動画生成システム</h1>
-        
-        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
-          <div className="flex flex-col md:flex-row md:items-end gap-4 mb-4">
-            <div className="flex-1">
-              <label htmlFor="file-upload" className="block w-full">
-                <div className="flex items-center justify-center w-full p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-500 transition-colors">
-                  <Music className="w-6 h-6 mr-2 text-gray-500" />
-                  <span className="text-gray-600">
-                    {file ? file.name : '音声ファイルをアップロード'}
-                  </span>
-                  <input 
-                    id="file-upload"
-                    type="file" 
-                    accept="audio/*"
-                    className="hidden" 
-                    onChange={handleFileUpload}
-                  />
-                </div>
-              </label>
-            </div>
+        <h1 className="text-3xl font-bold mb-4 text-center">音声から動画生成システム</h1>
+
+        <div className="flex justify-center gap-2 mb-6">
+          <button
+            className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium ${page === 'editor' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            onClick={() => setPage('editor')}
+          >
+            <Music className="w-4 h-4 mr-1" />
+            作成
+          </button>
+          <button
+            className={`flex items-center px-4 py-2 rounded-lg text-sm font-medium ${page === 'projects' ? 'bg-indigo-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+            onClick={() => setPage('projects')}
+          >
+            <History className="w-4 h-4 mr-1" />
+            プロジェクト
+          </button>
+        </div>
+
+        {page === 'projects' ? (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <ProjectHistory
+              activeProjectId={project?.id}
+              busy={analyzing || generatingImages || generatingVideo}
+              onOpen={handleOpenProject}
+              onDeleted={handleProjectDeleted}
+            />
+          </div>
+        ) : (
+          <>
+          <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+            <div className="flex flex-col md:flex-row md:items-end gap-4 mb-4">
+              <div className="flex-1">
+                <label htmlFor="file-upload" className="block w-full">
+                  <div className="flex items-center justify-center w-full p-4 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-500 transition-colors">
+                    <Music className="w-6 h-6 mr-2 text-gray-500" />
+                    <span className="text-gray-600">
+                      {file ? file.name : project ? project.audioName : '音声ファイルをアップロード'}
+                    </span>
+                    <input 
+                      id="file-upload"
+                      type="file" 
+                      accept="audio/*"
+                      className="hidden" 
+                      onChange={handleFileUpload}
+                    />
+                  </div>
+                </label>
+              </div>
             
-            <div className="w-full md:w-64">
-              <label className="block text-sm font-medium text-gray-700 mb-1">
-                セグメント長（秒）
-              </label>
-              <div className="flex items-center">
-                <Clock className="w-5 h-5 mr-2 text-gray-500" />
+              <div className="w-full md:w-72">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  セグメント長（秒）
+                </label>
+                <select
+                  value={segmentation.mode}
+                  onChange={(e) => setSegmentation({ ...segmentation, mode: e.target.value as SegmentationOptions['mode'] })}
+                  className="w-full p-2 mb-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  <option value="fixed">固定長で分割</option>
+                  <option value="structural">楽曲構造で分割（ビートに合わせる）</option>
+                </select>
+                <div className="flex items-center">
+                  <Clock className="w-5 h-5 mr-2 text-gray-500" />
+                  {segmentation.mode === 'fixed' ? (
+                    <input
+                      type="number"
+                      min="10"
+                      max="120"
+                      value={segmentation.segmentDuration}
+                      onChange={(e) => setSegmentation({ ...segmentation, segmentDuration: Number(e.target.value) })}
+                      className="w-full p-2 border border-gray-300 rounded-lg"
+                    />
+                  ) : (
+                    <div className="flex items-center gap-2 w-full">
+                      <input
+                        type="number"
+                        min="4"
+                        max={segmentation.maxDuration}
+                        value={segmentation.minDuration}
+                        onChange={(e) => setSegmentation({ ...segmentation, minDuration: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg"
+                        aria-label="最小セグメント長（秒）"
+                      />
+                      <span className="text-gray-500">〜</span>
+                      <input
+                        type="number"
+                        min={segmentation.minDuration}
+                        max="120"
+                        value={segmentation.maxDuration}
+                        onChange={(e) => setSegmentation({ ...segmentation, maxDuration: Number(e.target.value) })}
+                        className="w-full p-2 border border-gray-300 rounded-lg"
+                        aria-label="最大セグメント長（秒）"
+                      />
+                    </div>
+                  )}
+                </div>
+              </div>
+
+              <div className="w-full md:w-48">
+                <label htmlFor="provider" className="block text-sm font-medium text-gray-700 mb-1">
+                  提供元
+                </label>
+                <select
+                  id="provider"
+                  value={provider}
+                  onChange={(e) => setProvider(e.target.value as ProviderSetName)}
+                  disabled={Boolean(project) || analyzing}
+                  className="w-full p-2 border border-gray-300 rounded-lg text-sm"
+                >
+                  {(Object.keys(PROVIDER_SET_LABELS) as ProviderSetName[]).map(name => (
+                    <option key={name} value={name}>{PROVIDER_SET_LABELS[name]}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-1">
+                  プロジェクトの作成時に選び、分析・画像・クリップの生成すべてに使います
+                </p>
+              </div>
+
+              <div className="w-full md:w-56">
+                <label htmlFor="continuity-strength" className="block text-sm font-medium text-gray-700 mb-1">
+                  連続性の強さ: {Math.round(continuityStrength * 100)}%
+                </label>
                 <input
-                  type="number"
-                  min="10"
-                  max="120"
-                  value={segmentDuration}
-                  onChange={(e) => setSegmentDuration(Number(e.target.value))}
-                  className="w-full p-2 border border-gray-300 rounded-lg"
+                  id="continuity-strength"
+                  type="range"
+                  min="0"
+                  max="1"
+                  step="0.05"
+                  value={continuityStrength}
+                  onChange={(e) => handleContinuityChange(Number(e.target.value))}
+                  disabled={analyzing || generatingImages}
+                  className="w-full"
                 />
+                <p className="text-xs text-gray-500 mt-1">
+                  0%で各セグメントを独立に生成し、高いほど前のセグメントの人物・場所・色調を引き継ぎます
+                </p>
               </div>
-            </div>
             
-            <button
-              onClick={handleAnalyzeAudio}
-              disabled={!file || analyzing}
-              className="w-full md:w-auto bg-indigo-600 text-white py-2 px-6 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
-            >
-              {analyzing ? '分析中...' : '音声を分析'}
-            </button>
-          </div>
-          
-          {analyzing && analysisProgress && (
-            <div className="mb-4">
-              <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
-                <div 
-                  className="h-full bg-indigo-600 transition-all duration-300"
-                  style={{ width: `${(analysisProgress.current / analysisProgress.total) * 100}%` }}
-                />
-              </div>
-              <p className="text-sm text-gray-600 mt-1 text-center">
-                分析中: {analysisProgress.current} / {analysisProgress.total} セグメント
-              </p>
-            </div>
-          )}
-          
-          {error && (
-            <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
-              <strong className="font-bold">エラー: </strong>
-              <span className="block sm:inline">{error}</span>
-            </div>
-          )}
-          
-          {analyses.length > 0 && (
-            <div className="flex justify-center">
               <button
-                onClick={handleGenerateMedia}
-                disabled={generatingImages || generatingVideo}
-                className="bg-green-600 text-white py-2 px-6 rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                onClick={handleAnalyzeAudio}
+                disabled={!file || analyzing}
+                className="w-full md:w-auto bg-indigo-600 text-white py-2 px-6 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
               >
-                {generatingImages || generatingVideo ? 'メディア生成中...' : 'メディアを生成'}
+                {analyzing ? '分析中...' : '音声を分析'}
               </button>
+
+              {analyzing && (
+                <button
+                  onClick={handleCancel}
+                  className="w-full md:w-auto bg-red-600 text-white py-2 px-6 rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  中止
+                </button>
+              )}
             </div>
-          )}
+
+            {file && !analyzing && analyses.length === 0 && renderCostEstimate()}
           
-          {(generatingImages || generatingVideo) && (
-            <div className="mt-4">
-              {imageProgress && (
-                <div className="mb-2">
-                  <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
-                    <div 
-                      className="h-full bg-green-600 transition-all duration-300"
-                      style={{ width: `${(imageProgress.current / imageProgress.total) * 100}%` }}
-                    />
-                  </div>
-                  <p className="text-sm text-gray-600 mt-1 text-center">
-                    画像生成: {imageProgress.current} / {imageProgress.total}
-                  </p>
+            {analyzing && analysisStatus && !analysisProgress && (
+              <p className="text-sm text-gray-600 mb-4 text-center">{analysisStatus}</p>
+            )}
+
+            {analyzing && analysisProgress && (
+              <div className="mb-4">
+                <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+                  <div 
+                    className="h-full bg-indigo-600 transition-all duration-300"
+                    style={{ width: `${(analysisProgress.current / analysisProgress.total) * 100}%` }}
+                  />
                 </div>
-              )}
+                <p className="text-sm text-gray-600 mt-1 text-center">
+                  分析中: {analysisProgress.current} / {analysisProgress.total} セグメント
+                </p>
+              </div>
+            )}
+          
+            {error && (
+              <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative mb-4" role="alert">
+                <strong className="font-bold">エラー: </strong>
+                <span className="block sm:inline">{error}</span>
+              </div>
+            )}
+
+            {notice && !error && (
+              <div className="bg-gray-100 border border-gray-300 text-gray-700 px-4 py-3 rounded mb-4" role="status">
+                {notice}
+              </div>
+            )}
+          
+            {analyses.length > 0 && !(generatingImages || generatingVideo) && (
+              <>
+                {renderCostEstimate()}
+                <div className="flex items-center justify-center gap-2 mb-4 text-sm">
+                  <label htmlFor="budget" className="text-gray-700">予算の上限（USD）</label>
+                  <input
+                    id="budget"
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={budgetDraft}
+                    placeholder="上限なし"
+                    onChange={(e) => setBudgetDraft(e.target.value)}
+                    onBlur={handleBudgetCommit}
+                    className="w-28 p-2 border border-gray-300 rounded-lg"
+                  />
+                </div>
+              </>
+            )}
+
+            {analyses.length > 0 && (
+              <div className="flex justify-center gap-2">
+                <button
+                  onClick={handleGenerateMedia}
+                  disabled={generatingImages || generatingVideo}
+                  className="bg-green-600 text-white py-2 px-6 rounded-lg hover:bg-green-700 transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed"
+                >
+                  {generatingImages || generatingVideo ? 'メディア生成中...' : 'メディアを生成'}
+                </button>
+                {!(generatingImages || generatingVideo) && (
+                  <button
+                    onClick={handleGenerateImages}
+                    className="border border-green-600 text-green-700 py-2 px-6 rounded-lg hover:bg-green-50 transition-colors"
+                  >
+                    画像だけを生成
+                  </button>
+                )}
+                {(generatingImages || generatingVideo) && (
+                  <button
+                    onClick={handleCancel}
+                    className="bg-red-600 text-white py-2 px-6 rounded-lg hover:bg-red-700 transition-colors"
+                  >
+                    中止
+                  </button>
+                )}
+              </div>
+            )}
+          
+            {(generatingImages || generatingVideo) && (
+              <div className="mt-4">
+                {imageProgress && (
+                  <div className="mb-2">
+                    <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+                      <div 
+                        className="h-full bg-green-600 transition-all duration-300"
+                        style={{ width: `${(imageProgress.current / imageProgress.total) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1 text-center">
+                      画像生成: {imageProgress.current} / {imageProgress.total}
+                    </p>
+                  </div>
+                )}
+              
+                {clipProgress && (
+                  <div className="mb-2">
+                    <div className="h-2 w-full bg-gray-200 rounded-full overflow-hidden">
+                      <div 
+                        className="h-full bg-green-600 transition-all duration-300"
+                        style={{ width: `${(clipProgress.current / clipProgress.total) * 100}%` }}
+                      />
+                    </div>
+                    <p className="text-sm text-gray-600 mt-1 text-center">
+                      クリップ生成: {clipProgress.current} / {clipProgress.total}
+                    </p>
+                  </div>
+                )}
               
-              {videoStatus && (
-                <p className="text-sm text-gray-600 text-center">{videoStatus}</p>
+                {videoStatus && (
+                  <p className="text-sm text-gray-600 text-center">{videoStatus}</p>
+                )}
+              </div>
+            )}
+          
+            {segmentStatuses.length > 0 && renderStatusGrid()}
+          </div>
+        
+          {analyses.length > 0 && (
+            <div className="bg-white rounded-lg shadow-md p-6">
+              <div className="flex border-b mb-6">
+                <button
+                  className={`px-4 py-2 font-medium ${activeTab === 'analysis' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+                  onClick={() => setActiveTab('analysis')}
+                >
+                  ストーリーボード
+                </button>
+                <button
+                  className={`px-4 py-2 font-medium ${activeTab === 'timeline' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+                  onClick={() => setActiveTab('timeline')}
+                >
+                  タイムライン
+                </button>
+                <button
+                  className={`px-4 py-2 font-medium ${activeTab === 'images' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+                  onClick={() => setActiveTab('images')}
+                >
+                  生成画像
+                </button>
+                <button
+                  className={`px-4 py-2 font-medium ${activeTab === 'video' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+                  onClick={() => setActiveTab('video')}
+                >
+                  動画クリップ
+                </button>
+              </div>
+            
+              {activeTab === 'analysis' && renderAnalysisTab()}
+              {activeTab === 'timeline' && (
+                <Timeline
+                  audioUrl={audioUrl}
+                  loadAudioBuffer={getAudioBuffer}
+                  segments={analyses}
+                  media={generatedImages}
+                  projectId={project?.id}
+                  disabled={analyzing || generatingImages || generatingVideo || storyboardBusy !== null}
+                  onMoveBoundary={handleMoveBoundary}
+                />
               )}
+              {activeTab === 'images' && renderImagesTab()}
+              {activeTab === 'video' && renderVideoTab()}
             </div>
           )}
-        </div>
-        
-        {analyses.length > 0 && (
-          <div className="bg-white rounded-lg shadow-md p-6">
-            <div className="flex border-b mb-6">
-              <button
-                className={`px-4 py-2 font-medium ${activeTab === 'analysis' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
-                onClick={() => setActiveTab('analysis')}
-              >
-                分析結果
-              </button>
-              <button
-                className={`px-4 py-2 font-medium ${activeTab === 'images' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
-                onClick={() => setActiveTab('images')}
-              >
-                生成画像
-              </button>
-              <button
-                className={`px-4 py-2 font-medium ${activeTab === 'video' ? 'text-indigo-600 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
-                onClick={() => setActiveTab('video')}
-              >
-                生成動画
-              </button>
-            </div>
-            
-            {activeTab === 'analysis' && renderAnalysisTab()}
-            {activeTab === 'images' && renderImagesTab()}
-            {activeTab === 'video' && renderVideoTab()}
-          </div>
+          </>
         )}
       </div>
     </div>
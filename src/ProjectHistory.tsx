@@ -0,0 +1,139 @@
+import React from 'react';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import { deleteProject, fetchProjectSummaries, ProjectRenderStatus, ProjectStage, ProjectSummary } from './projects';
+import { PROVIDER_SET_LABELS } from './providers';
+
+// 進行段階の表示名
+const STAGE_LABELS: Record<ProjectStage, string> = {
+  created: '作成済み',
+  analyzing: '分析中',
+  analyzed: '分析済み',
+  generating: '生成中',
+  completed: '完了',
+  failed: '失敗',
+  canceled: '中止'
+};
+
+// 最終動画のレンダリングの状態の表示（ラベルと色）
+const RENDER_STATUS_STYLES: Record<ProjectRenderStatus, { label: string; className: string }> = {
+  none: { label: '未レンダリング', className: 'bg-gray-100 text-gray-600' },
+  rendered: { label: 'レンダリング済み', className: 'bg-green-100 text-green-700' },
+  failed: { label: 'レンダリング失敗', className: 'bg-red-100 text-red-700' }
+};
+
+interface ProjectHistoryProps {
+  /** 表示中のプロジェクトのID */
+  activeProjectId?: string;
+  /** 分析や生成の実行中（プロジェクトを開き直せない） */
+  busy: boolean;
+  /** プロジェクトを開く */
+  onOpen: (id: string) => void;
+  /** プロジェクトを削除した後 */
+  onDeleted: (id: string) => void;
+}
+
+/**
+ * 過去のプロジェクトの一覧（開き直しと削除ができる）
+ */
+function ProjectHistory({ activeProjectId, busy, onOpen, onDeleted }: ProjectHistoryProps) {
+  const [projects, setProjects] = React.useState<ProjectSummary[] | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+  const [deletingId, setDeletingId] = React.useState<string | null>(null);
+
+  React.useEffect(() => {
+    fetchProjectSummaries()
+      .then(setProjects)
+      .catch((err) => setError((err as Error).message));
+  }, []);
+
+  const handleDelete = async (summary: ProjectSummary) => {
+    if (!window.confirm(`「${summary.audioName}」のプロジェクトを削除しますか？保存した素材と音声、他のプロジェクトと共有していないLumaの生成も削除されます。`)) {
+      return;
+    }
+
+    setDeletingId(summary.id);
+    setError(null);
+    try {
+      await deleteProject(summary.id);
+      setProjects(current => current?.filter(project => project.id !== summary.id) ?? null);
+      onDeleted(summary.id);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">プロジェクト</h2>
+
+      {error && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">{error}</div>
+      )}
+
+      {projects === null && !error && <p className="text-gray-500 text-center p-8">読み込み中...</p>}
+
+      {projects?.length === 0 && (
+        <div className="text-center p-8 bg-gray-50 rounded-lg">
+          <p className="text-gray-500">保存されたプロジェクトがありません。音声をアップロードして分析すると、ここに表示されます。</p>
+        </div>
+      )}
+
+      {projects && projects.length > 0 && (
+        <ul className="divide-y divide-gray-200 border rounded-lg bg-white">
+          {projects.map(summary => {
+            const renderStatus = RENDER_STATUS_STYLES[summary.renderStatus];
+            const isActive = summary.id === activeProjectId;
+
+            return (
+              <li key={summary.id} className={`flex flex-col md:flex-row md:items-center gap-4 p-4 ${isActive ? 'bg-indigo-50' : ''}`}>
+                <div className="flex gap-1 w-full md:w-72 shrink-0">
+                  {summary.thumbnails.length > 0 ? summary.thumbnails.map(url => (
+                    <img key={url} src={url} alt="" loading="lazy" className="w-1/4 aspect-video object-cover rounded bg-gray-100" />
+                  )) : (
+                    <div className="w-full aspect-[16/3] rounded bg-gray-100 flex items-center justify-center text-xs text-gray-400">
+                      画像なし
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium truncate">{summary.audioName}</p>
+                  <p className="text-sm text-gray-600">
+                    {new Date(summary.createdAt).toLocaleString('ja-JP')}・{summary.segmentCount}セグメント・{STAGE_LABELS[summary.stage]}
+                    {summary.provider && summary.provider !== 'gemini-luma' && `・${PROVIDER_SET_LABELS[summary.provider]}`}
+                  </p>
+                  <span className={`inline-block mt-1 px-2 py-0.5 rounded text-xs ${renderStatus.className}`}>
+                    {renderStatus.label}
+                  </span>
+                </div>
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => onOpen(summary.id)}
+                    disabled={busy || isActive}
+                    className="flex items-center bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+                  >
+                    <FolderOpen className="w-4 h-4 mr-1" />
+                    {isActive ? '表示中' : '開く'}
+                  </button>
+                  <button
+                    onClick={() => handleDelete(summary)}
+                    disabled={(busy && isActive) || deletingId !== null}
+                    className="flex items-center border border-red-300 text-red-600 py-2 px-4 rounded-lg hover:bg-red-50 transition-colors text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    {deletingId === summary.id ? '削除中...' : '削除'}
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default ProjectHistory;
@@ -0,0 +1,195 @@
+import React from 'react';
+import { Download, Film } from 'lucide-react';
+import type { SegmentAnalysis } from './audioAnalysis';
+import type { GeneratedMedia } from './lumaGeneration';
+import { isAbortError } from './lumaClient';
+import {
+  createSlideshowSlides,
+  drawSlideshowFrame,
+  getSupportedRecorderMimeType,
+  loadSlideImages,
+  recordSlideshow,
+  SLIDESHOW_HEIGHT,
+  SLIDESHOW_WIDTH
+} from './slideshow';
+
+interface SlideshowPreviewProps {
+  /** 元の音声のURL */
+  audioUrl: string | null;
+  segments: SegmentAnalysis[];
+  media: GeneratedMedia[];
+  projectId?: string;
+}
+
+/**
+ * 生成済みの画像を音声に合わせて切り替えるスライドショーのプレビュー（WebMとして書き出せる）
+ */
+function SlideshowPreview({ audioUrl, segments, media, projectId }: SlideshowPreviewProps) {
+  const canvasRef = React.useRef<HTMLCanvasElement>(null);
+  const audioRef = React.useRef<HTMLAudioElement>(null);
+  const exportControllerRef = React.useRef<AbortController | null>(null);
+  const [images, setImages] = React.useState<Array<HTMLImageElement | null>>([]);
+  const [beatPulse, setBeatPulse] = React.useState(true);
+  const [playing, setPlaying] = React.useState(false);
+  const [exportProgress, setExportProgress] = React.useState<number | null>(null);
+  const [exportUrl, setExportUrl] = React.useState<string | null>(null);
+  const [error, setError] = React.useState<string | null>(null);
+
+  const slides = React.useMemo(
+    () => createSlideshowSlides(segments, media, projectId),
+    [segments, media, projectId]
+  );
+  const canExport = getSupportedRecorderMimeType() !== null;
+
+  React.useEffect(() => {
+    let canceled = false;
+    loadSlideImages(slides).then(loaded => {
+      if (!canceled) setImages(loaded);
+    });
+    return () => {
+      canceled = true;
+    };
+  }, [slides]);
+
+  const drawFrame = React.useCallback((time: number) => {
+    const context = canvasRef.current?.getContext('2d');
+    if (context) {
+      drawSlideshowFrame(context, slides, images, time, { beatPulse });
+    }
+  }, [slides, images, beatPulse]);
+
+  // 停止中は再生位置のフレームを描き、再生中は毎フレーム音声の再生位置に合わせて描く
+  React.useEffect(() => {
+    if (exportProgress !== null) return;
+
+    drawFrame(audioRef.current?.currentTime ?? 0);
+    if (!playing) return;
+
+    let frameId = 0;
+    const render = () => {
+      drawFrame(audioRef.current?.currentTime ?? 0);
+      frameId = requestAnimationFrame(render);
+    };
+    frameId = requestAnimationFrame(render);
+    return () => cancelAnimationFrame(frameId);
+  }, [drawFrame, playing, exportProgress]);
+
+  // 書き出したWebMのURLは、次の書き出しやプレビューを閉じたときに解放する
+  React.useEffect(() => () => {
+    if (exportUrl) URL.revokeObjectURL(exportUrl);
+  }, [exportUrl]);
+
+  React.useEffect(() => () => exportControllerRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !audioUrl) return;
+
+    const controller = new AbortController();
+    exportControllerRef.current = controller;
+    audioRef.current?.pause();
+    setExportUrl(null);
+    setExportProgress(0);
+    setError(null);
+
+    try {
+      const blob = await recordSlideshow(canvas, audioUrl, drawFrame, setExportProgress, controller.signal);
+      setExportUrl(URL.createObjectURL(blob));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError((err as Error).message);
+      }
+    } finally {
+      exportControllerRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  if (slides.length === 0 || !audioUrl) {
+    return null;
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden bg-white shadow-sm">
+      <canvas
+        ref={canvasRef}
+        width={SLIDESHOW_WIDTH}
+        height={SLIDESHOW_HEIGHT}
+        className="w-full h-auto bg-black"
+      />
+      <div className="p-4 space-y-3">
+        <div>
+          <h3 className="text-lg font-medium flex items-center">
+            <Film className="w-5 h-5 mr-2" />
+            スライドショーのプレビュー
+          </h3>
+          <p className="text-sm text-gray-600">
+            {slides.length}枚の画像をセグメントの時刻に合わせて切り替えます。ブラウザ内で描画するため、動画生成の費用はかかりません。
+          </p>
+        </div>
+
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          controls
+          className="w-full"
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onSeeked={() => drawFrame(audioRef.current?.currentTime ?? 0)}
+        />
+
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={beatPulse}
+              onChange={(e) => setBeatPulse(e.target.checked)}
+              disabled={exportProgress !== null}
+            />
+            ビートに合わせて拡大する
+          </label>
+
+          {exportProgress === null ? (
+            <button
+              onClick={handleExport}
+              disabled={!canExport}
+              title={canExport ? undefined : 'このブラウザはWebMの書き出しに対応していません'}
+              className="bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              WebMで書き出す
+            </button>
+          ) : (
+            <div className="flex items-center gap-2 text-sm text-gray-700">
+              <span>書き出し中... {Math.round(exportProgress * 100)}%</span>
+              <button
+                onClick={() => exportControllerRef.current?.abort()}
+                className="border border-red-300 text-red-600 py-1 px-3 rounded-lg hover:bg-red-50 transition-colors"
+              >
+                中止
+              </button>
+            </div>
+          )}
+
+          {exportUrl && (
+            <a
+              href={exportUrl}
+              download="slideshow-preview.webm"
+              className="flex items-center text-sm text-indigo-600 hover:underline"
+            >
+              <Download className="w-4 h-4 mr-1" />
+              WebMをダウンロード
+            </a>
+          )}
+        </div>
+
+        {exportProgress !== null && (
+          <p className="text-xs text-gray-500">書き出しは音声を再生しながら録画するため、曲の長さだけ時間がかかります。タブを切り替えずにお待ちください。</p>
+        )}
+        {error && <p className="text-sm text-red-600">{error}</p>}
+      </div>
+    </div>
+  );
+}
+
+export default SlideshowPreview;
@@ -0,0 +1,346 @@
+import React from 'react';
+import { Pause, Play } from 'lucide-react';
+import type { SegmentAnalysis } from './audioAnalysis';
+import { SECTION_LABEL_NAMES } from './audioStructure';
+import type { GeneratedMedia } from './lumaGeneration';
+import { getLibraryImageUrl, getLibraryVideoUrl } from './mediaLibrary';
+import { moveBoundary } from './storyboard';
+
+// 波形の高さ（CSSピクセル）
+const WAVEFORM_HEIGHT = 96;
+
+interface TimelineProps {
+  /** 元の音声のURL */
+  audioUrl: string | null;
+  /** 波形を描くためにデコードした音声を取得する */
+  loadAudioBuffer: () => Promise<AudioBuffer>;
+  segments: SegmentAnalysis[];
+  media: GeneratedMedia[];
+  projectId?: string;
+  /** 分析や生成の実行中（境界を動かせない） */
+  disabled: boolean;
+  /** index番目のセグメントとその次のセグメントの境界を移動する */
+  onMoveBoundary: (index: number, time: number) => void;
+}
+
+/**
+ * 秒数を「分:秒.小数」形式にフォーマットする（境界がビートに合っているかを見るため0.1秒まで表示する）
+ * @param seconds 秒数
+ * @returns フォーマットした時刻
+ */
+function formatTimelineTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = (seconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${remainingSeconds}`;
+}
+
+/**
+ * 波形をキャンバスに描く（横1ピクセルごとに振幅の最小値と最大値を縦線で描く）
+ * @param canvas 描画先のキャンバス
+ * @param buffer デコードした音声
+ * @param width 描画する幅（CSSピクセル）
+ */
+function drawWaveform(canvas: HTMLCanvasElement, buffer: AudioBuffer, width: number): void {
+  const ratio = window.devicePixelRatio || 1;
+  canvas.width = Math.floor(width * ratio);
+  canvas.height = Math.floor(WAVEFORM_HEIGHT * ratio);
+  const context = canvas.getContext('2d');
+  if (!context) return;
+
+  const samples = buffer.getChannelData(0);
+  const columns = canvas.width;
+  const samplesPerColumn = Math.max(1, Math.floor(samples.length / columns));
+  const middle = canvas.height / 2;
+
+  context.clearRect(0, 0, canvas.width, canvas.height);
+  context.fillStyle = '#6366f1';
+  for (let column = 0; column < columns; column++) {
+    const start = column * samplesPerColumn;
+    const end = Math.min(samples.length, start + samplesPerColumn);
+    let min = 0;
+    let max = 0;
+    for (let i = start; i < end; i++) {
+      if (samples[i] < min) min = samples[i];
+      if (samples[i] > max) max = samples[i];
+    }
+    context.fillRect(column, middle - max * middle, 1, Math.max(1, (max - min) * middle));
+  }
+}
+
+/**
+ * 波形・セグメント境界・サムネイル・再生位置を並べたタイムライン
+ * 元の音声を再生しながら、再生位置のセグメントの画像またはクリップを表示する
+ */
+function Timeline({ audioUrl, loadAudioBuffer, segments, media, projectId, disabled, onMoveBoundary }: TimelineProps) {
+  const [audioBuffer, setAudioBuffer] = React.useState<AudioBuffer | null>(null);
+  const [loadError, setLoadError] = React.useState<string | null>(null);
+  const [width, setWidth] = React.useState(0);
+  const [currentTime, setCurrentTime] = React.useState(0);
+  const [playing, setPlaying] = React.useState(false);
+  const [seekCount, setSeekCount] = React.useState(0);
+  const [drag, setDrag] = React.useState<{ index: number; time: number } | null>(null);
+  const audioRef = React.useRef<HTMLAudioElement | null>(null);
+  const videoRef = React.useRef<HTMLVideoElement | null>(null);
+  const trackRef = React.useRef<HTMLDivElement | null>(null);
+  const canvasRef = React.useRef<HTMLCanvasElement | null>(null);
+
+  const duration = audioBuffer?.duration ?? segments[segments.length - 1]?.endTime ?? 0;
+
+  // 音声が変わったらデコードし直す
+  React.useEffect(() => {
+    let canceled = false;
+    setAudioBuffer(null);
+    setLoadError(null);
+    loadAudioBuffer()
+      .then(buffer => {
+        if (!canceled) setAudioBuffer(buffer);
+      })
+      .catch(err => {
+        if (!canceled) setLoadError((err as Error).message);
+      });
+    return () => {
+      canceled = true;
+    };
+  }, [audioUrl]);
+
+  // タイムラインの幅に合わせて波形を描き直す
+  React.useEffect(() => {
+    const track = trackRef.current;
+    if (!track) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(track);
+    return () => observer.disconnect();
+  }, []);
+
+  React.useEffect(() => {
+    if (canvasRef.current && audioBuffer && width > 0) {
+      drawWaveform(canvasRef.current, audioBuffer, width);
+    }
+  }, [audioBuffer, width]);
+
+  // 再生中は毎フレーム再生位置を更新する（timeupdateイベントは間隔が粗いため）
+  React.useEffect(() => {
+    if (!playing) return;
+    let frame = requestAnimationFrame(function update() {
+      setCurrentTime(audioRef.current?.currentTime ?? 0);
+      frame = requestAnimationFrame(update);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  const currentIndex = segments.findIndex((segment, index) =>
+    currentTime >= segment.startTime && (currentTime < segment.endTime || index === segments.length - 1)
+  );
+  const currentSegment = segments[currentIndex];
+  const currentMedia = media.find(item => item.segmentIndex === currentIndex);
+  const clipUrl = getLibraryVideoUrl(projectId, currentMedia?.clipResponse);
+  const imageUrl = getLibraryImageUrl(projectId, currentMedia?.imageResponse);
+
+  // クリップの再生位置を音声に合わせる（クリップがセグメントより短い場合はループさせる）
+  React.useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !currentSegment) return;
+
+    const sync = () => {
+      const offset = (audioRef.current?.currentTime ?? 0) - currentSegment.startTime;
+      video.currentTime = video.duration > 0 ? Math.max(0, offset) % video.duration : Math.max(0, offset);
+      if (playing) {
+        video.play().catch(() => undefined);
+      } else {
+        video.pause();
+      }
+    };
+
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      sync();
+      return;
+    }
+    video.addEventListener('loadedmetadata', sync, { once: true });
+    return () => video.removeEventListener('loadedmetadata', sync);
+  }, [clipUrl, playing, seekCount]);
+
+  /**
+   * 画面上のX座標をタイムラインの時刻に変換する
+   * @param clientX ポインターのX座標
+   * @returns 時刻（秒）
+   */
+  const toTime = (clientX: number): number => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(duration, Math.max(0, (clientX - rect.left) / rect.width * duration));
+  };
+
+  const toPercent = (time: number): string => `${duration > 0 ? time / duration * 100 : 0}%`;
+
+  const seek = (time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+    setSeekCount(count => count + 1);
+  };
+
+  const togglePlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(err => setLoadError((err as Error).message));
+    } else {
+      audio.pause();
+    }
+  };
+
+  // ドラッグ中の境界の位置（前後のセグメントが最小長より短くならない範囲に制限する）
+  const getDraggedTime = (index: number): number => {
+    const segment = segments[index];
+    if (drag?.index !== index) return segment.endTime;
+    return moveBoundary(segment, segments[index + 1], drag.time)?.[0].endTime ?? segment.endTime;
+  };
+
+  const handlePointerUp = (index: number) => {
+    if (drag?.index !== index) return;
+    const time = getDraggedTime(index);
+    setDrag(null);
+    if (time !== segments[index].endTime) {
+      onMoveBoundary(index, time);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <h2 className="text-xl font-semibold">タイムライン</h2>
+
+      {loadError && (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-red-600 text-sm">{loadError}</div>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-4">
+        <div className="w-full md:w-96 aspect-video bg-gray-900 rounded-lg overflow-hidden flex items-center justify-center shrink-0">
+          {clipUrl ? (
+            <video key={clipUrl} ref={videoRef} src={clipUrl} muted loop playsInline className="w-full h-full object-cover" />
+          ) : imageUrl ? (
+            <img src={imageUrl} alt={currentSegment?.imagePrompt} className="w-full h-full object-cover" />
+          ) : (
+            <span className="text-sm text-gray-400">画像がありません</span>
+          )}
+        </div>
+        <div className="flex-1 space-y-2">
+          <div className="flex items-center gap-3">
+            <button
+              onClick={togglePlayback}
+              disabled={!audioUrl}
+              className="flex items-center bg-indigo-600 text-white py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:bg-gray-400"
+            >
+              {playing ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+              {playing ? '一時停止' : '再生'}
+            </button>
+            <span className="font-mono text-sm text-gray-700">
+              {formatTimelineTime(currentTime)} / {formatTimelineTime(duration)}
+            </span>
+          </div>
+          {currentSegment && (
+            <div className="text-sm text-gray-700">
+              <p className="font-medium">
+                セグメント {currentIndex + 1}: {formatTimelineTime(currentSegment.startTime)} - {formatTimelineTime(currentSegment.endTime)}
+                {currentSegment.section && (
+                  <span className="ml-2 text-xs font-normal bg-amber-50 text-amber-700 px-2 py-1 rounded">
+                    {SECTION_LABEL_NAMES[currentSegment.section]}
+                  </span>
+                )}
+              </p>
+              <p className="text-gray-600 mt-1">{currentSegment.visual}</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {audioUrl && (
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          onPlay={() => setPlaying(true)}
+          onPause={() => setPlaying(false)}
+          onEnded={() => setPlaying(false)}
+          onSeeked={() => setCurrentTime(audioRef.current?.currentTime ?? 0)}
+          className="hidden"
+        />
+      )}
+
+      <div
+        ref={trackRef}
+        className="relative select-none cursor-pointer"
+        onClick={(e) => seek(toTime(e.clientX))}
+      >
+        <div className="bg-gray-50 rounded" style={{ height: WAVEFORM_HEIGHT }}>
+          {audioBuffer ? (
+            <canvas ref={canvasRef} className="w-full h-full" />
+          ) : (
+            <div className="h-full flex items-center justify-center text-xs text-gray-400">
+              {loadError ? '波形を表示できません' : '波形を読み込み中...'}
+            </div>
+          )}
+        </div>
+
+        <div className="relative h-16 mt-1">
+          {segments.map((segment, index) => {
+            const start = index > 0 ? getDraggedTime(index - 1) : segment.startTime;
+            const end = index < segments.length - 1 ? getDraggedTime(index) : segment.endTime;
+            const thumbnail = getLibraryImageUrl(projectId, media.find(item => item.segmentIndex === index)?.imageResponse);
+
+            return (
+              <div
+                key={`${segment.startTime}-${segment.endTime}`}
+                className={`absolute top-0 bottom-0 overflow-hidden rounded border ${index === currentIndex ? 'border-indigo-500' : 'border-gray-200'} bg-gray-100`}
+                style={{ left: toPercent(start), width: `calc(${toPercent(end - start)} - 2px)` }}
+                title={`セグメント ${index + 1}: ${formatTimelineTime(start)} - ${formatTimelineTime(end)}`}
+              >
+                {thumbnail && <img src={thumbnail} alt="" loading="lazy" className="w-full h-full object-cover" />}
+                <span className="absolute top-0 left-0 bg-black/50 text-white text-xs px-1 rounded-br">{index + 1}</span>
+              </div>
+            );
+          })}
+        </div>
+
+        {segments.slice(0, -1).map((segment, index) => {
+          const locked = segment.locked || segments[index + 1].locked;
+          const time = getDraggedTime(index);
+
+          return (
+            <div
+              key={`boundary-${segment.endTime}`}
+              className={`absolute top-0 bottom-0 w-3 -ml-1.5 flex justify-center ${disabled || locked ? 'cursor-not-allowed' : 'cursor-col-resize'}`}
+              style={{ left: toPercent(time) }}
+              title={locked ? 'ロックされたセグメントの境界は動かせません' : `境界 ${formatTimelineTime(time)}`}
+              onClick={(e) => e.stopPropagation()}
+              onPointerDown={(e) => {
+                if (disabled || locked) return;
+                e.currentTarget.setPointerCapture(e.pointerId);
+                setDrag({ index, time: segment.endTime });
+              }}
+              onPointerMove={(e) => {
+                if (drag?.index === index) {
+                  setDrag({ index, time: toTime(e.clientX) });
+                }
+              }}
+              onPointerUp={() => handlePointerUp(index)}
+              onPointerCancel={() => setDrag(null)}
+            >
+              <div className={`w-0.5 h-full ${drag?.index === index ? 'bg-amber-500' : 'bg-gray-700'}`} />
+            </div>
+          );
+        })}
+
+        <div
+          className="absolute top-0 bottom-0 w-0.5 bg-red-500 pointer-events-none"
+          style={{ left: toPercent(currentTime) }}
+        />
+      </div>
+
+      <p className="text-xs text-gray-500">
+        波形をクリックするとその位置から再生します。境界をドラッグすると前後のセグメントを分割し直して再分析します（画像とクリップは次の「メディアを生成」で作り直されます）。
+      </p>
+    </div>
+  );
+}
+
+export default Timeline;
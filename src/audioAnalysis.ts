@@ -1,11 +1,19 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
-
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
+import { AudioFeatures, extractAudioFeatures } from './audioFeatures';
+import {
+  createFixedBoundaries,
+  detectStructuralBoundaries,
+  SectionLabel,
+  SegmentBoundary
+} from './audioStructure';
+import type { StyleBible } from './styleBible';
+import { configureQueueFromEnv, runQueued, TaskQueue } from './taskQueue';
 
 export interface AudioSegment {
   startTime: number;
   endTime: number;
   blob: Blob;
+  features: AudioFeatures;
+  section?: SectionLabel;
 }
 
 export interface SegmentAnalysis {
@@ -15,18 +23,65 @@ export interface SegmentAnalysis {
   visual: string;
   emotion: string;
   imagePrompt: string;
+  features: AudioFeatures;
+  section?: SectionLabel;
+  /** ストーリーボードでロックされたセグメント（編集や再生成の対象にしない） */
+  locked?: boolean;
+}
+
+export type SegmentationMode = 'fixed' | 'structural';
+
+export interface SegmentationOptions {
+  /** 固定長で分割するか、楽曲構造に沿って分割するか */
+  mode: SegmentationMode;
+  /** 固定長モードのセグメント長（秒） */
+  segmentDuration: number;
+  /** 構造モードのセグメントの最小長（秒） */
+  minDuration: number;
+  /** 構造モードのセグメントの最大長（秒） */
+  maxDuration: number;
+}
+
+export const DEFAULT_SEGMENTATION_OPTIONS: SegmentationOptions = {
+  mode: 'fixed',
+  segmentDuration: 30,
+  minDuration: 8,
+  maxDuration: 40
+};
+
+export interface AnalysisCallbacks {
+  /** セグメント境界が確定したとき（分析の開始前に呼ばれる） */
+  onSegmentsReady?: (boundaries: SegmentBoundary[]) => void | Promise<void>;
+  /** セグメントの分析が完了したとき */
+  onSegmentAnalyzed?: (analysis: SegmentAnalysis, index: number) => void;
+}
+
+export interface AnalysisContext {
+  /** 楽曲全体のスタイルバイブル（全セグメントの分析をこれに沿わせる） */
+  styleBible?: StyleBible;
+  /**
+   * 連続性の強さ（0〜1）
+   * 0より大きい場合は直前のセグメントの分析結果を渡し、隣り合うセグメントの見た目が離れすぎないようにする
+   */
+  continuityStrength?: number;
+  /** プロジェクトID（プロジェクトで選んだ提供元で分析する） */
+  projectId?: string;
+  /** 分析を中止するシグナル（中止すると次のセグメントに進まず、送信中のリクエストも中断する） */
+  signal?: AbortSignal;
 }
 
+export const DEFAULT_CONTINUITY_STRENGTH = 0.5;
+
+// アプリ全体で共有するGemini APIのキュー（1セグメントの分析でGeminiを2回呼び出すため、同時実行数と開始間隔を抑える）
+export const geminiQueue = new TaskQueue({ concurrency: 3, interval: 500 });
+configureQueueFromEnv(geminiQueue, 'GEMINI');
+
 /**
- * 音声ファイルをセグメントに分割する
+ * 音声ファイルをデコードする
  * @param audioFile 音声ファイル
- * @param segmentDuration セグメントの長さ（秒）
- * @returns 分割されたセグメントの配列
+ * @returns デコードされたAudioBuffer
  */
-export async function splitAudioIntoSegments(
-  audioFile: File,
-  segmentDuration: number = 30
-): Promise<AudioSegment[]> {
+export async function decodeAudioFile(audioFile: Blob): Promise<AudioBuffer> {
   return new Promise((resolve, reject) => {
     const audioContext = new AudioContext();
     const fileReader = new FileReader();
@@ -38,61 +93,11 @@ export async function splitAudioIntoSegments(
         }
 
         const audioData = event.target.result as ArrayBuffer;
-        const audioBuffer = await audioContext.decodeAudioData(audioData);
-        
-        const totalDuration = audioBuffer.duration;
-        const segments: AudioSegment[] = [];
-        
-        // セグメントに分割
-        for (let startTime = 0; startTime < totalDuration; startTime += segmentDuration) {
-          const endTime = Math.min(startTime + segmentDuration, totalDuration);
-          
-          // セグメントの抽出
-          const segmentLength = (endTime - startTime) * audioBuffer.sampleRate;
-          const segmentBuffer = audioContext.createBuffer(
-            audioBuffer.numberOfChannels,
-            segmentLength,
-            audioBuffer.sampleRate
-          );
-          
-          // チャンネルごとにデータをコピー
-          for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
-            const channelData = audioBuffer.getChannelData(channel);
-            const segmentData = segmentBuffer.getChannelData(channel);
-            
-            const startIndex = Math.floor(startTime * audioBuffer.sampleRate);
-            for (let i = 0; i < segmentLength; i++) {
-              segmentData[i] = channelData[startIndex + i];
-            }
-          }
-          
-          // WAVに変換
-          const offlineContext = new OfflineAudioContext(
-            segmentBuffer.numberOfChannels,
-            segmentBuffer.length,
-            segmentBuffer.sampleRate
-          );
-          
-          const source = offlineContext.createBufferSource();
-          source.buffer = segmentBuffer;
-          source.connect(offlineContext.destination);
-          source.start();
-          
-          const renderedBuffer = await offlineContext.startRendering();
-          
-          // Blobに変換
-          const wavBlob = await bufferToWav(renderedBuffer);
-          
-          segments.push({
-            startTime,
-            endTime,
-            blob: wavBlob
-          });
-        }
-        
-        resolve(segments);
+        resolve(await audioContext.decodeAudioData(audioData));
       } catch (error) {
         reject(error);
+      } finally {
+        audioContext.close();
       }
     };
     
@@ -104,6 +109,114 @@ export async function splitAudioIntoSegments(
   });
 }
 
+/**
+ * AudioBufferの全チャンネルのサンプルを取得する
+ * @param buffer AudioBuffer
+ * @returns チャンネルごとのサンプル
+ */
+function getChannels(buffer: AudioBuffer): Float32Array[] {
+  return Array.from({ length: buffer.numberOfChannels }, (_, channel) => buffer.getChannelData(channel));
+}
+
+/**
+ * 分割方法に応じてセグメント境界を決める
+ * @param audioBuffer デコードされた音声
+ * @param options 分割方法
+ * @returns セグメント境界の配列
+ */
+export function createSegmentBoundaries(
+  audioBuffer: AudioBuffer,
+  options: SegmentationOptions
+): SegmentBoundary[] {
+  if (options.mode === 'structural') {
+    return detectStructuralBoundaries(getChannels(audioBuffer), audioBuffer.sampleRate, {
+      minDuration: options.minDuration,
+      maxDuration: options.maxDuration
+    });
+  }
+  return createFixedBoundaries(audioBuffer.duration, options.segmentDuration);
+}
+
+/**
+ * セグメント境界に沿って音声を切り出す
+ * @param audioBuffer デコードされた音声
+ * @param boundaries セグメント境界の配列
+ * @returns 切り出されたセグメントの配列
+ */
+export async function extractSegments(
+  audioBuffer: AudioBuffer,
+  boundaries: SegmentBoundary[]
+): Promise<AudioSegment[]> {
+  const segments: AudioSegment[] = [];
+
+  for (const { startTime, endTime, section } of boundaries) {
+    // セグメントの抽出
+    const startIndex = Math.floor(startTime * audioBuffer.sampleRate);
+    const segmentLength = Math.max(1, Math.min(
+      Math.floor(endTime * audioBuffer.sampleRate),
+      audioBuffer.length
+    ) - startIndex);
+    const segmentBuffer = new AudioBuffer({
+      numberOfChannels: audioBuffer.numberOfChannels,
+      length: segmentLength,
+      sampleRate: audioBuffer.sampleRate
+    });
+    
+    // チャンネルごとにデータをコピー
+    for (let channel = 0; channel < audioBuffer.numberOfChannels; channel++) {
+      segmentBuffer.copyToChannel(
+        audioBuffer.getChannelData(channel).subarray(startIndex, startIndex + segmentLength),
+        channel
+      );
+    }
+    
+    // 信号処理による特徴量の抽出
+    const features = extractAudioFeatures(getChannels(segmentBuffer), segmentBuffer.sampleRate);
+    
+    // WAVに変換
+    const offlineContext = new OfflineAudioContext(
+      segmentBuffer.numberOfChannels,
+      segmentBuffer.length,
+      segmentBuffer.sampleRate
+    );
+    
+    const source = offlineContext.createBufferSource();
+    source.buffer = segmentBuffer;
+    source.connect(offlineContext.destination);
+    source.start();
+    
+    const renderedBuffer = await offlineContext.startRendering();
+    
+    // Blobに変換
+    const wavBlob = await bufferToWav(renderedBuffer);
+    
+    segments.push({
+      startTime,
+      endTime,
+      blob: wavBlob,
+      features,
+      section
+    });
+  }
+
+  return segments;
+}
+
+/**
+ * 音声ファイルをセグメントに分割する
+ * @param audioFile 音声ファイル
+ * @param options 分割方法
+ * @returns 分割されたセグメントの配列
+ */
+export async function splitAudioIntoSegments(
+  audioFile: File,
+  options: Partial<SegmentationOptions> = {}
+): Promise<AudioSegment[]> {
+  const audioBuffer = await decodeAudioFile(audioFile);
+  const boundaries = createSegmentBoundaries(audioBuffer, { ...DEFAULT_SEGMENTATION_OPTIONS, ...options });
+  return extractSegments(audioBuffer, boundaries);
+}
+
 /**
  * AudioBufferからWAV形式のBlobを生成
  * @param buffer AudioBuffer
@@ -186,136 +299,254 @@ async function bufferToWav(buffer: AudioBuffer): Promise<Blob> {
 }
 
 /**
- * 音声セグメントをGemini APIで分析
+ * BlobをBase64文字列に変換
+ * @param blob 変換するBlob
+ * @returns Base64文字列（data URLのプレフィックスなし）
+ */
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.substring(dataUrl.indexOf(',') + 1));
+    };
+    reader.onerror = () => {
+      reject(new Error('音声データの変換に失敗しました'));
+    };
+    reader.readAsDataURL(blob);
+  });
+}
+
+/**
+ * 音声セグメントをサーバー経由でGemini APIに送信して分析
  * @param segment 分析する音声セグメント
+ * @param context 楽曲全体のスタイルバイブルなど、分析の前提となる情報
+ * @param previous 直前のセグメントの分析結果（連続性モードで引き継ぐ）
  * @returns セグメントの分析結果
  */
-export async function analyzeAudioSegment(segment: AudioSegment): Promise<SegmentAnalysis> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-  
-  // セグメントの時間情報をフォーマット
-  const startTimeFormatted = formatTime(segment.startTime);
-  const endTimeFormatted = formatTime(segment.endTime);
-  
-  const analysisPrompt = `
-この音楽セグメント（${startTimeFormatted}～${endTimeFormatted}）の世界観を分析してください。
-
-以下の3つの観点から分析して、それぞれ日本語で200文字程度で説明してください：
-
-1. ストーリー/シーン描写：この音楽が表現している物語や情景
-2. ビジュアルイメージ：色彩、光、空間、質感などの視覚的な要素
-3. 感情表現：この音楽が喚起する感情や心理状態
+export async function analyzeAudioSegment(
+  segment: AudioSegment,
+  context: AnalysisContext = {},
+  previous?: SegmentAnalysis | null
+): Promise<SegmentAnalysis> {
+  const audio = await blobToBase64(segment.blob);
+  const continuityStrength = context.continuityStrength ?? 0;
 
-必ず以下のJSON形式で回答してください：
-
-{
-  "story": "ストーリーの説明を200文字程度で",
-  "visual": "ビジュアルイメージの説明を200文字程度で",
-  "emotion": "感情表現の説明を200文字程度で"
-}
+  const response = await fetch('/api/analyze/segment', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      audio,
+      mimeType: segment.blob.type || 'audio/wav',
+      startTime: segment.startTime,
+      endTime: segment.endTime,
+      features: segment.features,
+      section: segment.section,
+      styleBible: context.styleBible,
+      previousSegment: previous && continuityStrength > 0
+        ? {
+          story: previous.story,
+          visual: previous.visual,
+          emotion: previous.emotion,
+          imagePrompt: previous.imagePrompt
+        }
+        : undefined,
+      continuityStrength,
+      projectId: context.projectId
+    }),
+    signal: context.signal
+  });
 
-注意：
-- 必ずJSON形式で返してください
-- 各説明は200文字程度にしてください
-- 改行を含めないでください`;
+  if (!response.ok) {
+    let errorMessage = '音楽の分析に失敗しました。もう一度お試しください。';
 
-  const result = await model.generateContent(analysisPrompt);
-  const response = await result.response;
-  const text = response.text();
-  
-  try {
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('JSON形式の応答が見つかりませんでした');
-    }
-    
-    const analysis = JSON.parse(jsonMatch[0]);
-    
-    if (!analysis.story || !analysis.visual || !analysis.emotion) {
-      throw new Error('応答に必要な情報が含まれていません');
+    try {
+      const errorData = await response.json();
+      errorMessage = errorData.message || errorMessage;
+    } catch (jsonError) {
+      errorMessage = `音楽の分析に失敗しました (${response.status}: ${response.statusText})`;
     }
-    
-    // 画像生成プロンプトの作成
-    const promptGenerationPrompt = `
-以下の分析結果から、画像生成AI向けの英語プロンプトを生成してください。
-この音楽セグメントは${startTimeFormatted}～${endTimeFormatted}の部分です。
-
-分析結果:
-${JSON.stringify(analysis, null, 2)}
-
-以下の要素を含む、自然な英語の文章を1つ作成してください：
-- 色合い
-- 風景/シーン
-- 感情
-- 光の強さや陰影
-
-必ず以下のJSON形式で返してください：
 
-{
-  "imagePrompt": "生成された英語プロンプト"
-}`;
-
-    const promptResult = await model.generateContent(promptGenerationPrompt);
-    const promptResponse = await promptResult.response;
-    const promptText = promptResponse.text();
+    throw new Error(errorMessage);
+  }
 
-    const promptJson = JSON.parse(promptText.match(/\{[\s\S]*\}/)?.[0] || '{}');
-    
-    return {
-      startTime: segment.startTime,
-      endTime: segment.endTime,
-      story: analysis.story,
-      visual: analysis.visual,
-      emotion: analysis.emotion,
-      imagePrompt: promptJson.imagePrompt || ''
-    };
-  } catch (error) {
-    console.error('Gemini応答のパースエラー:', error);
-    throw new Error('音楽の分析に失敗しました。もう一度お試しください。');
+  const analysis = await response.json();
+  // サーバーがスキーマで検証しているが、空のプロンプトで画像を生成しないよう念のため確認する
+  for (const field of ['story', 'visual', 'emotion', 'imagePrompt'] as const) {
+    if (typeof analysis?.[field] !== 'string' || analysis[field].trim().length === 0) {
+      throw new Error(`音楽の分析結果が不正です（${field}が空です）`);
+    }
   }
+
+  return {
+    startTime: segment.startTime,
+    endTime: segment.endTime,
+    story: analysis.story,
+    visual: analysis.visual,
+    emotion: analysis.emotion,
+    imagePrompt: analysis.imagePrompt,
+    features: segment.features,
+    section: segment.section
+  };
 }
 
 /**
- * 秒数を「分:秒」形式にフォーマット
- * @param seconds 秒数
- * @returns フォーマットされた時間文字列
+ * セグメントをGeminiのキューで並列に分析する
+ * 連続性モードでは、各セグメントに直前のセグメントの分析結果を渡すため1つずつ分析する
+ * @param segments 分析するセグメントとそのインデックス
+ * @param total セグメントの総数
+ * @param completed 分析済みのセグメント数
+ * @param context 分析の前提となる情報
+ * @param onProgress 進捗状況のコールバック
+ * @param onSegmentAnalyzed セグメントの分析が完了したときのコールバック
+ * @param known 分析済みのセグメントの分析結果（未分析のセグメントはnull）
+ * @returns インデックスと分析結果の配列（セグメントの順序）
  */
-function formatTime(seconds: number): string {
-  const minutes = Math.floor(seconds / 60);
-  const remainingSeconds = Math.floor(seconds % 60);
-  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+async function analyzeSegments(
+  segments: { index: number; segment: AudioSegment }[],
+  total: number,
+  completed: number,
+  context: AnalysisContext,
+  onProgress?: (progress: number, total: number) => void,
+  onSegmentAnalyzed?: (analysis: SegmentAnalysis, index: number) => void,
+  known: (SegmentAnalysis | null)[] = []
+): Promise<{ index: number; analysis: SegmentAnalysis }[]> {
+  const analyzed = [...known];
+  // 連続性モードでは直前のセグメントの分析結果を前提にするため、1つずつ分析する
+  const sequential = (context.continuityStrength ?? 0) > 0;
+
+  const analyses = await runQueued(geminiQueue, segments, async ({ index, segment }) => {
+    const analysis = await analyzeAudioSegment(segment, context, analyzed[index - 1]);
+    analyzed[index] = analysis;
+    return analysis;
+  }, {
+    concurrency: sequential ? 1 : undefined,
+    signal: context.signal,
+    onItemDone: (analysis, i, done) => {
+      if (onSegmentAnalyzed) {
+        onSegmentAnalyzed(analysis, segments[i].index);
+      }
+      // 進捗状況を報告
+      if (onProgress) {
+        onProgress(completed + done, total);
+      }
+    }
+  });
+
+  return segments.map(({ index }, i) => ({ index, analysis: analyses[i] }));
 }
 
 /**
  * 音声ファイルを分割して各セグメントを分析
  * @param audioFile 音声ファイル
- * @param segmentDuration セグメントの長さ（秒）
+ * @param options 分割方法
+ * @param onProgress 進捗状況のコールバック
+ * @param callbacks セグメント境界の確定と各セグメントの分析完了を受け取るコールバック
+ * @param context 楽曲全体のスタイルバイブルなど、分析の前提となる情報と中止するシグナル
  * @returns 各セグメントの分析結果
  */
 export async function analyzeAudioFile(
   audioFile: File,
-  segmentDuration: number = 30,
-  onProgress?: (progress: number, total: number) => void
+  options: Partial<SegmentationOptions> = {},
+  onProgress?: (progress: number, total: number) => void,
+  callbacks: AnalysisCallbacks = {},
+  context: AnalysisContext = {}
 ): Promise<SegmentAnalysis[]> {
   try {
     // 音声ファイルをセグメントに分割
-    const segments = await splitAudioIntoSegments(audioFile, segmentDuration);
-    const analyses: SegmentAnalysis[] = [];
-    
-    // 各セグメントを順番に分析
-    for (let i = 0; i < segments.length; i++) {
-      const analysis = await analyzeAudioSegment(segments[i]);
-      analyses.push(analysis);
-      
-      // 進捗状況を報告
-      if (onProgress) {
-        onProgress(i + 1, segments.length);
-      }
+    const audioBuffer = await decodeAudioFile(audioFile);
+    context.signal?.throwIfAborted();
+    const boundaries = createSegmentBoundaries(audioBuffer, { ...DEFAULT_SEGMENTATION_OPTIONS, ...options });
+    if (callbacks.onSegmentsReady) {
+      await callbacks.onSegmentsReady(boundaries);
     }
-    
-    return analyses;
+    const segments = await extractSegments(audioBuffer, boundaries);
+
+    // 各セグメントを分析
+    const results = await analyzeSegments(
+      segments.map((segment, index) => ({ index, segment })),
+      segments.length,
+      0,
+      context,
+      onProgress,
+      callbacks.onSegmentAnalyzed
+    );
+
+    return results.map(({ analysis }) => analysis);
   } catch (error) {
     console.error('音声分析エラー:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * 指定した境界のセグメントを切り出して分析する（ストーリーボードでの再分析・結合・分割用）
+ * @param audioBuffer デコードされた音声
+ * @param boundaries 分析するセグメント境界
+ * @param context 楽曲全体のスタイルバイブルなど、分析の前提となる情報
+ * @param preceding 分析するセグメントより前のセグメントの分析結果（連続性モードで直前のセグメントから引き継ぐ）
+ * @returns 各セグメントの分析結果
+ */
+export async function analyzeBoundaries(
+  audioBuffer: AudioBuffer,
+  boundaries: SegmentBoundary[],
+  context: AnalysisContext = {},
+  preceding: SegmentAnalysis[] = []
+): Promise<SegmentAnalysis[]> {
+  const segments = await extractSegments(audioBuffer, boundaries);
+  const results = await analyzeSegments(
+    segments.map((segment, i) => ({ index: preceding.length + i, segment })),
+    segments.length,
+    0,
+    context,
+    undefined,
+    undefined,
+    preceding
+  );
+  return results.map(({ analysis }) => analysis);
+}
+
+/**
+ * 途中まで分析された音声の残りのセグメントを分析する（再読み込み後の再開用）
+ * @param audioFile 音声ファイル
+ * @param boundaries 保存されているセグメント境界
+ * @param existing 保存されている分析結果（未分析のセグメントはnull）
+ * @param onProgress 進捗状況のコールバック
+ * @param onSegmentAnalyzed セグメントの分析が完了したときのコールバック
+ * @param context 楽曲全体のスタイルバイブルなど、分析の前提となる情報
+ * @returns 全セグメントの分析結果
+ */
+export async function resumeAudioAnalysis(
+  audioFile: Blob,
+  boundaries: SegmentBoundary[],
+  existing: (SegmentAnalysis | null)[],
+  onProgress?: (progress: number, total: number) => void,
+  onSegmentAnalyzed?: (analysis: SegmentAnalysis, index: number) => void,
+  context: AnalysisContext = {}
+): Promise<SegmentAnalysis[]> {
+  const analyses = boundaries.map((_, index) => existing[index] ?? null);
+  const pendingIndexes = analyses
+    .map((analysis, index) => (analysis ? -1 : index))
+    .filter(index => index >= 0);
+
+  if (pendingIndexes.length > 0) {
+    const audioBuffer = await decodeAudioFile(audioFile);
+    const segments = await extractSegments(audioBuffer, pendingIndexes.map(index => boundaries[index]));
+    const results = await analyzeSegments(
+      segments.map((segment, i) => ({ index: pendingIndexes[i], segment })),
+      boundaries.length,
+      boundaries.length - pendingIndexes.length,
+      context,
+      onProgress,
+      onSegmentAnalyzed,
+      analyses
+    );
+    for (const { index, analysis } of results) {
+      analyses[index] = analysis;
+    }
+  }
+
+  return analyses.filter((analysis): analysis is SegmentAnalysis => analysis !== null);
+}
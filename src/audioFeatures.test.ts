@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeRmsCurve,
+  estimateKey,
+  extractAudioFeatures,
+  formatFeaturesForPrompt,
+  mixToMono
+} from './audioFeatures';
+
+const SAMPLE_RATE = 22050;
+
+/**
+ * 正弦波を合成する
+ * @param frequencies 周波数（Hz）の配列（和音にする場合は複数）
+ * @param seconds 長さ（秒）
+ * @param amplitude 振幅
+ * @returns サンプル
+ */
+function createTone(frequencies: number[], seconds: number, amplitude = 0.3): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    samples[i] = frequencies.reduce((sum, frequency) => sum + amplitude * Math.sin(2 * Math.PI * frequency * t), 0);
+  }
+  return samples;
+}
+
+/**
+ * 一定のテンポで減衰するクリックを並べたクリックトラックを合成する
+ * @param bpm テンポ
+ * @param seconds 長さ（秒）
+ * @returns サンプル
+ */
+function createClickTrack(bpm: number, seconds: number): Float32Array {
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const beatLength = Math.round(SAMPLE_RATE * 60 / bpm);
+  const clickLength = Math.round(SAMPLE_RATE * 0.03);
+  for (let beat = 0; beat < samples.length; beat += beatLength) {
+    for (let i = 0; i < clickLength && beat + i < samples.length; i++) {
+      samples[beat + i] = 0.8 * Math.exp(-i / (clickLength / 5)) * Math.sin(2 * Math.PI * 1500 * i / SAMPLE_RATE);
+    }
+  }
+  return samples;
+}
+
+describe('mixToMono', () => {
+  it('チャンネルを平均する', () => {
+    const mono = mixToMono([new Float32Array([1, 0, -1]), new Float32Array([0, 0, 1])]);
+    expect(Array.from(mono)).toEqual([0.5, 0, 0]);
+  });
+});
+
+describe('computeRmsCurve', () => {
+  it('窓ごとのRMSを求める（最後の窓は残りのサンプルだけで求める）', () => {
+    const samples = new Float32Array([0.5, -0.5, 0.5, -0.5, 1]);
+    expect(computeRmsCurve(samples, 4, 1)).toEqual([0.5, 1]);
+  });
+
+  it('正弦波のRMSは振幅の1/√2になる', () => {
+    const curve = computeRmsCurve(createTone([440], 1, 1), SAMPLE_RATE);
+    curve.forEach(value => expect(value).toBeCloseTo(Math.SQRT1_2, 2));
+  });
+});
+
+describe('estimateKey', () => {
+  it('長調のプロファイルと同じクロマはその主音の長調と推定する', () => {
+    // Dメジャーのプロファイル（Krumhansl-Schmuckler）をDから並べたクロマ
+    const major = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+    const chroma = Array.from({ length: 12 }, (_, i) => major[(i + 10) % 12]);
+    expect(estimateKey(chroma)).toEqual({ key: 'D', mode: 'major', confidence: 1 });
+  });
+
+  it('平坦なクロマは信頼度0にする', () => {
+    expect(estimateKey(new Array(12).fill(1)).confidence).toBe(0);
+  });
+});
+
+describe('extractAudioFeatures', () => {
+  it('クリックトラックからテンポとオンセット密度を推定する', () => {
+    const features = extractAudioFeatures([createClickTrack(120, 12)], SAMPLE_RATE);
+    expect(features.bpm).not.toBeNull();
+    expect(features.bpm as number).toBeGreaterThan(117);
+    expect(features.bpm as number).toBeLessThan(123);
+    expect(features.onsetDensity).toBeGreaterThan(1.5);
+    expect(features.onsetDensity).toBeLessThan(2.5);
+  });
+
+  it('Cメジャーの和音からキーと調性を推定する', () => {
+    const features = extractAudioFeatures([createTone([261.63, 329.63, 392.0], 4, 0.2)], SAMPLE_RATE);
+    expect(features.key).toBe('C');
+    expect(features.mode).toBe('major');
+  });
+
+  it('スペクトル重心は低い音ほど低く、音量はdBFSで求める', () => {
+    const low = extractAudioFeatures([createTone([220], 2, 0.5)], SAMPLE_RATE);
+    const high = extractAudioFeatures([createTone([3520], 2, 0.5)], SAMPLE_RATE);
+    expect(low.spectralCentroid).toBeLessThan(high.spectralCentroid);
+    // 振幅0.5の正弦波のRMSは約0.354（約-9dBFS）
+    expect(low.loudnessDb).toBeCloseTo(-9, 0);
+  });
+
+  it('無音はテンポを推定せず、音量を-120dBFSにする', () => {
+    const features = extractAudioFeatures([new Float32Array(SAMPLE_RATE * 3)], SAMPLE_RATE);
+    expect(features).toMatchObject({
+      bpm: null,
+      rms: 0,
+      loudnessDb: -120,
+      onsetDensity: 0,
+      spectralCentroid: 0
+    });
+  });
+
+  it('テンポを推定するには短すぎる音声ではbpmをnullにする', () => {
+    expect(extractAudioFeatures([createClickTrack(120, 1)], SAMPLE_RATE).bpm).toBeNull();
+  });
+});
+
+describe('formatFeaturesForPrompt', () => {
+  it('特徴量を説明文にする', () => {
+    const text = formatFeaturesForPrompt({
+      bpm: 128.4,
+      rmsCurve: [0.1, 0.1, 0.3, 0.3],
+      rms: 0.2,
+      loudnessDb: -14,
+      onsetDensity: 5,
+      spectralCentroid: 3500,
+      key: 'A',
+      mode: 'minor',
+      keyConfidence: 0.8
+    });
+    expect(text).toContain('約128BPM');
+    expect(text).toContain('A マイナー（短調）');
+    expect(text).toContain('力強い音量');
+    expect(text).toContain('盛り上がっていく');
+    expect(text).toContain('細かく密なリズム');
+  });
+});
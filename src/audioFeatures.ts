@@ -0,0 +1,473 @@
+/**
+ * 音声信号から決定的に計算できる特徴量の抽出
+ * Web Audio APIに依存しない純粋な関数のみで構成し、ブラウザ・Node.jsの両方で利用できる
+ */
+
+export type KeyMode = 'major' | 'minor';
+
+export interface AudioFeatures {
+  /** 推定テンポ（BPM）。推定できない場合はnull */
+  bpm: number | null;
+  /** RMS_WINDOW_SECONDSごとのRMS音量 */
+  rmsCurve: number[];
+  /** セグメント全体のRMS音量 */
+  rms: number;
+  /** セグメント全体の音量（dBFS） */
+  loudnessDb: number;
+  /** 1秒あたりのオンセット（音の立ち上がり）数 */
+  onsetDensity: number;
+  /** 平均スペクトル重心（Hz） */
+  spectralCentroid: number;
+  /** 推定キーの主音 */
+  key: string;
+  /** 推定キーの調性 */
+  mode: KeyMode;
+  /** キー推定の信頼度（プロファイルとの相関係数） */
+  keyConfidence: number;
+}
+
+export const RMS_WINDOW_SECONDS = 0.5;
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 200;
+const SILENCE_RMS = 1e-4;
+
+const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+// Krumhansl-Schmucklerのキープロファイル
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+export interface SpectralFrames {
+  /** 1秒あたりのフレーム数 */
+  frameRate: number;
+  /** フレームの開始位置から中心までの時間（秒） */
+  frameOffset: number;
+  /** フレームごとのスペクトルフラックス（オンセット強度） */
+  flux: Float32Array;
+  /** フレームごとのスペクトル重心（Hz） */
+  centroids: Float32Array;
+  /** フレームごとのRMS */
+  energies: Float32Array;
+  /** 全フレームを合計したクロマ（12音階ごとの強度） */
+  chroma: Float32Array;
+  /** フレームごとのクロマ（frame * 12 + 音階） */
+  frameChroma: Float32Array;
+  /** フレームごとの帯域別対数エネルギー（frame * BAND_COUNT + 帯域） */
+  frameBands: Float32Array;
+}
+
+/** 音色の比較に使う周波数帯域の数 */
+export const BAND_COUNT = 8;
+
+/**
+ * 複数チャンネルを平均してモノラルにする
+ * @param channels チャンネルごとのサンプル
+ * @returns モノラルのサンプル
+ */
+export function mixToMono(channels: Float32Array[]): Float32Array {
+  if (channels.length === 1) {
+    return channels[0];
+  }
+
+  const length = Math.min(...channels.map(channel => channel.length));
+  const mono = new Float32Array(length);
+  for (const channel of channels) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channels.length;
+    }
+  }
+  return mono;
+}
+
+/**
+ * 基数2の高速フーリエ変換（インプレース）
+ * @param real 実部（長さは2のべき乗）
+ * @param imag 虚部
+ */
+function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = -2 * Math.PI / size;
+    const wReal = Math.cos(angle);
+    const wImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let curReal = 1;
+      let curImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const evenIndex = start + k;
+        const oddIndex = evenIndex + size / 2;
+        const oddReal = real[oddIndex] * curReal - imag[oddIndex] * curImag;
+        const oddImag = real[oddIndex] * curImag + imag[oddIndex] * curReal;
+        real[oddIndex] = real[evenIndex] - oddReal;
+        imag[oddIndex] = imag[evenIndex] - oddImag;
+        real[evenIndex] += oddReal;
+        imag[evenIndex] += oddImag;
+        const nextReal = curReal * wReal - curImag * wImag;
+        curImag = curReal * wImag + curImag * wReal;
+        curReal = nextReal;
+      }
+    }
+  }
+}
+
+/**
+ * 短時間フーリエ変換でフレームごとのスペクトル特徴を計算する
+ * @param samples モノラルのサンプル
+ * @param sampleRate サンプルレート
+ * @returns フレームごとの特徴
+ */
+export function computeSpectralFrames(samples: Float32Array, sampleRate: number): SpectralFrames {
+  const frameCount = samples.length >= FRAME_SIZE
+    ? Math.floor((samples.length - FRAME_SIZE) / HOP_SIZE) + 1
+    : 0;
+  const binCount = FRAME_SIZE / 2 + 1;
+  const binHz = sampleRate / FRAME_SIZE;
+
+  const window = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (FRAME_SIZE - 1));
+  }
+
+  // ビンごとの音階（クロマ計算用、対象外は-1）
+  const binPitchClass = new Int8Array(binCount).fill(-1);
+  for (let bin = 1; bin < binCount; bin++) {
+    const frequency = bin * binHz;
+    if (frequency >= 55 && frequency <= 5000) {
+      const midi = Math.round(12 * Math.log2(frequency / 440) + 69);
+      binPitchClass[bin] = ((midi % 12) + 12) % 12;
+    }
+  }
+
+  // ビンごとの帯域（60Hz〜16kHzを対数で等分、対象外は-1）
+  const binBand = new Int8Array(binCount).fill(-1);
+  for (let bin = 1; bin < binCount; bin++) {
+    const frequency = bin * binHz;
+    if (frequency >= 60 && frequency < 16000) {
+      binBand[bin] = Math.floor(BAND_COUNT * Math.log(frequency / 60) / Math.log(16000 / 60));
+    }
+  }
+
+  const flux = new Float32Array(frameCount);
+  const centroids = new Float32Array(frameCount);
+  const energies = new Float32Array(frameCount);
+  const chroma = new Float32Array(12);
+  const frameChroma = new Float32Array(frameCount * 12);
+  const frameBands = new Float32Array(frameCount * BAND_COUNT);
+
+  const real = new Float32Array(FRAME_SIZE);
+  const imag = new Float32Array(FRAME_SIZE);
+  let previous = new Float32Array(binCount);
+  let current = new Float32Array(binCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const offset = frame * HOP_SIZE;
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const sample = samples[offset + i];
+      energy += sample * sample;
+      real[i] = sample * window[i];
+      imag[i] = 0;
+    }
+    energies[frame] = Math.sqrt(energy / FRAME_SIZE);
+
+    fft(real, imag);
+
+    let magnitudeSum = 0;
+    let weightedSum = 0;
+    let frameFlux = 0;
+    for (let bin = 0; bin < binCount; bin++) {
+      const magnitude = Math.sqrt(real[bin] * real[bin] + imag[bin] * imag[bin]);
+      // 対数圧縮して音量差の影響を抑える
+      current[bin] = Math.log1p(100 * magnitude);
+      magnitudeSum += magnitude;
+      weightedSum += magnitude * bin * binHz;
+
+      const increase = current[bin] - previous[bin];
+      if (frame > 0 && increase > 0) {
+        frameFlux += increase;
+      }
+
+      if (binPitchClass[bin] >= 0) {
+        chroma[binPitchClass[bin]] += magnitude * magnitude;
+        frameChroma[frame * 12 + binPitchClass[bin]] += magnitude * magnitude;
+      }
+      if (binBand[bin] >= 0) {
+        frameBands[frame * BAND_COUNT + binBand[bin]] += magnitude * magnitude;
+      }
+    }
+
+    for (let band = 0; band < BAND_COUNT; band++) {
+      frameBands[frame * BAND_COUNT + band] = Math.log10(frameBands[frame * BAND_COUNT + band] + 1e-10);
+    }
+
+    flux[frame] = frameFlux;
+    centroids[frame] = magnitudeSum > 0 ? weightedSum / magnitudeSum : 0;
+    [previous, current] = [current, previous];
+  }
+
+  return {
+    frameRate: sampleRate / HOP_SIZE,
+    frameOffset: FRAME_SIZE / 2 / sampleRate,
+    flux,
+    centroids,
+    energies,
+    chroma,
+    frameChroma,
+    frameBands
+  };
+}
+
+/**
+ * 一定間隔ごとのRMS音量カーブを計算する
+ * @param samples モノラルのサンプル
+ * @param sampleRate サンプルレート
+ * @param windowSeconds 窓の長さ（秒）
+ * @returns RMS音量の配列
+ */
+export function computeRmsCurve(
+  samples: Float32Array,
+  sampleRate: number,
+  windowSeconds: number = RMS_WINDOW_SECONDS
+): number[] {
+  const windowLength = Math.max(1, Math.round(windowSeconds * sampleRate));
+  const curve: number[] = [];
+
+  for (let start = 0; start < samples.length; start += windowLength) {
+    const end = Math.min(start + windowLength, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) {
+      sum += samples[i] * samples[i];
+    }
+    curve.push(Math.sqrt(sum / (end - start)));
+  }
+
+  return curve;
+}
+
+/**
+ * オンセット強度のピークを検出する
+ * @param flux フレームごとのスペクトルフラックス
+ * @param frameRate 1秒あたりのフレーム数
+ * @returns オンセットのフレーム番号
+ */
+export function detectOnsets(flux: Float32Array, frameRate: number): number[] {
+  const maxFlux = flux.reduce((max, value) => Math.max(max, value), 0);
+  if (maxFlux === 0) {
+    return [];
+  }
+
+  const halfWindow = Math.max(1, Math.round(0.1 * frameRate));
+  const minGap = Math.max(1, Math.round(0.05 * frameRate));
+  const onsets: number[] = [];
+
+  for (let i = 1; i < flux.length - 1; i++) {
+    if (flux[i] < flux[i - 1] || flux[i] < flux[i + 1]) {
+      continue;
+    }
+
+    // 周辺の平均より十分大きいピークのみを採用
+    let sum = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - halfWindow); j <= Math.min(flux.length - 1, i + halfWindow); j++) {
+      sum += flux[j];
+      count++;
+    }
+    const threshold = sum / count + 0.1 * maxFlux;
+
+    if (flux[i] > threshold && (onsets.length === 0 || i - onsets[onsets.length - 1] >= minGap)) {
+      onsets.push(i);
+    }
+  }
+
+  return onsets;
+}
+
+/**
+ * オンセット強度の自己相関からテンポを推定する
+ * @param flux フレームごとのスペクトルフラックス
+ * @param frameRate 1秒あたりのフレーム数
+ * @returns 推定テンポ（BPM）。推定できない場合はnull
+ */
+export function estimateTempo(flux: Float32Array, frameRate: number): number | null {
+  const minLag = Math.floor(frameRate * 60 / MAX_BPM);
+  const maxLag = Math.ceil(frameRate * 60 / MIN_BPM);
+  if (flux.length < maxLag * 2) {
+    return null;
+  }
+
+  const mean = flux.reduce((sum, value) => sum + value, 0) / flux.length;
+  const centered = flux.map(value => value - mean);
+
+  let bestLag = -1;
+  let bestScore = 0;
+  const scores = new Float32Array(maxLag + 2);
+  for (let lag = minLag; lag <= maxLag + 1; lag++) {
+    let sum = 0;
+    for (let i = 0; i + lag < centered.length; i++) {
+      sum += centered[i] * centered[i + lag];
+    }
+    scores[lag] = sum / (centered.length - lag);
+  }
+
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    // 120BPM付近を優先してテンポの倍・半分の誤検出を抑える
+    const bpm = frameRate * 60 / lag;
+    const weight = Math.exp(-0.5 * Math.pow(Math.log2(bpm / 120), 2));
+    const score = scores[lag] * weight;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  if (bestLag < 0) {
+    return null;
+  }
+
+  // 放物線補間でラグを細かく求める
+  const left = scores[bestLag - 1] ?? scores[bestLag];
+  const right = scores[bestLag + 1] ?? scores[bestLag];
+  const denominator = left - 2 * scores[bestLag] + right;
+  const refinedLag = denominator !== 0 ? bestLag + 0.5 * (left - right) / denominator : bestLag;
+
+  return Math.round(frameRate * 60 / refinedLag * 10) / 10;
+}
+
+/**
+ * ピアソンの相関係数
+ */
+function correlation(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i] / n;
+    meanB += b[i] / n;
+  }
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+/**
+ * クロマからキーと調性を推定する
+ * @param chroma 12音階ごとの強度
+ * @returns 推定キー
+ */
+export function estimateKey(chroma: ArrayLike<number>): { key: string; mode: KeyMode; confidence: number } {
+  let best = { key: PITCH_CLASSES[0], mode: 'major' as KeyMode, confidence: 0 };
+
+  for (let tonic = 0; tonic < 12; tonic++) {
+    const rotated = Array.from({ length: 12 }, (_, i) => chroma[(i + tonic) % 12]);
+    for (const [mode, profile] of [['major', MAJOR_PROFILE], ['minor', MINOR_PROFILE]] as const) {
+      const score = correlation(rotated, profile);
+      if (score > best.confidence) {
+        best = { key: PITCH_CLASSES[tonic], mode, confidence: score };
+      }
+    }
+  }
+
+  return {
+    ...best,
+    confidence: Math.round(best.confidence * 100) / 100
+  };
+}
+
+/**
+ * 音声セグメントの特徴量を抽出する
+ * @param channels チャンネルごとのサンプル
+ * @param sampleRate サンプルレート
+ * @returns 特徴量
+ */
+export function extractAudioFeatures(channels: Float32Array[], sampleRate: number): AudioFeatures {
+  const samples = mixToMono(channels);
+  const duration = samples.length / sampleRate;
+  const frames = computeSpectralFrames(samples, sampleRate);
+
+  let sumSquares = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sumSquares += samples[i] * samples[i];
+  }
+  const rms = samples.length > 0 ? Math.sqrt(sumSquares / samples.length) : 0;
+
+  // 無音フレームを除いてスペクトル重心を平均する
+  let centroidSum = 0;
+  let centroidCount = 0;
+  frames.centroids.forEach((centroid, index) => {
+    if (frames.energies[index] > SILENCE_RMS) {
+      centroidSum += centroid;
+      centroidCount++;
+    }
+  });
+
+  const onsets = detectOnsets(frames.flux, frames.frameRate);
+  const { key, mode, confidence } = estimateKey(frames.chroma);
+
+  return {
+    bpm: estimateTempo(frames.flux, frames.frameRate),
+    rmsCurve: computeRmsCurve(samples, sampleRate),
+    rms,
+    loudnessDb: rms > 0 ? Math.max(-120, Math.round(20 * Math.log10(rms) * 10) / 10) : -120,
+    onsetDensity: duration > 0 ? Math.round(onsets.length / duration * 100) / 100 : 0,
+    spectralCentroid: centroidCount > 0 ? Math.round(centroidSum / centroidCount) : 0,
+    key,
+    mode,
+    keyConfidence: confidence
+  };
+}
+
+/**
+ * 特徴量をプロンプトに埋め込むための説明文に変換する
+ * @param features 特徴量
+ * @returns 日本語の説明文
+ */
+export function formatFeaturesForPrompt(features: AudioFeatures): string {
+  const brightness = features.spectralCentroid < 1500
+    ? '暗くこもった音色'
+    : features.spectralCentroid < 3000 ? 'バランスの取れた音色' : '明るくきらびやかな音色';
+  const energy = features.loudnessDb < -30
+    ? '静か'
+    : features.loudnessDb < -18 ? '中程度の音量' : '力強い音量';
+  const density = features.onsetDensity < 1.5
+    ? 'まばらなリズム'
+    : features.onsetDensity < 4 ? '適度なリズムの密度' : '細かく密なリズム';
+
+  const curve = features.rmsCurve;
+  const firstHalf = curve.slice(0, Math.ceil(curve.length / 2));
+  const secondHalf = curve.slice(Math.ceil(curve.length / 2));
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / Math.max(1, values.length);
+  const trendRatio = average(secondHalf) / Math.max(average(firstHalf), SILENCE_RMS);
+  const trend = trendRatio > 1.25 ? '盛り上がっていく' : trendRatio < 0.8 ? '落ち着いていく' : '一定の';
+
+  return [
+    `- テンポ: ${features.bpm !== null ? `約${Math.round(features.bpm)}BPM` : '推定不可'}`,
+    `- キー: ${features.key} ${features.mode === 'major' ? 'メジャー（長調）' : 'マイナー（短調）'}（信頼度 ${features.keyConfidence}）`,
+    `- 音量: ${features.loudnessDb}dBFS（${energy}）、セグメント内で${trend}展開`,
+    `- オンセット密度: 毎秒${features.onsetDensity}回（${density}）`,
+    `- スペクトル重心: ${features.spectralCentroid}Hz（${brightness}）`
+  ].join('\n');
+}
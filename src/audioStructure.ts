@@ -0,0 +1,443 @@
+/**
+ * 楽曲構造（イントロ/ヴァース/サビ/ブリッジ/アウトロ）に沿ったセグメント境界の検出
+ * audioFeatures.tsと同様に純粋な関数のみで構成する
+ */
+import {
+  BAND_COUNT,
+  computeSpectralFrames,
+  estimateTempo,
+  mixToMono,
+  SpectralFrames
+} from './audioFeatures.ts';
+
+export type SectionLabel = 'intro' | 'verse' | 'chorus' | 'bridge' | 'outro';
+
+export const SECTION_LABEL_NAMES: Record<SectionLabel, string> = {
+  intro: 'イントロ',
+  verse: 'ヴァース',
+  chorus: 'サビ',
+  bridge: 'ブリッジ',
+  outro: 'アウトロ'
+};
+
+export interface SegmentBoundary {
+  startTime: number;
+  endTime: number;
+  section?: SectionLabel;
+}
+
+export interface StructureOptions {
+  /** セグメントの最小長（秒） */
+  minDuration: number;
+  /** セグメントの最大長（秒） */
+  maxDuration: number;
+}
+
+// 自己類似度を計算するブロックの長さ（秒）
+const BLOCK_SECONDS = 0.5;
+// ノベルティ計算に使うチェッカーボードカーネルの片側の長さ（秒）
+const KERNEL_SECONDS = 6;
+// 同じセクションとみなすセグメント間の類似度
+const SECTION_SIMILARITY_THRESHOLD = 0.5;
+
+/**
+ * 固定長でセグメント境界を作成する
+ * @param duration 全体の長さ（秒）
+ * @param segmentDuration セグメントの長さ（秒）
+ * @returns セグメント境界の配列
+ */
+export function createFixedBoundaries(duration: number, segmentDuration: number): SegmentBoundary[] {
+  const boundaries: SegmentBoundary[] = [];
+  for (let startTime = 0; startTime < duration; startTime += segmentDuration) {
+    boundaries.push({
+      startTime,
+      endTime: Math.min(startTime + segmentDuration, duration)
+    });
+  }
+  return boundaries;
+}
+
+/**
+ * 動的計画法によるビートトラッキング
+ * @param flux フレームごとのオンセット強度
+ * @param frameRate 1秒あたりのフレーム数
+ * @param bpm 推定テンポ
+ * @param frameOffset フレームの開始位置から中心までの時間（秒）
+ * @returns ビート位置（秒）の配列
+ */
+export function trackBeats(flux: Float32Array, frameRate: number, bpm: number, frameOffset: number = 0): number[] {
+  const period = frameRate * 60 / bpm;
+  const frameCount = flux.length;
+  if (frameCount === 0 || period < 1) {
+    return [];
+  }
+
+  // テンポからのずれに対するペナルティの強さ
+  const tightness = 100;
+  const mean = flux.reduce((sum, value) => sum + value, 0) / frameCount;
+  const scores = new Float32Array(frameCount);
+  const backlinks = new Int32Array(frameCount).fill(-1);
+
+  for (let t = 0; t < frameCount; t++) {
+    const onset = flux[t] / (mean || 1);
+    let bestPrevious = -1;
+    let bestScore = -Infinity;
+    for (let prev = Math.max(0, Math.round(t - 2 * period)); prev <= t - Math.round(period / 2); prev++) {
+      const deviation = Math.log((t - prev) / period);
+      const score = scores[prev] - tightness * deviation * deviation;
+      if (score > bestScore) {
+        bestScore = score;
+        bestPrevious = prev;
+      }
+    }
+    if (bestPrevious >= 0 && bestScore > 0) {
+      scores[t] = onset + bestScore;
+      backlinks[t] = bestPrevious;
+    } else {
+      scores[t] = onset;
+    }
+  }
+
+  // 最後の1周期の中で最もスコアの高いフレームから逆にたどる
+  let current = Math.max(0, frameCount - Math.round(period));
+  for (let t = current; t < frameCount; t++) {
+    if (scores[t] > scores[current]) {
+      current = t;
+    }
+  }
+
+  const beats: number[] = [];
+  while (current >= 0) {
+    beats.unshift(current / frameRate + frameOffset);
+    current = backlinks[current];
+  }
+  return beats;
+}
+
+/**
+ * ベクトルを平均で中心化してL2正規化する
+ */
+function centerAndNormalize(vector: Float32Array, mean: Float32Array): Float32Array {
+  const result = new Float32Array(vector.length);
+  let norm = 0;
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i] - mean[i];
+    norm += result[i] * result[i];
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) {
+      result[i] /= norm;
+    }
+  }
+  return result;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+interface BlockFeatures {
+  chroma: Float32Array[];
+  bands: Float32Array[];
+  energies: number[];
+}
+
+/**
+ * フレームをブロックごとに平均してクロマと音色の特徴を作る
+ * 比較しやすいよう曲全体の平均で中心化して正規化する
+ */
+function computeBlockFeatures(frames: SpectralFrames, framesPerBlock: number): BlockFeatures {
+  const frameCount = frames.flux.length;
+  const blockCount = Math.floor(frameCount / framesPerBlock);
+  const rawChroma: Float32Array[] = [];
+  const rawBands: Float32Array[] = [];
+  const energies: number[] = [];
+
+  for (let block = 0; block < blockCount; block++) {
+    const chroma = new Float32Array(12);
+    const bands = new Float32Array(BAND_COUNT);
+    let energy = 0;
+    for (let frame = block * framesPerBlock; frame < (block + 1) * framesPerBlock; frame++) {
+      let frameTotal = 0;
+      for (let pitch = 0; pitch < 12; pitch++) {
+        frameTotal += frames.frameChroma[frame * 12 + pitch];
+      }
+      for (let pitch = 0; pitch < 12; pitch++) {
+        chroma[pitch] += frameTotal > 0 ? frames.frameChroma[frame * 12 + pitch] / frameTotal / framesPerBlock : 0;
+      }
+      for (let band = 0; band < BAND_COUNT; band++) {
+        bands[band] += frames.frameBands[frame * BAND_COUNT + band] / framesPerBlock;
+      }
+      energy += frames.energies[frame] / framesPerBlock;
+    }
+    rawChroma.push(chroma);
+    rawBands.push(bands);
+    energies.push(energy);
+  }
+
+  const meanOf = (vectors: Float32Array[], size: number) => {
+    const mean = new Float32Array(size);
+    for (const vector of vectors) {
+      for (let i = 0; i < size; i++) {
+        mean[i] += vector[i] / vectors.length;
+      }
+    }
+    return mean;
+  };
+  const chromaMean = meanOf(rawChroma, 12);
+  const bandMean = meanOf(rawBands, BAND_COUNT);
+
+  return {
+    chroma: rawChroma.map(vector => centerAndNormalize(vector, chromaMean)),
+    bands: rawBands.map(vector => centerAndNormalize(vector, bandMean)),
+    energies
+  };
+}
+
+/**
+ * 自己類似度行列にチェッカーボードカーネルを適用してノベルティカーブを計算する
+ * @param blocks ブロックごとの特徴
+ * @param kernelHalfSize カーネルの片側のブロック数
+ * @returns ブロックごとのノベルティ（0〜1）
+ */
+export function computeNoveltyCurve(
+  blocks: { chroma: Float32Array[]; bands: Float32Array[] },
+  kernelHalfSize: number
+): Float32Array {
+  const blockCount = blocks.chroma.length;
+  const similarity = new Float32Array(blockCount * blockCount);
+  for (let i = 0; i < blockCount; i++) {
+    for (let j = i; j < blockCount; j++) {
+      const value = 0.5 * (dot(blocks.chroma[i], blocks.chroma[j]) + dot(blocks.bands[i], blocks.bands[j]));
+      similarity[i * blockCount + j] = value;
+      similarity[j * blockCount + i] = value;
+    }
+  }
+
+  const sigma = kernelHalfSize / 2;
+  const novelty = new Float32Array(blockCount);
+  let maxNovelty = 0;
+  for (let n = 0; n < blockCount; n++) {
+    let sum = 0;
+    for (let i = -kernelHalfSize; i < kernelHalfSize; i++) {
+      for (let j = -kernelHalfSize; j < kernelHalfSize; j++) {
+        const row = n + i;
+        const column = n + j;
+        if (row < 0 || column < 0 || row >= blockCount || column >= blockCount) {
+          continue;
+        }
+        const sign = (i < 0) === (j < 0) ? 1 : -1;
+        const taper = Math.exp(-((i + 0.5) ** 2 + (j + 0.5) ** 2) / (2 * sigma * sigma));
+        sum += sign * taper * similarity[row * blockCount + column];
+      }
+    }
+    // 前後で特徴が変わる位置ほど大きくなる（負の値は0で切る）
+    novelty[n] = Math.max(0, sum);
+    maxNovelty = Math.max(maxNovelty, novelty[n]);
+  }
+
+  if (maxNovelty > 0) {
+    for (let n = 0; n < blockCount; n++) {
+      novelty[n] /= maxNovelty;
+    }
+  }
+  return novelty;
+}
+
+/**
+ * 指定した時刻に最も近いビートに合わせる
+ */
+function snapToBeat(time: number, beats: number[]): number {
+  if (beats.length === 0) {
+    return time;
+  }
+  return beats.reduce((nearest, beat) => Math.abs(beat - time) < Math.abs(nearest - time) ? beat : nearest, beats[0]);
+}
+
+/**
+ * ノベルティのピークから最小・最大長を満たす境界を選ぶ
+ */
+function selectBoundaries(
+  novelty: Float32Array,
+  beats: number[],
+  duration: number,
+  options: StructureOptions,
+  peakRadius: number
+): number[] {
+  const mean = novelty.reduce((sum, value) => sum + value, 0) / Math.max(1, novelty.length);
+  const candidates: { time: number; strength: number }[] = [];
+  for (let n = 0; n < novelty.length; n++) {
+    if (novelty[n] <= mean) {
+      continue;
+    }
+    let isPeak = true;
+    for (let k = Math.max(0, n - peakRadius); k <= Math.min(novelty.length - 1, n + peakRadius); k++) {
+      if (novelty[k] > novelty[n]) {
+        isPeak = false;
+        break;
+      }
+    }
+    if (isPeak) {
+      candidates.push({ time: snapToBeat(n * BLOCK_SECONDS, beats), strength: novelty[n] });
+    }
+  }
+
+  // 強いピークから順に、最小長を下回らない場合のみ採用する
+  const boundaries = [0, duration];
+  candidates.sort((a, b) => b.strength - a.strength);
+  for (const candidate of candidates) {
+    const next = boundaries.findIndex(boundary => boundary > candidate.time);
+    if (next <= 0) {
+      continue;
+    }
+    if (candidate.time - boundaries[next - 1] >= options.minDuration
+      && boundaries[next] - candidate.time >= options.minDuration) {
+      boundaries.splice(next, 0, candidate.time);
+    }
+  }
+
+  // 最大長を超える区間は等分してビートに合わせる
+  const result: number[] = [0];
+  for (let i = 1; i < boundaries.length; i++) {
+    const start = boundaries[i - 1];
+    const end = boundaries[i];
+    const parts = Math.ceil((end - start) / options.maxDuration);
+    for (let part = 1; part < parts; part++) {
+      const split = snapToBeat(start + (end - start) * part / parts, beats);
+      if (split - result[result.length - 1] > 0 && end - split > 0) {
+        result.push(split);
+      }
+    }
+    result.push(end);
+  }
+  return result;
+}
+
+/**
+ * セグメント同士の類似度からセクションのラベルを推定する
+ */
+function labelSections(
+  boundaries: number[],
+  blocks: BlockFeatures
+): SectionLabel[] {
+  const segmentCount = boundaries.length - 1;
+  const chromaMeans: Float32Array[] = [];
+  const bandMeans: Float32Array[] = [];
+  const energies: number[] = [];
+
+  for (let i = 0; i < segmentCount; i++) {
+    const startBlock = Math.floor(boundaries[i] / BLOCK_SECONDS);
+    const endBlock = Math.max(startBlock + 1, Math.min(blocks.chroma.length, Math.floor(boundaries[i + 1] / BLOCK_SECONDS)));
+    const chroma = new Float32Array(12);
+    const bands = new Float32Array(BAND_COUNT);
+    let energy = 0;
+    let count = 0;
+    for (let block = startBlock; block < endBlock && block < blocks.chroma.length; block++) {
+      for (let k = 0; k < 12; k++) chroma[k] += blocks.chroma[block][k];
+      for (let k = 0; k < BAND_COUNT; k++) bands[k] += blocks.bands[block][k];
+      energy += blocks.energies[block];
+      count++;
+    }
+    chromaMeans.push(centerAndNormalize(chroma, new Float32Array(12)));
+    bandMeans.push(centerAndNormalize(bands, new Float32Array(BAND_COUNT)));
+    energies.push(count > 0 ? energy / count : 0);
+  }
+
+  // 似ているセグメントを同じクラスタにまとめる
+  const clusters: number[] = [];
+  const representatives: number[] = [];
+  for (let i = 0; i < segmentCount; i++) {
+    let assigned = -1;
+    for (let c = 0; c < representatives.length; c++) {
+      const r = representatives[c];
+      const similarity = 0.5 * (dot(chromaMeans[i], chromaMeans[r]) + dot(bandMeans[i], bandMeans[r]));
+      if (similarity >= SECTION_SIMILARITY_THRESHOLD) {
+        assigned = c;
+        break;
+      }
+    }
+    if (assigned < 0) {
+      assigned = representatives.length;
+      representatives.push(i);
+    }
+    clusters.push(assigned);
+  }
+
+  const clusterStats = representatives.map((_, c) => {
+    const members = clusters.map((cluster, i) => cluster === c ? i : -1).filter(i => i >= 0);
+    return {
+      cluster: c,
+      count: members.length,
+      energy: members.reduce((sum, i) => sum + energies[i], 0) / members.length
+    };
+  });
+  const repeated = clusterStats.filter(stat => stat.count >= 2);
+  const chorus = repeated.length > 0
+    ? repeated.reduce((best, stat) => stat.energy > best.energy ? stat : best).cluster
+    : -1;
+  const verse = repeated
+    .filter(stat => stat.cluster !== chorus)
+    .sort((a, b) => b.count - a.count)[0]?.cluster ?? -1;
+
+  const sortedEnergies = [...energies].sort((a, b) => a - b);
+  const medianEnergy = sortedEnergies[Math.floor(sortedEnergies.length / 2)] ?? 0;
+
+  return clusters.map((cluster, i) => {
+    if (cluster === chorus) return 'chorus';
+    if (cluster === verse) return 'verse';
+    if (i === 0 && segmentCount > 1) return 'intro';
+    if (i === segmentCount - 1 && segmentCount > 1) return 'outro';
+    // 繰り返しが見つからない場合は音量でサビとヴァースを見分ける
+    if (chorus < 0) return energies[i] >= medianEnergy ? 'chorus' : 'verse';
+    return 'bridge';
+  });
+}
+
+/**
+ * 楽曲構造に沿ったセグメント境界を検出する
+ * @param channels チャンネルごとのサンプル
+ * @param sampleRate サンプルレート
+ * @param options 最小・最大長
+ * @returns セクションのラベル付きセグメント境界
+ */
+export function detectStructuralBoundaries(
+  channels: Float32Array[],
+  sampleRate: number,
+  options: StructureOptions
+): SegmentBoundary[] {
+  const samples = mixToMono(channels);
+  const duration = samples.length / sampleRate;
+  const frames = computeSpectralFrames(samples, sampleRate);
+  const framesPerBlock = Math.max(1, Math.round(frames.frameRate * BLOCK_SECONDS));
+  const blocks = computeBlockFeatures(frames, framesPerBlock);
+
+  // 短すぎて構造を推定できない場合は1つのセグメントとして扱う
+  if (blocks.chroma.length < 4 || duration <= options.minDuration) {
+    return [{ startTime: 0, endTime: duration }];
+  }
+
+  const bpm = estimateTempo(frames.flux, frames.frameRate);
+  const beats = bpm !== null ? trackBeats(frames.flux, frames.frameRate, bpm, frames.frameOffset) : [];
+
+  const kernelHalfSize = Math.max(2, Math.round(KERNEL_SECONDS / BLOCK_SECONDS));
+  const novelty = computeNoveltyCurve(blocks, kernelHalfSize);
+  const boundaries = selectBoundaries(
+    novelty,
+    beats,
+    duration,
+    options,
+    Math.max(1, Math.round(options.minDuration / BLOCK_SECONDS / 2))
+  );
+  const labels = labelSections(boundaries, blocks);
+
+  return labels.map((section, i) => ({
+    startTime: boundaries[i],
+    endTime: boundaries[i + 1],
+    section
+  }));
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import {
+  chooseClipDuration,
+  estimateGenerationCost,
+  estimateImageCost,
+  estimateSegmentRanges,
+  estimateVideoCost,
+  GEMINI_CALL_COST
+} from './costEstimate';
+import type { GeneratedMedia } from './lumaGeneration';
+
+const SEGMENTS = [
+  { startTime: 0, endTime: 5 },
+  { startTime: 5, endTime: 13 },
+  { startTime: 13, endTime: 18 }
+];
+
+const MODELS = { imageModel: 'photon-1', videoModel: 'ray-2', resolution: '720p' as const };
+
+/**
+ * 保存済みの生成結果を作成する
+ * @param segmentIndex セグメントのインデックス
+ * @param withClip クリップも生成済みか
+ * @returns 生成結果
+ */
+function createMedia(segmentIndex: number, withClip: boolean): GeneratedMedia {
+  return {
+    segmentIndex,
+    startTime: SEGMENTS[segmentIndex].startTime,
+    endTime: SEGMENTS[segmentIndex].endTime,
+    imageResponse: { id: `img-${segmentIndex}`, type: 'image', state: 'completed' },
+    ...(withClip ? { clipResponse: { id: `vid-${segmentIndex}`, type: 'video', state: 'completed' } } : {})
+  };
+}
+
+describe('chooseClipDuration', () => {
+  it('7秒を超えるセグメントは9秒、それ以外は5秒のクリップにする', () => {
+    expect(chooseClipDuration({ startTime: 0, endTime: 7 })).toBe('5s');
+    expect(chooseClipDuration({ startTime: 0, endTime: 7.5 })).toBe('9s');
+  });
+});
+
+describe('estimateVideoCost', () => {
+  it('解像度・長さ・モデルの単価から費用を求める', () => {
+    // 1280x720 × 120フレーム × 0.0064USD/100万画素
+    expect(estimateVideoCost('ray-2', '5s', '720p')).toBeCloseTo(1280 * 720 * 120 / 1_000_000 * 0.0064, 6);
+    expect(estimateVideoCost('ray-2', '9s', '720p')).toBeCloseTo(estimateVideoCost('ray-2', '5s', '720p') * 9 / 5, 6);
+  });
+
+  it('単価が分からないモデルは最も高い単価で見積もる', () => {
+    expect(estimateVideoCost('unknown', '5s', '720p')).toBe(estimateVideoCost('ray-2', '5s', '720p'));
+    expect(estimateImageCost('unknown')).toBe(estimateImageCost('photon-1'));
+  });
+});
+
+describe('estimateSegmentRanges', () => {
+  const lengths = { segmentDuration: 5, minDuration: 4, maxDuration: 12 };
+
+  it('固定長モードはセグメントの長さで区切り、最後は音声の終わりまでにする', () => {
+    expect(estimateSegmentRanges(12, { mode: 'fixed', ...lengths })).toEqual([
+      { startTime: 0, endTime: 5 },
+      { startTime: 5, endTime: 10 },
+      { startTime: 10, endTime: 12 }
+    ]);
+  });
+
+  it('構造モードは最小長と最大長の中間で区切る', () => {
+    expect(estimateSegmentRanges(16, { mode: 'structural', ...lengths })).toHaveLength(2);
+  });
+});
+
+describe('estimateGenerationCost', () => {
+  it('すべて未生成の場合は全セグメントの画像とクリップ、セグメントごとに2回とスタイルバイブルのGeminiを数える', () => {
+    const estimate = estimateGenerationCost({ segments: SEGMENTS, ...MODELS });
+
+    expect(estimate.images).toBe(3);
+    expect(estimate.clips).toBe(3);
+    expect(estimate.geminiCalls).toBe(3 * 2 + 1);
+    expect(estimate.geminiCost).toBeCloseTo(7 * GEMINI_CALL_COST, 6);
+    expect(estimate.lumaCost).toBeCloseTo(
+      3 * estimateImageCost('photon-1')
+        + 2 * estimateVideoCost('ray-2', '5s', '720p')
+        + estimateVideoCost('ray-2', '9s', '720p'),
+      6
+    );
+    expect(estimate.totalCost).toBeCloseTo(estimate.lumaCost + estimate.geminiCost, 6);
+  });
+
+  it('生成済みの画像とクリップ、分析済みのセグメントとスタイルバイブルは数えない', () => {
+    const estimate = estimateGenerationCost({
+      segments: SEGMENTS,
+      analyzedCount: 2,
+      hasStyleBible: true,
+      media: [createMedia(0, true), createMedia(1, false)],
+      ...MODELS
+    });
+
+    expect(estimate.images).toBe(1);
+    expect(estimate.clips).toBe(2);
+    expect(estimate.geminiCalls).toBe(2);
+  });
+
+  it('すべて生成済みの場合は費用がかからない', () => {
+    const estimate = estimateGenerationCost({
+      segments: SEGMENTS,
+      analyzedCount: 3,
+      hasStyleBible: true,
+      media: [createMedia(0, true), createMedia(1, true), createMedia(2, true)],
+      ...MODELS
+    });
+
+    expect(estimate).toMatchObject({ images: 0, clips: 0, geminiCalls: 0, totalCost: 0 });
+  });
+});
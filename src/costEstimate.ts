@@ -0,0 +1,185 @@
+import type { SegmentationOptions } from './audioAnalysis';
+import type { GeneratedMedia } from './lumaGeneration';
+
+/**
+ * Luma APIとGemini APIの費用の見積もり
+ * 単価は公開されている料金をもとにした概算（USD）で、実際に消費するクレジットとは異なる場合がある
+ */
+
+export type VideoResolution = '540p' | '720p' | '1080p' | '4k';
+
+export type ClipDuration = '5s' | '9s';
+
+// 動画の解像度ごとの1フレームの画素数（16:9）
+export const VIDEO_RESOLUTION_PIXELS: Record<VideoResolution, number> = {
+  '540p': 960 * 540,
+  '720p': 1280 * 720,
+  '1080p': 1920 * 1080,
+  '4k': 3840 * 2160
+};
+
+// 画像1枚の画素数（16:9の1080p相当）
+const IMAGE_PIXELS = 1920 * 1080;
+
+// 動画のフレームレート
+const VIDEO_FPS = 24;
+
+// 画像モデルごとの単価（100万画素あたりのUSD）
+export const IMAGE_PRICING: Record<string, number> = {
+  'photon-1': 0.0073,
+  'photon-flash-1': 0.0019
+};
+
+// 動画モデルごとの単価（100万画素あたりのUSD）
+export const VIDEO_PRICING: Record<string, number> = {
+  'ray-2': 0.0064,
+  'ray-flash-2': 0.0022
+};
+
+// Gemini APIで音声を1回分析するときの概算（USD）
+export const GEMINI_CALL_COST = 0.002;
+
+// セグメント1つの分析で呼び出すGemini APIの回数（分析とプロンプトの作成。スキーマに一致しない応答の修正は含まない）
+export const GEMINI_CALLS_PER_SEGMENT = 2;
+
+export interface CostEstimateInput {
+  /** セグメントの範囲（分析前は分割方法から推定した範囲） */
+  segments: { startTime: number; endTime: number }[];
+  /** 分析済みのセグメントの数 */
+  analyzedCount?: number;
+  /** 楽曲全体のスタイルバイブルを作成済みか */
+  hasStyleBible?: boolean;
+  /** 保存されている生成結果（再利用するセグメントは見積もりに含めない） */
+  media?: GeneratedMedia[];
+  imageModel: string;
+  videoModel: string;
+  resolution: VideoResolution;
+}
+
+export interface CostEstimate {
+  /** 新たに生成する画像の数 */
+  images: number;
+  /** 新たに生成するクリップの数 */
+  clips: number;
+  /** 分析で呼び出すGemini APIの回数（応答の修正を依頼する分は含まない下限） */
+  geminiCalls: number;
+  /** Luma APIの概算費用（USD） */
+  lumaCost: number;
+  /** Gemini APIの概算費用（USD） */
+  geminiCost: number;
+  /** 合計の概算費用（USD） */
+  totalCost: number;
+}
+
+/**
+ * モデルの単価を取得する
+ * 単価が分からないモデルは、予算を超えないよう最も高い単価で見積もる
+ * @param pricing モデルごとの単価
+ * @param model モデル名
+ * @returns 100万画素あたりのUSD
+ */
+function getUnitPrice(pricing: Record<string, number>, model: string): number {
+  return pricing[model] ?? Math.max(...Object.values(pricing));
+}
+
+/**
+ * セグメントの長さに合わせてクリップの長さを選ぶ（Lumaは5秒と9秒のクリップに対応）
+ * @param segment セグメントの範囲
+ * @returns クリップの長さ
+ */
+export function chooseClipDuration(segment: { startTime: number; endTime: number }): ClipDuration {
+  return segment.endTime - segment.startTime > 7 ? '9s' : '5s';
+}
+
+/**
+ * 画像1枚の生成にかかる費用を見積もる
+ * @param model 画像モデル
+ * @returns 概算費用（USD）
+ */
+export function estimateImageCost(model: string): number {
+  return IMAGE_PIXELS / 1_000_000 * getUnitPrice(IMAGE_PRICING, model);
+}
+
+/**
+ * 動画クリップ1本の生成にかかる費用を見積もる
+ * @param model 動画モデル
+ * @param duration クリップの長さ
+ * @param resolution 解像度
+ * @returns 概算費用（USD）
+ */
+export function estimateVideoCost(model: string, duration: ClipDuration, resolution: VideoResolution): number {
+  const frames = Number.parseInt(duration, 10) * VIDEO_FPS;
+  return VIDEO_RESOLUTION_PIXELS[resolution] * frames / 1_000_000 * getUnitPrice(VIDEO_PRICING, model);
+}
+
+/**
+ * 分析前の音声の長さから、分割方法に沿ったセグメントの範囲を推定する
+ * 構造モードは実際の境界が分からないため、最小長と最大長の中間で区切る
+ * @param duration 音声の長さ（秒）
+ * @param segmentation 分割方法
+ * @returns 推定したセグメントの範囲
+ */
+export function estimateSegmentRanges(
+  duration: number,
+  segmentation: SegmentationOptions
+): { startTime: number; endTime: number }[] {
+  const length = segmentation.mode === 'fixed'
+    ? segmentation.segmentDuration
+    : (segmentation.minDuration + segmentation.maxDuration) / 2;
+  if (!(duration > 0) || !(length > 0)) {
+    return [];
+  }
+
+  const ranges: { startTime: number; endTime: number }[] = [];
+  for (let startTime = 0; startTime < duration; startTime += length) {
+    ranges.push({ startTime, endTime: Math.min(startTime + length, duration) });
+  }
+  return ranges;
+}
+
+/**
+ * パイプラインの残りの処理にかかる生成回数と費用を見積もる
+ * 生成済みの画像とクリップは再利用されるため、まだ生成していないものだけを数える
+ * Geminiの応答がスキーマに一致せず修正を依頼した場合はその分だけ呼び出しが増えるため、Geminiの回数と費用は下限になる
+ * @param input セグメント、生成済みの結果、モデルと解像度
+ * @returns 見積もり
+ */
+export function estimateGenerationCost(input: CostEstimateInput): CostEstimate {
+  const { segments, analyzedCount = 0, hasStyleBible = false, media = [], imageModel, videoModel, resolution } = input;
+  let images = 0;
+  let clips = 0;
+  let lumaCost = 0;
+
+  segments.forEach((segment, segmentIndex) => {
+    const existing = media.find(item => item.segmentIndex === segmentIndex);
+    if (!existing) {
+      images++;
+      lumaCost += estimateImageCost(imageModel);
+    }
+    if (!existing?.clipResponse) {
+      clips++;
+      lumaCost += estimateVideoCost(videoModel, chooseClipDuration(segment), resolution);
+    }
+  });
+
+  const geminiCalls = Math.max(0, segments.length - analyzedCount) * GEMINI_CALLS_PER_SEGMENT + (hasStyleBible ? 0 : 1);
+  const geminiCost = geminiCalls * GEMINI_CALL_COST;
+
+  return {
+    images,
+    clips,
+    geminiCalls,
+    lumaCost,
+    geminiCost,
+    totalCost: lumaCost + geminiCost
+  };
+}
+
+/**
+ * 費用を表示用の文字列にする
+ * @param cost 費用（USD）
+ * @returns 表示用の文字列
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(2)}`;
+}
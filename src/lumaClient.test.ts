@@ -0,0 +1,262 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BudgetExceededError,
+  GenerationTimeoutError,
+  InsufficientCreditsError,
+  isAbortError,
+  LumaClient,
+  LumaClientOptions,
+  LumaError,
+  parseRetryAfter,
+  RateLimitError
+} from './lumaClient';
+
+interface MockRequest {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+/**
+ * リクエストを記録し、ハンドラーの応答を返すモックのLumaサーバーを作成する
+ * @param handler リクエストごとの応答
+ * @returns 記録したリクエストと、クライアントに渡すfetch
+ */
+function createMockServer(handler: (request: MockRequest, count: number) => Response | Promise<Response>) {
+  const requests: MockRequest[] = [];
+  const fetchImpl = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request: MockRequest = {
+      method: init?.method ?? 'GET',
+      path: String(input),
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : undefined
+    };
+    requests.push(request);
+    return handler(request, requests.length);
+  }) as typeof fetch;
+  return { requests, fetch: fetchImpl };
+}
+
+/**
+ * JSONのレスポンスを作成する
+ * @param body レスポンスボディ
+ * @param status ステータスコード
+ * @param headers 追加するヘッダー
+ * @returns レスポンス
+ */
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+// テストが待たないよう、待ち時間をすべて短くしたクライアントの設定
+const FAST_OPTIONS: LumaClientOptions = {
+  maxRetries: 3,
+  retryBaseDelay: 1,
+  maxRetryDelay: 5,
+  pollInterval: 1,
+  maxPollInterval: 2
+};
+
+describe('parseRetryAfter', () => {
+  it('秒数をミリ秒に変換する', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('0.5')).toBe(500);
+  });
+
+  it('HTTP日付を現在からの待ち時間に変換する', () => {
+    const delay = parseRetryAfter(new Date(Date.now() + 10_000).toUTCString());
+    expect(delay).toBeGreaterThan(8_000);
+    expect(delay).toBeLessThanOrEqual(10_000);
+  });
+
+  it('過去の日付は0、解釈できない値はnullにする', () => {
+    expect(parseRetryAfter(new Date(Date.now() - 10_000).toUTCString())).toBe(0);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(parseRetryAfter(null)).toBeNull();
+  });
+});
+
+describe('LumaClient', () => {
+  it('生成の開始にプロジェクトID・解像度・freshを含め、Lumaの既定値を埋める', async () => {
+    const server = createMockServer(request => json({ id: request.path.endsWith('/images') ? 'img-1' : 'vid-1', state: 'queued' }));
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+
+    await client.createImage({ prompt: 'a lighthouse', projectId: 'project-1', fresh: true });
+    await client.createVideo({ prompt: 'waves', keyframes: {}, resolution: '1080p', projectId: 'project-1' });
+
+    expect(server.requests[0]).toEqual({
+      method: 'POST',
+      path: '/api/images',
+      body: { prompt: 'a lighthouse', aspect_ratio: '16:9', projectId: 'project-1', fresh: true }
+    });
+    expect(server.requests[1].body).toMatchObject({
+      prompt: 'waves',
+      duration: '5s',
+      aspect_ratio: '16:9',
+      resolution: '1080p',
+      projectId: 'project-1'
+    });
+  });
+
+  it('429はRetry-Afterの時間だけ待ってから再試行する', async () => {
+    const server = createMockServer((_, count) => count === 1
+      ? json({ message: 'slow down' }, 429, { 'Retry-After': '0.05' })
+      : json({ id: 'img-1', state: 'queued' }));
+    const client = new LumaClient({ ...FAST_OPTIONS, maxRetryDelay: 1000, fetch: server.fetch });
+
+    const startedAt = Date.now();
+    const generation = await client.createImage({ prompt: 'a lighthouse' });
+
+    expect(generation.id).toBe('img-1');
+    expect(server.requests).toHaveLength(2);
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+  });
+
+  it('Retry-Afterの待ち時間はmaxRetryDelayで打ち切る', async () => {
+    const server = createMockServer((_, count) => count === 1
+      ? json({}, 503, { 'Retry-After': '3600' })
+      : json({ id: 'img-1', state: 'completed' }));
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+
+    await expect(client.getStatus('img-1', 'images')).resolves.toMatchObject({ state: 'completed' });
+  });
+
+  it('状態の取得は5xxが続く場合にmaxRetries回まで再試行してから失敗する', async () => {
+    const server = createMockServer(() => json({ message: 'upstream error' }, 502));
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+
+    const error = await client.getStatus('img-1', 'images').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LumaError);
+    expect(error.status).toBe(502);
+    expect(error.message).toBe('upstream error');
+    expect(server.requests).toHaveLength(FAST_OPTIONS.maxRetries as number + 1);
+  });
+
+  it('生成の開始は5xxを再試行しない（サーバーが生成を始めていると二重に費用がかかるため）', async () => {
+    const server = createMockServer(() => json({ message: 'upstream error' }, 502));
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+
+    await expect(client.createVideo({ prompt: 'waves', keyframes: {} })).rejects.toMatchObject({ status: 502 });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('再試行しても429が続く場合はRateLimitErrorにする', async () => {
+    const server = createMockServer(() => json({}, 429));
+    const client = new LumaClient({ ...FAST_OPTIONS, maxRetries: 1, fetch: server.fetch });
+
+    await expect(client.createImage({ prompt: 'a lighthouse' })).rejects.toBeInstanceOf(RateLimitError);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  it('状態の取得と削除は通信エラーを再試行する', async () => {
+    let calls = 0;
+    const fetchImpl = (async (_: RequestInfo | URL, init?: RequestInit) => {
+      calls++;
+      if (calls % 2 === 1) {
+        throw new TypeError('fetch failed');
+      }
+      return init?.method === 'DELETE' ? json({ deleted: true }) : json({ id: 'img-1', state: 'completed' });
+    }) as typeof fetch;
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: fetchImpl });
+
+    await expect(client.getStatus('img-1', 'images')).resolves.toMatchObject({ id: 'img-1' });
+    await client.deleteGeneration('img-1', 'images');
+    expect(calls).toBe(4);
+  });
+
+  it('生成の開始は通信エラーを再試行しない', async () => {
+    let calls = 0;
+    const fetchImpl = (async () => {
+      calls++;
+      throw new TypeError('fetch failed');
+    }) as typeof fetch;
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: fetchImpl });
+
+    await expect(client.createImage({ prompt: 'a lighthouse' })).rejects.toThrow('fetch failed');
+    expect(calls).toBe(1);
+  });
+
+  it('4xxは再試行せず、エラーコードに応じた型のエラーにする', async () => {
+    const responses = [
+      json({ message: 'no credits', code: 'insufficient_credits' }, 402),
+      json({ message: 'over budget', code: 'budget_exceeded' }, 402),
+      json({ message: 'bad prompt' }, 400)
+    ];
+    const server = createMockServer((_, count) => responses[count - 1]);
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+
+    await expect(client.createImage({ prompt: 'a' })).rejects.toBeInstanceOf(InsufficientCreditsError);
+    await expect(client.createImage({ prompt: 'a' })).rejects.toBeInstanceOf(BudgetExceededError);
+    await expect(client.createImage({ prompt: 'a' })).rejects.toMatchObject({ status: 400, message: 'bad prompt' });
+    expect(server.requests).toHaveLength(3);
+  });
+
+  it('完了するまで状態をポーリングする', async () => {
+    const states = ['queued', 'dreaming', 'completed'];
+    const server = createMockServer((request, count) => request.method === 'POST'
+      ? json({ id: 'vid-1', state: 'queued' })
+      : json({ id: 'vid-1', state: states[count - 2], assets: { video: 'https://example.com/v.mp4' } }));
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+
+    const generation = await client.generateVideo({ prompt: 'waves', keyframes: {} });
+
+    expect(generation.state).toBe('completed');
+    expect(server.requests.map(request => `${request.method} ${request.path}`)).toEqual([
+      'POST /api/videos',
+      'GET /api/videos/vid-1',
+      'GET /api/videos/vid-1',
+      'GET /api/videos/vid-1'
+    ]);
+  });
+
+  it('サーバーのキャッシュから完了済みの生成が返された場合はポーリングしない', async () => {
+    const server = createMockServer(() => json({ id: 'img-1', state: 'completed', assets: { image: '/a.jpg' } }));
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+
+    await expect(client.generateImage({ prompt: 'a lighthouse' })).resolves.toMatchObject({ state: 'completed' });
+    expect(server.requests).toHaveLength(1);
+  });
+
+  it('待ち時間の上限を超えるとGenerationTimeoutErrorにする', async () => {
+    const server = createMockServer(() => json({ id: 'img-1', state: 'dreaming' }));
+    const client = new LumaClient({
+      ...FAST_OPTIONS,
+      pollInterval: 20,
+      maxPollInterval: 20,
+      timeBudgets: { images: 50 },
+      fetch: server.fetch
+    });
+
+    await expect(client.waitForCompletion('img-1', 'images')).rejects.toBeInstanceOf(GenerationTimeoutError);
+  });
+
+  it('中止するとポーリングをやめ、Luma側の生成を削除する', async () => {
+    const server = createMockServer(request => request.method === 'DELETE'
+      ? json({ deleted: true })
+      : json({ id: 'vid-1', state: 'dreaming' }));
+    const client = new LumaClient({ ...FAST_OPTIONS, pollInterval: 10, maxPollInterval: 10, fetch: server.fetch });
+    const controller = new AbortController();
+
+    const waiting = client.waitForCompletion('vid-1', 'videos', controller.signal);
+    setTimeout(() => controller.abort(), 25);
+    const error = await waiting.catch(caught => caught);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(server.requests.at(-1)).toEqual({ method: 'DELETE', path: '/api/videos/vid-1', body: undefined });
+  });
+
+  it('中止されたシグナルではリクエストを送信しない', async () => {
+    const server = createMockServer(() => json({ id: 'img-1', state: 'queued' }));
+    const client = new LumaClient({ ...FAST_OPTIONS, fetch: server.fetch });
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await client.createImage({ prompt: 'a' }, controller.signal).catch(caught => caught);
+
+    expect(isAbortError(error)).toBe(true);
+    expect(server.requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,458 @@
+import type {
+  GenerationKind,
+  ImageGenerationOptions,
+  LumaImageResponse,
+  LumaResponse,
+  LumaResponseOf,
+  LumaVideoResponse,
+  VideoGenerationOptions
+} from './lumaGeneration';
+
+/**
+ * サーバーがLuma APIのエラーに付けるコード
+ */
+export type LumaErrorCode = 'insufficient_credits' | 'moderation' | 'rate_limited' | 'budget_exceeded';
+
+/**
+ * Luma API（サーバー経由）の呼び出しに失敗した場合のエラー
+ */
+export class LumaError extends Error {
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'LumaError';
+  }
+}
+
+/**
+ * Luma APIのクレジットが不足している場合のエラー
+ */
+export class InsufficientCreditsError extends LumaError {
+  constructor(message = 'Luma APIのクレジットが不足しています。APIキーの利用枠を確認してください。', status?: number) {
+    super(message, status);
+    this.name = 'InsufficientCreditsError';
+  }
+}
+
+/**
+ * プロンプトや画像がLuma APIのモデレーションで拒否された場合のエラー
+ */
+export class ModerationError extends LumaError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'ModerationError';
+  }
+}
+
+/**
+ * プロジェクトの予算の上限を超えるため、サーバーが生成を拒否した場合のエラー
+ */
+export class BudgetExceededError extends LumaError {
+  constructor(message: string, status = 402) {
+    super(message, status);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * 再試行してもレート制限が解除されなかった場合のエラー
+ */
+export class RateLimitError extends LumaError {
+  constructor(message = 'Luma APIのレート制限に達しました。しばらく待ってからもう一度お試しください。', status = 429) {
+    super(message, status);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * 生成が時間内に完了しなかった場合のエラー
+ */
+export class GenerationTimeoutError extends LumaError {
+  constructor(public readonly id: string, public readonly kind: GenerationKind, budget: number) {
+    super(`生成がタイムアウトしました（${Math.round(budget / 1000)}秒以内に完了しませんでした）`);
+    this.name = 'GenerationTimeoutError';
+  }
+}
+
+export interface LumaClientOptions {
+  /** 生成APIのベースURL（省略時は `/api`） */
+  baseUrl?: string;
+  /** リクエストに使うfetch（テスト用に差し替えられる） */
+  fetch?: typeof fetch;
+  /** 429と5xxを再試行する最大回数 */
+  maxRetries?: number;
+  /** 再試行の初回の待ち時間（ミリ秒。回数ごとに倍になる） */
+  retryBaseDelay?: number;
+  /** 再試行の待ち時間の上限（ミリ秒） */
+  maxRetryDelay?: number;
+  /** ポーリングの初回の間隔（ミリ秒） */
+  pollInterval?: number;
+  /** ポーリングの間隔の上限（ミリ秒） */
+  maxPollInterval?: number;
+  /** 生成の種類ごとの完了までの待ち時間の上限（ミリ秒） */
+  timeBudgets?: Partial<Record<GenerationKind, number>>;
+}
+
+export interface GenerationRequestOptions<T extends LumaResponse> {
+  /** 生成の待機を中止するシグナル */
+  signal?: AbortSignal;
+  /** 生成IDが発行されたときのコールバック（再読み込み後の再開用） */
+  onQueued?: (response: T) => void;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<LumaClientOptions, 'fetch' | 'timeBudgets'>> = {
+  baseUrl: '/api',
+  maxRetries: 4,
+  retryBaseDelay: 1000,
+  maxRetryDelay: 30000,
+  pollInterval: 2000,
+  maxPollInterval: 10000
+};
+
+// 画像は数十秒、動画は数分かかるため、種類ごとに待ち時間の上限を分ける
+const DEFAULT_TIME_BUDGETS: Record<GenerationKind, number> = {
+  images: 3 * 60 * 1000,
+  videos: 15 * 60 * 1000
+};
+
+/**
+ * 中止された場合のエラーを作成する
+ * @param signal 中止されたシグナル
+ * @returns 中止の理由
+ */
+function createAbortError(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException('生成の待機を中止しました', 'AbortError');
+}
+
+/**
+ * エラーが中止によるものか
+ * @param error エラー
+ * @returns 中止によるエラーの場合はtrue
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * 指定した時間だけ待つ（中止された場合はすぐに終了する）
+ * @param ms 待つ時間（ミリ秒）
+ * @param signal 中止するシグナル
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError(signal as AbortSignal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Retry-Afterヘッダーを待ち時間に変換する
+ * @param value ヘッダーの値（秒数またはHTTP日付）
+ * @returns 待ち時間（ミリ秒）。解釈できない場合はnull
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * 再試行すべきステータスコードか
+ * 生成の開始（POST）は、サーバーが処理して費用のかかる生成を始めた後に5xxや通信エラーになることがあるため、
+ * 処理されていないことが分かる429だけを再試行する
+ * @param status HTTPステータスコード
+ * @param idempotent 何度送っても結果が変わらないリクエスト（状態の取得と削除）か
+ * @returns 429、または冪等なリクエストの5xxの場合はtrue
+ */
+function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  return status === 429 || (idempotent && status >= 500);
+}
+
+/**
+ * サーバーのエラーレスポンスから型付きのエラーを作成する
+ * @param response fetchのレスポンス
+ * @param fallbackMessage デフォルトのメッセージ
+ * @returns エラー
+ */
+async function createResponseError(response: Response, fallbackMessage: string): Promise<LumaError> {
+  let message = `${fallbackMessage} (${response.status}: ${response.statusText})`;
+  let code: LumaErrorCode | undefined;
+
+  try {
+    const errorData = await response.json();
+    console.error('APIエラーレスポンス:', errorData);
+    message = errorData.message || errorData.detail || fallbackMessage;
+    code = errorData.code;
+  } catch (jsonError) {
+    // JSONのパースに失敗した場合はステータステキストを使用
+  }
+
+  switch (code) {
+    case 'insufficient_credits':
+      return new InsufficientCreditsError(message, response.status);
+    case 'moderation':
+      return new ModerationError(message, response.status);
+    case 'rate_limited':
+      return new RateLimitError(message, response.status);
+    case 'budget_exceeded':
+      return new BudgetExceededError(message, response.status);
+    default:
+      return response.status === 429
+        ? new RateLimitError(message, response.status)
+        : new LumaError(message, response.status);
+  }
+}
+
+/**
+ * サーバー経由でLuma APIの生成を開始し、完了を待つクライアント
+ * 429と5xxは指数バックオフ（ジッター付き）で再試行し、Retry-Afterがあればそれに従う
+ */
+export class LumaClient {
+  private readonly options: Required<Omit<LumaClientOptions, 'fetch' | 'timeBudgets'>>;
+  private readonly timeBudgets: Record<GenerationKind, number>;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: LumaClientOptions = {}) {
+    const { fetch: fetchImpl, timeBudgets, ...rest } = options;
+    this.options = { ...DEFAULT_OPTIONS, ...rest };
+    this.timeBudgets = { ...DEFAULT_TIME_BUDGETS, ...timeBudgets };
+    // window.fetchはthisがwindowでないと呼び出せないため束縛する
+    this.fetchImpl = fetchImpl ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * 画像の生成を開始する
+   * @param options 画像生成オプション
+   * @param signal 中止するシグナル
+   * @returns 開始した生成
+   */
+  async createImage(options: ImageGenerationOptions, signal?: AbortSignal): Promise<LumaImageResponse> {
+    return this.request<LumaImageResponse>('/images', {
+      method: 'POST',
+      body: JSON.stringify({
+        prompt: options.prompt,
+        aspect_ratio: options.aspect_ratio || '16:9',
+        model: options.model,
+        style_ref: options.style_ref,
+        // サーバーはプロジェクトの提供元で生成する
+        projectId: options.projectId,
+        // 再生成と候補の生成では、同じプロンプトのキャッシュを使わずに生成し直す
+        fresh: options.fresh
+      })
+    }, '画像生成リクエストに失敗しました', signal);
+  }
+
+  /**
+   * 動画の生成を開始する
+   * @param options 動画生成オプション
+   * @param signal 中止するシグナル
+   * @returns 開始した生成
+   */
+  async createVideo(options: VideoGenerationOptions, signal?: AbortSignal): Promise<LumaVideoResponse> {
+    return this.request<LumaVideoResponse>('/videos', {
+      method: 'POST',
+      body: JSON.stringify({
+        prompt: options.prompt,
+        model: options.model,
+        keyframes: options.keyframes,
+        duration: options.duration || '5s',
+        aspect_ratio: options.aspect_ratio || '16:9',
+        // サーバーは解像度から概算費用を求めて予算を確認する
+        resolution: options.resolution,
+        projectId: options.projectId
+      })
+    }, '動画生成リクエストに失敗しました', signal);
+  }
+
+  /**
+   * 生成の状態を取得する
+   * @param id 生成ID
+   * @param kind 生成の種類
+   * @param signal 中止するシグナル
+   * @returns 生成結果
+   */
+  async getStatus<K extends GenerationKind>(id: string, kind: K, signal?: AbortSignal): Promise<LumaResponseOf<K>> {
+    return this.request<LumaResponseOf<K>>(
+      `/${kind}/${encodeURIComponent(id)}`,
+      { method: 'GET' },
+      '生成状態の取得に失敗しました',
+      signal
+    );
+  }
+
+  /**
+   * 生成を削除する（待機中・生成中の場合は生成が中止される）
+   * @param id 生成ID
+   * @param kind 生成の種類
+   */
+  async deleteGeneration(id: string, kind: GenerationKind): Promise<void> {
+    await this.request<{ deleted: boolean }>(
+      `/${kind}/${encodeURIComponent(id)}`,
+      { method: 'DELETE' },
+      '生成の削除に失敗しました'
+    );
+  }
+
+  /**
+   * 生成が完了するまでポーリングする
+   * ポーリングの間隔は徐々に広げ、生成の種類ごとの上限時間を超えた場合はタイムアウトにする。
+   * 中止された場合は、クレジットを消費し続けないようLuma側の生成も削除する
+   * @param id 生成ID
+   * @param kind 生成の種類
+   * @param signal 中止するシグナル
+   * @returns 完了または失敗した生成結果
+   */
+  async waitForCompletion<K extends GenerationKind>(
+    id: string,
+    kind: K,
+    signal?: AbortSignal
+  ): Promise<LumaResponseOf<K>> {
+    const budget = this.timeBudgets[kind];
+    const deadline = Date.now() + budget;
+    let interval = this.options.pollInterval;
+
+    try {
+      for (;;) {
+        const status = await this.getStatus(id, kind, signal);
+        if (status.state === 'completed' || status.state === 'failed') {
+          return status;
+        }
+
+        if (Date.now() + interval > deadline) {
+          throw new GenerationTimeoutError(id, kind, budget);
+        }
+        await sleep(interval, signal);
+        interval = Math.min(interval * 1.5, this.options.maxPollInterval);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        await this.deleteGeneration(id, kind).catch(deleteError => {
+          console.warn('中止した生成の削除に失敗:', id, deleteError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 画像を生成して完了を待つ
+   * @param options 画像生成オプション
+   * @param requestOptions 中止するシグナルと生成IDの通知
+   * @returns 生成結果
+   */
+  async generateImage(
+    options: ImageGenerationOptions,
+    requestOptions: GenerationRequestOptions<LumaImageResponse> = {}
+  ): Promise<LumaImageResponse> {
+    const generation = await this.createImage(options, requestOptions.signal);
+    if (requestOptions.onQueued) requestOptions.onQueued(generation);
+    // サーバーのキャッシュから完了済みの生成が返された場合はポーリングしない
+    if (generation.state === 'completed') {
+      return generation;
+    }
+    return this.waitForCompletion(generation.id, 'images', requestOptions.signal);
+  }
+
+  /**
+   * 動画を生成して完了を待つ
+   * @param options 動画生成オプション
+   * @param requestOptions 中止するシグナルと生成IDの通知
+   * @returns 生成結果
+   */
+  async generateVideo(
+    options: VideoGenerationOptions,
+    requestOptions: GenerationRequestOptions<LumaVideoResponse> = {}
+  ): Promise<LumaVideoResponse> {
+    const generation = await this.createVideo(options, requestOptions.signal);
+    if (requestOptions.onQueued) requestOptions.onQueued(generation);
+    // サーバーのキャッシュから完了済みの生成が返された場合はポーリングしない
+    if (generation.state === 'completed') {
+      return generation;
+    }
+    return this.waitForCompletion(generation.id, 'videos', requestOptions.signal);
+  }
+
+  /**
+   * 再試行の待ち時間を計算する
+   * @param attempt 何回目の再試行か（0始まり）
+   * @param retryAfter Retry-Afterヘッダーから求めた待ち時間
+   * @returns 待ち時間（ミリ秒）
+   */
+  private getRetryDelay(attempt: number, retryAfter: number | null): number {
+    if (retryAfter !== null) {
+      return Math.min(retryAfter, this.options.maxRetryDelay);
+    }
+    const delay = Math.min(this.options.retryBaseDelay * 2 ** attempt, this.options.maxRetryDelay);
+    // 同時に失敗したリクエストが一斉に再送しないよう、待ち時間の後半をランダムにする
+    return delay / 2 + Math.random() * (delay / 2);
+  }
+
+  /**
+   * APIにリクエストを送信する（429を再試行し、状態の取得と削除は5xxと通信エラーも再試行する）
+   * @param path APIのパス
+   * @param init fetchのオプション
+   * @param fallbackMessage エラー時のデフォルトメッセージ
+   * @param signal 中止するシグナル
+   * @returns レスポンスのJSON
+   */
+  private async request<T>(
+    path: string,
+    init: RequestInit,
+    fallbackMessage: string,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const idempotent = init.method !== 'POST';
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) {
+        throw createAbortError(signal);
+      }
+
+      let response: Response;
+      try {
+        response = await this.fetchImpl(`${this.options.baseUrl}${path}`, {
+          ...init,
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          signal
+        });
+      } catch (error) {
+        if (isAbortError(error) || !idempotent || attempt >= this.options.maxRetries) {
+          throw error;
+        }
+        console.warn(`通信エラーのため再試行します (${attempt + 1}/${this.options.maxRetries}):`, error);
+        await sleep(this.getRetryDelay(attempt, null), signal);
+        continue;
+      }
+
+      if (response.ok) {
+        return await response.json() as T;
+      }
+
+      if (isRetryableStatus(response.status, idempotent) && attempt < this.options.maxRetries) {
+        const delay = this.getRetryDelay(attempt, parseRetryAfter(response.headers.get('Retry-After')));
+        console.warn(`Luma APIが${response.status}を返したため${Math.round(delay)}ms後に再試行します (${attempt + 1}/${this.options.maxRetries})`);
+        await sleep(delay, signal);
+        continue;
+      }
+
+      throw await createResponseError(response, fallbackMessage);
+    }
+  }
+}
@@ -1,386 +1,428 @@
-import { GoogleGenerativeAI } from '@google/generative-ai';
 import { SegmentAnalysis } from './audioAnalysis';
-
-const genAI = new GoogleGenerativeAI(import.meta.env.VITE_GEMINI_API_KEY || '');
-
-export interface LumaResponse {
+import { chooseClipDuration, ClipDuration, VideoResolution } from './costEstimate';
+import { isAbortError, LumaClient } from './lumaClient';
+import type { Project } from './projects';
+import { applyStyleBible, StyleBible } from './styleBible';
+import { configureQueueFromEnv, runQueued, TaskQueue } from './taskQueue';
+import { FinalRender, renderFinalVideo } from './videoRender';
+
+interface LumaGenerationBase {
   id: string;
   state: 'pending' | 'processing' | 'completed' | 'failed';
-  imageUrl?: string;
-  videoUrl?: string;
   failure_reason?: string;
 }
 
+/**
+ * Lumaの画像生成エンドポイント（Photon）で生成した静止画
+ */
+export interface LumaImageResponse extends LumaGenerationBase {
+  type: 'image';
+  /** 完了した場合の生成物 */
+  assets?: {
+    image: string;
+  };
+  /** サーバーにダウンロードした素材（Lumaの素材URLは期限切れになるため、表示にはこちらを優先する） */
+  localAssets?: {
+    image: string;
+  };
+}
+
+/**
+ * Lumaの動画生成エンドポイントで生成した動画
+ */
+export interface LumaVideoResponse extends LumaGenerationBase {
+  type: 'video';
+  /** 完了した場合の生成物（サムネイルは縮小されたプレビューで、静止画としては使わない） */
+  assets?: {
+    video: string;
+    thumbnail?: string;
+  };
+  /** サーバーにダウンロードした素材（Lumaの素材URLは期限切れになるため、表示とレンダリングにはこちらを優先する） */
+  localAssets?: {
+    video: string;
+    thumbnail?: string;
+  };
+}
+
+export type LumaResponse = LumaImageResponse | LumaVideoResponse;
+
+export interface VideoKeyframe {
+  type: 'image' | 'generation';
+  url?: string;
+  id?: string;
+}
+
 export interface VideoGenerationOptions {
   prompt: string;
   keyframes: {
-    [key: string]: {
-      type: string;
-      url: string;
-      timing?: number;
-    }
+    frame0?: VideoKeyframe;
+    frame1?: VideoKeyframe;
   };
   model?: string;
-  audioUrl?: string;
+  duration?: ClipDuration;
+  aspect_ratio?: string;
+  resolution?: VideoResolution;
+  /** 提供元と予算の上限を適用するプロジェクトのID（Luma APIには送信しない） */
+  projectId?: string;
+}
+
+export interface ImageReference {
+  url: string;
+  /** 参照画像の影響の強さ（0〜1） */
+  weight: number;
 }
 
 export interface ImageGenerationOptions {
   prompt: string;
   aspect_ratio?: string;
   model?: string;
+  /** スタイル・人物の参照画像（対応しているモデルのみ） */
+  style_ref?: ImageReference[];
+  /** 提供元と予算の上限を適用するプロジェクトのID（Luma APIには送信しない） */
+  projectId?: string;
+  /** 同じプロンプトで生成済みの画像があっても、キャッシュを使わずに生成し直す */
+  fresh?: boolean;
 }
 
 export interface GeneratedMedia {
   segmentIndex: number;
   startTime: number;
   endTime: number;
-  imageResponse: LumaResponse;
+  imageResponse: LumaImageResponse;
+  /** このセグメントの画像から生成した動画クリップ */
+  clipResponse?: LumaVideoResponse;
+  /** 画像の候補（選んだ候補がimageResponseになる） */
+  variants?: LumaImageResponse[];
 }
 
-export interface GeminiAnalysis {
-  story: string;
-  visual: string;
-  emotion: string;
-  imagePrompt?: string;
+export interface FullGenerationResult {
+  media: GeneratedMedia[];
+  /** 音声を合成した最終動画（レンダリングに失敗した場合はundefined） */
+  finalVideo?: FinalRender;
+  renderError?: string;
 }
 
-export async function analyzeWithGemini(file: File): Promise<GeminiAnalysis> {
-  const model = genAI.getGenerativeModel({ model: 'gemini-pro' });
-
-  const fileName = file.name;
-
-  const analysisPrompt = `
-この音楽ファイル "${fileName}" の世界観を分析してください。
+export interface ImageBatchOptions {
+  /** 画像のプロンプトに適用する楽曲全体のスタイルバイブル */
+  styleBible?: StyleBible;
+  /**
+   * 連続性の強さ（0〜1）
+   * 参照画像に対応したモデルでは、直前のセグメントの画像をこの強さでスタイル参照として渡す
+   */
+  continuityStrength?: number;
+  model?: string;
+  /** 予算の上限を適用するプロジェクトのID */
+  projectId?: string;
+  /** 中止するシグナル（中止すると生成中の画像もLuma側で削除する） */
+  signal?: AbortSignal;
+}
 
-以下の3つの観点から分析して、それぞれ日本語で200文字程度で説明してください：
+export interface ClipGenerationOptions {
+  /** 次のセグメントの画像を終了フレームとして使うか */
+  useNextFrame?: boolean;
+  model?: string;
+  resolution?: VideoResolution;
+  /** 予算の上限を適用するプロジェクトのID */
+  projectId?: string;
+  /** クリップのプロンプトに適用する楽曲全体のスタイルバイブル */
+  styleBible?: StyleBible;
+  /** 中止するシグナル（中止すると生成中のクリップもLuma側で削除する） */
+  signal?: AbortSignal;
+}
 
-1. ストーリー/シーン描写：この音楽が表現している物語や情景
-2. ビジュアルイメージ：色彩、光、空間、質感などの視覚的な要素
-3. 感情表現：この音楽が喚起する感情や心理状態
+export type GenerationKind = 'images' | 'videos';
 
-必ず以下のJSON形式で回答してください：
+/**
+ * 生成の種類（APIのパス）に対応する生成結果の型
+ */
+export type LumaResponseOf<K extends GenerationKind> = K extends 'images' ? LumaImageResponse : LumaVideoResponse;
 
-{
-  "story": "ストーリーの説明を200文字程度で",
-  "visual": "ビジュアルイメージの説明を200文字程度で",
-  "emotion": "感情表現の説明を200文字程度で"
+/**
+ * 生成結果の種類に対応するAPIのパス
+ * @param type 生成結果の種類
+ * @returns 生成の種類
+ */
+export function getGenerationKind(type: LumaResponse['type']): GenerationKind {
+  return type === 'image' ? 'images' : 'videos';
 }
 
-注意：
-- 必ずJSON形式で返してください
-- 各説明は200文字程度にしてください
-- 改行を含めないでください`;
-
-  const result = await model.generateContent(analysisPrompt);
-  const response = await result.response;
-  const text = response.text();
-  
-  console.log('=== Gemini Analysis Log ===');
-  console.log('Analysis Prompt:', analysisPrompt);
-  console.log('Raw Response:', text);
-  
-  try {
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('JSON形式の応答が見つかりませんでした');
-    }
-    
-    const analysis = JSON.parse(jsonMatch[0]);
-    
-    if (!analysis.story || !analysis.visual || !analysis.emotion) {
-      throw new Error('応答に必要な情報が含まれていません');
-    }
-    
-    console.log('=== Analysis Complete ===');
+/**
+ * 完了した画像のLumaのURLを取得する（キーフレームやスタイル参照としてLuma APIに渡す用）
+ * @param response 画像の生成結果
+ * @returns 画像のURL。完了していない場合はundefined
+ */
+export function getCompletedImageUrl(response: LumaImageResponse | undefined): string | undefined {
+  return response?.state === 'completed' ? response.assets?.image : undefined;
+}
 
-    const promptGenerationPrompt = `
-以下の分析結果から、画像生成AI向けの英語プロンプトを生成してください。
+/**
+ * 完了した動画のURLを取得する（サーバーにダウンロード済みの場合はそちらを使う）
+ * @param response 動画の生成結果
+ * @returns 動画のURL。完了していない場合はundefined
+ */
+export function getCompletedVideoUrl(response: LumaVideoResponse | undefined): string | undefined {
+  return response?.state === 'completed' ? response.localAssets?.video ?? response.assets?.video : undefined;
+}
 
-分析結果:
-${JSON.stringify(analysis, null, 2)}
+// 画像生成に使うモデル（Lumaの画像生成エンドポイントのモデル）
+export const IMAGE_MODEL = 'photon-1';
 
-以下の要素を含む、自然な英語の文章を1つ作成してください：
-- 色合い
-- 風景/シーン
-- 感情
-- 光の強さや陰影
+// 動画生成に使うモデル
+export const VIDEO_MODEL = 'ray-2';
 
-必ず以下のJSON形式で返してください：
+// 動画クリップの解像度
+export const VIDEO_RESOLUTION: VideoResolution = '720p';
 
-{
-  "imagePrompt": "生成された英語プロンプト"
-}`;
+// 前の画像をスタイル参照として渡せるモデル（Lumaの画像生成エンドポイントのモデル）
+const STYLE_REFERENCE_MODELS = ['photon-1', 'photon-flash-1'];
 
-    const promptResult = await model.generateContent(promptGenerationPrompt);
-    const promptResponse = await promptResult.response;
-    const promptText = promptResponse.text();
+/**
+ * モデルが参照画像に対応しているか
+ * @param model モデル名
+ * @returns 対応している場合はtrue
+ */
+export function supportsStyleReference(model: string): boolean {
+  return STYLE_REFERENCE_MODELS.includes(model);
+}
 
-    console.log('=== Prompt Generation Log ===');
-    console.log('Prompt Generation Request:', promptGenerationPrompt);
-    console.log('Raw Response:', promptText);
+export interface GenerationCallbacks {
+  /** 画像生成の進捗状況 */
+  onImageProgress?: (progress: number, total: number) => void;
+  /** 動画生成の進捗状況 */
+  onVideoProgress?: (state: string) => void;
+  /** クリップ生成の進捗状況 */
+  onClipProgress?: (progress: number, total: number) => void;
+  /** セグメントの画像やクリップの状態が変わったとき（生成IDの発行時と完了時） */
+  onMediaUpdate?: (media: GeneratedMedia) => void;
+}
 
-    const promptJson = JSON.parse(promptText.match(/\{[\s\S]*\}/)?.[0] || '{}');
-    console.log('Generated Image Prompt:', promptJson);
+// アプリ全体で共有するLuma APIクライアント（サーバーの /api/images と /api/videos を呼び出す）
+export const lumaClient = new LumaClient();
 
-    return {
-      ...analysis,
-      imagePrompt: promptJson.imagePrompt
-    };
+// アプリ全体で共有するLuma APIのキュー（画像とクリップの生成をまとめて、同時に生成する数とリクエストの間隔を制限する）
+export const lumaQueue = new TaskQueue({ concurrency: 3, interval: 1000 });
+configureQueueFromEnv(lumaQueue, 'LUMA');
 
-  } catch (error) {
-    console.error('Gemini応答のパースエラー:', error);
-    throw new Error('音楽の分析に失敗しました。もう一度お試しください。');
+/**
+ * 生成中に発生したエラーを失敗状態の生成結果に変換する
+ * 中止された場合はそのままエラーを投げる
+ * @param error 発生したエラー
+ * @param id 生成ID（発行前の場合は仮のID）
+ * @param type 生成結果の種類
+ * @returns 失敗状態の生成結果
+ */
+function toFailedResponse<T extends LumaResponse>(error: unknown, id: string, type: T['type']): T {
+  if (isAbortError(error)) {
+    throw error;
   }
+  return {
+    id,
+    type,
+    state: 'failed',
+    failure_reason: error instanceof Error ? error.message : '不明なエラー'
+  } as T;
 }
 
 /**
- * Luma APIの生成状態をポーリングする
+ * サーバー経由でLuma APIの生成状態をポーリングする
  * @param id 生成ID
+ * @param kind 生成の種類
+ * @param signal 中止するシグナル
  * @returns 生成結果
  */
-async function pollGenerationStatus(id: string): Promise<LumaResponse> {
-  let completed = false;
-  let attempts = 0;
-  const maxAttempts = 30;
-  const pollingInterval = 2000;
-
-  while (!completed && attempts < maxAttempts) {
-    const response = await fetch(`/api/luma/${id}`, {
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_LUMA_API_KEY}`,
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      let errorMessage = '生成状態の取得に失敗しました';
-      let errorData;
-      
-      try {
-        errorData = await response.json();
-        console.error('APIエラーレスポンス:', errorData);
-        
-        if (errorData.detail === 'Insufficient credits') {
-          errorMessage = 'Luma APIのクレジットが不足しています。APIキーの利用枠を確認してください。';
-        } else {
-          errorMessage = errorData.detail || errorData.message || errorMessage;
-        }
-      } catch (jsonError) {
-        // JSONのパースに失敗した場合はステータステキストを使用
-        errorMessage = `生成状態の取得に失敗しました (${response.status}: ${response.statusText})`;
-      }
-      
-      return {
-        id: id,
-        state: 'failed',
-        failure_reason: errorMessage
-      };
-    }
-
-    const status = await response.json();
-    console.log('Generation status:', status);
-
-    if (status.state === 'completed') {
-      completed = true;
-      return {
-        id: status.id,
-        state: 'completed',
-        imageUrl: status.assets?.video_0_thumb || status.assets?.image,
-        videoUrl: status.assets?.video
-      };
-    } else if (status.state === 'failed') {
-      return {
-        id: status.id,
-        state: 'failed',
-        failure_reason: status.failure_reason
-      };
-    }
-
-    await new Promise(r => setTimeout(r, pollingInterval));
-    attempts++;
-  }
-
-  throw new Error('生成がタイムアウトしました');
+export async function pollGenerationStatus<K extends GenerationKind>(
+  id: string,
+  kind: K,
+  signal?: AbortSignal
+): Promise<LumaResponseOf<K>> {
+  return lumaClient.waitForCompletion(id, kind, signal);
 }
 
 /**
  * Luma APIで画像を生成する
  * @param options 画像生成オプション
+ * @param onQueued 生成IDが発行されたときのコールバック（再読み込み後の再開用）
+ * @param signal 中止するシグナル
  * @returns 生成結果
  */
-export async function generateLumaImage(options: ImageGenerationOptions): Promise<LumaResponse> {
+export async function generateLumaImage(
+  options: ImageGenerationOptions,
+  onQueued?: (response: LumaImageResponse) => void,
+  signal?: AbortSignal
+): Promise<LumaImageResponse> {
+  let id = 'error';
   try {
-    const response = await fetch('/api/luma', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_LUMA_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        prompt: options.prompt,
-        aspect_ratio: options.aspect_ratio || '16:9',
-        model: options.model || 'ray-2'
-      })
-    });
-
-    if (!response.ok) {
-      let errorMessage = '画像生成リクエストに失敗しました';
-      let errorData;
-      
-      try {
-        errorData = await response.json();
-        console.error('APIエラーレスポンス:', errorData);
-        
-        if (errorData.detail === 'Insufficient credits') {
-          errorMessage = 'Luma APIのクレジットが不足しています。APIキーの利用枠を確認してください。';
-        } else {
-          errorMessage = errorData.detail || errorData.message || errorMessage;
-        }
-      } catch (jsonError) {
-        // JSONのパースに失敗した場合はステータステキストを使用
-        errorMessage = `画像生成リクエストに失敗しました (${response.status}: ${response.statusText})`;
+    return await lumaClient.generateImage({ ...options, model: options.model || IMAGE_MODEL }, {
+      signal,
+      onQueued: (queued) => {
+        id = queued.id;
+        if (onQueued) onQueued(queued);
       }
-      
-      return {
-        id: 'error',
-        state: 'failed',
-        failure_reason: errorMessage
-      };
-    }
-
-    const generation = await response.json();
-    console.log('Image generation response:', generation);
-    return await pollGenerationStatus(generation.id);
+    });
   } catch (error) {
     console.error('画像生成エラー:', error);
-    return {
-      id: 'unknown',
-      state: 'failed',
-      failure_reason: error instanceof Error ? error.message : '不明なエラー'
-    };
+    return toFailedResponse<LumaImageResponse>(error, id, 'image');
   }
 }
 
 /**
  * Luma APIで動画を生成する
  * @param options 動画生成オプション
+ * @param onQueued 生成IDが発行されたときのコールバック（再読み込み後の再開用）
+ * @param signal 中止するシグナル
  * @returns 生成結果
  */
-export async function generateLumaVideo(options: VideoGenerationOptions): Promise<LumaResponse> {
+export async function generateLumaVideo(
+  options: VideoGenerationOptions,
+  onQueued?: (response: LumaVideoResponse) => void,
+  signal?: AbortSignal
+): Promise<LumaVideoResponse> {
+  let id = 'error';
   try {
-    const requestBody: any = {
-      prompt: options.prompt,
-      model: options.model || 'ray-2',
-      keyframes: options.keyframes
-    };
-
-    if (options.audioUrl) {
-      requestBody.audio = { url: options.audioUrl };
-    }
-
-    console.log('Video generation request:', requestBody);
-
-    const response = await fetch('/api/luma', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${import.meta.env.VITE_LUMA_API_KEY}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(requestBody)
+    return await lumaClient.generateVideo({ ...options, model: options.model || VIDEO_MODEL }, {
+      signal,
+      onQueued: (queued) => {
+        id = queued.id;
+        if (onQueued) onQueued(queued);
+      }
     });
+  } catch (error) {
+    console.error('動画生成エラー:', error);
+    return toFailedResponse<LumaVideoResponse>(error, id, 'video');
+  }
+}
+
+/**
+ * 生成IDが発行済みで完了していない生成かどうか
+ * @param response 生成結果
+ * @returns ポーリングを再開すべき場合はtrue
+ */
+export function isGenerationInFlight<T extends LumaResponse>(response: T | undefined): response is T {
+  return response?.state === 'pending' || response?.state === 'processing';
+}
 
-    if (!response.ok) {
-      let errorMessage = '動画生成リクエストに失敗しました';
-      let errorData;
-      
-      try {
-        errorData = await response.json();
-        console.error('APIエラーレスポンス:', errorData);
-        
-        if (errorData.detail === 'Insufficient credits') {
-          errorMessage = 'Luma APIのクレジットが不足しています。APIキーの利用枠を確認してください。';
-        } else {
-          errorMessage = errorData.detail || errorData.message || errorMessage;
-        }
-      } catch (jsonError) {
-        // JSONのパースに失敗した場合はステータステキストを使用
-        errorMessage = `動画生成リクエストに失敗しました (${response.status}: ${response.statusText})`;
+/**
+ * 中止した生成を生成結果から取り除く
+ * 生成中だった画像はセグメントごと、生成中だったクリップはクリップだけを破棄し、次の生成で作り直す
+ * @param media 中止した時点の生成結果
+ * @returns 完了または失敗した生成結果だけを残した配列
+ */
+export function discardInFlightGenerations(media: GeneratedMedia[]): GeneratedMedia[] {
+  return media
+    .filter(item => !isGenerationInFlight(item.imageResponse))
+    .map((item): GeneratedMedia => {
+      if (isGenerationInFlight(item.clipResponse)) {
+        const { clipResponse: _canceledClip, ...rest } = item;
+        return rest;
       }
-      
-      return {
-        id: 'error',
-        state: 'failed',
-        failure_reason: errorMessage
-      };
-    }
+      return item;
+    });
+}
 
-    const generation = await response.json();
-    console.log('Video generation response:', generation);
-    return await pollGenerationStatus(generation.id);
+/**
+ * 再読み込みなどで中断された生成のポーリングを再開する
+ * @param response 保存されていた生成結果
+ * @param signal 中止するシグナル
+ * @returns 生成結果
+ */
+export async function resumeGeneration<T extends LumaResponse>(response: T, signal?: AbortSignal): Promise<T> {
+  if (!isGenerationInFlight(response)) {
+    return response;
+  }
+  try {
+    return await pollGenerationStatus(response.id, getGenerationKind(response.type), signal) as T;
   } catch (error) {
-    console.error('動画生成エラー:', error);
-    return {
-      id: 'unknown',
-      state: 'failed',
-      failure_reason: error instanceof Error ? error.message : '不明なエラー'
-    };
+    console.error('生成の再開エラー:', error);
+    return toFailedResponse<T>(error, response.id, response.type);
   }
 }
 
 /**
  * 複数の画像を並列で生成する
+ * 生成済みのセグメントは結果をそのまま使い、未生成のセグメントと生成中のセグメント（ポーリングを再開）だけを処理する
+ * 直前のセグメントの画像を参照として渡す場合は、前の画像が完成してから次を生成するため1つずつ処理する
  * @param analyses セグメント分析結果の配列
- * @param onProgress 進捗状況のコールバック
+ * @param onProgress 進捗状況のコールバック（処理が必要なセグメントの数に対する進捗）
+ * @param existingMedia 保存されている生成結果
+ * @param onMediaUpdate セグメントの状態が変わったときのコールバック
+ * @param options スタイルバイブルと連続性の設定、中止するシグナル
  * @returns 生成された画像の配列
  */
 export async function generateImagesInParallel(
   analyses: SegmentAnalysis[],
-  onProgress?: (progress: number, total: number) => void
+  onProgress?: (progress: number, total: number) => void,
+  existingMedia: GeneratedMedia[] = [],
+  onMediaUpdate?: (media: GeneratedMedia) => void,
+  options: ImageBatchOptions = {}
 ): Promise<GeneratedMedia[]> {
-  const batchSize = 3; // 同時に生成する画像の数
+  const { styleBible, continuityStrength = 0, model = IMAGE_MODEL, projectId, signal } = options;
+  const useReference = continuityStrength > 0 && supportsStyleReference(model);
   const results: GeneratedMedia[] = [];
   const errors: {index: number, error: any}[] = [];
-  
-  for (let i = 0; i < analyses.length; i += batchSize) {
-    const batch = analyses.slice(i, i + batchSize);
-    const batchPromises = batch.map((analysis, index) => {
-      return generateLumaImage({
-        prompt: analysis.imagePrompt,
-        aspect_ratio: '16:9',
-        model: 'ray-2'
-      })
-      .then(response => {
-        return {
-          segmentIndex: i + index,
-          startTime: analysis.startTime,
-          endTime: analysis.endTime,
-          imageResponse: response
-        };
-      })
-      .catch(error => {
-        console.error(`セグメント ${i + index} の画像生成に失敗:`, error);
-        errors.push({index: i + index, error});
-        // エラーが発生しても処理を続行するために、失敗状態のレスポンスを返す
-        return {
-          segmentIndex: i + index,
-          startTime: analysis.startTime,
-          endTime: analysis.endTime,
-          imageResponse: {
-            id: `error-${i + index}`,
-            state: 'failed',
-            failure_reason: error instanceof Error ? error.message : '不明なエラー'
-          }
-        };
-      });
-    });
-    
-    const batchResults = await Promise.all(batchPromises);
-    results.push(...batchResults);
-    
-    if (onProgress) {
-      onProgress(Math.min(i + batchSize, analyses.length), analyses.length);
+  const targets: { analysis: SegmentAnalysis; segmentIndex: number; existing?: GeneratedMedia }[] = [];
+
+  analyses.forEach((analysis, segmentIndex) => {
+    const existing = existingMedia.find(media => media.segmentIndex === segmentIndex);
+    if (existing && !isGenerationInFlight(existing.imageResponse)) {
+      results.push({ ...existing, startTime: analysis.startTime, endTime: analysis.endTime });
+    } else {
+      targets.push({ analysis, segmentIndex, existing });
     }
-  }
+  });
+
+  await runQueued(lumaQueue, targets, async ({ analysis, segmentIndex, existing }): Promise<GeneratedMedia> => {
+    const media: GeneratedMedia = {
+      segmentIndex,
+      startTime: analysis.startTime,
+      endTime: analysis.endTime,
+      imageResponse: existing?.imageResponse ?? { id: `pending-${segmentIndex}`, type: 'image', state: 'pending' },
+      ...(existing?.clipResponse ? { clipResponse: existing.clipResponse } : {})
+    };
+
+    try {
+      if (existing) {
+        // 生成中のものはポーリングを再開する
+        media.imageResponse = await resumeGeneration(existing.imageResponse, signal);
+      } else {
+        const previous = results.find(item => item.segmentIndex === segmentIndex - 1)?.imageResponse;
+        const referenceUrl = useReference ? getCompletedImageUrl(previous) : undefined;
+        media.imageResponse = await generateLumaImage({
+          prompt: applyStyleBible(analysis.imagePrompt, styleBible),
+          aspect_ratio: '16:9',
+          model,
+          projectId,
+          ...(referenceUrl ? { style_ref: [{ url: referenceUrl, weight: continuityStrength }] } : {})
+        }, (queued) => {
+          if (onMediaUpdate) onMediaUpdate({ ...media, imageResponse: queued });
+        }, signal);
+      }
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error(`セグメント ${segmentIndex} の画像生成に失敗:`, error);
+      errors.push({index: segmentIndex, error});
+      // エラーが発生しても処理を続行するために、失敗状態のレスポンスを返す
+      media.imageResponse = {
+        id: `error-${segmentIndex}`,
+        type: 'image',
+        state: 'failed',
+        failure_reason: error instanceof Error ? error.message : '不明なエラー'
+      };
+    }
+
+    if (onMediaUpdate) onMediaUpdate(media);
+    // 参照画像を使う場合は、次のセグメントがこの結果を参照する
+    results.push(media);
+    return media;
+  }, {
+    // 直前のセグメントの画像を参照として渡す場合は、前の画像が完成してから次を生成する
+    concurrency: useReference ? 1 : undefined,
+    signal,
+    onItemDone: (_, __, completed, total) => {
+      if (onProgress) onProgress(completed, total);
+    }
+  });
   
   // エラーの概要をログに出力
   if (errors.length > 0) {
@@ -390,54 +432,196 @@ export async function generateImagesInParallel(
   return results.sort((a, b) => a.segmentIndex - b.segmentIndex);
 }
 
+// 「候補から選ぶ」で一度に生成する画像の数
+export const IMAGE_VARIANT_COUNT = 3;
+
 /**
- * 生成された画像から動画を作成する
- * @param generatedImages 生成された画像の配列
- * @param audioUrl 音声ファイルのURL（オプション）
- * @param overallPrompt 全体的なプロンプト
- * @returns 生成された動画
+ * セグメントの画像だけを生成し直す（失敗した画像の再試行や、プロンプトを変えた再生成）
+ * 元の画像から作られたクリップは使えなくなるため破棄する
+ * @param media 生成し直すセグメント
+ * @param prompt 画像生成プロンプト
+ * @param onMediaUpdate 生成IDが発行されたときのコールバック
+ * @param projectId 予算の上限を適用するプロジェクトのID
+ * @returns 更新後のセグメント
  */
-export async function createVideoFromImages(
-  generatedImages: GeneratedMedia[],
-  audioUrl?: string,
-  overallPrompt?: string
-): Promise<LumaResponse> {
-  // 失敗した画像生成をフィルタリング
-  const successfulImages = generatedImages.filter(
-    img => img.imageResponse.state === 'completed' && img.imageResponse.imageUrl
-  );
-  
-  if (successfulImages.length === 0) {
-    throw new Error('有効な画像がありません。すべての画像生成に失敗しました。');
+export async function regenerateSegmentImage(
+  media: GeneratedMedia,
+  prompt: string,
+  onMediaUpdate?: (media: GeneratedMedia) => void,
+  projectId?: string
+): Promise<GeneratedMedia> {
+  const { clipResponse: _staleClip, ...rest } = media;
+  const imageResponse = await lumaQueue.run(() => generateLumaImage({
+    prompt,
+    aspect_ratio: '16:9',
+    model: IMAGE_MODEL,
+    projectId,
+    fresh: true
+  }, (queued) => {
+    if (onMediaUpdate) onMediaUpdate({ ...rest, imageResponse: queued });
+  }));
+
+  if (imageResponse.state === 'failed') {
+    console.error(`セグメント ${media.segmentIndex} の画像の再生成に失敗:`, imageResponse.failure_reason);
   }
-  
-  // 成功した画像が少なすぎる場合は警告を表示
-  if (successfulImages.length < generatedImages.length * 0.5) {
-    console.warn(`警告: 生成された画像の${Math.round((1 - successfulImages.length / generatedImages.length) * 100)}%が失敗しました。動画の品質が低下する可能性があります。`);
+  return { ...rest, imageResponse };
+}
+
+/**
+ * セグメントの画像の候補を複数生成する
+ * 現在の画像（生成済みの場合）も候補に残し、選び直せるようにする
+ * @param media 候補を生成するセグメント
+ * @param prompt 画像生成プロンプト
+ * @param count 生成する候補の数
+ * @param onMediaUpdate 候補の状態が変わったときのコールバック
+ * @param projectId 予算の上限を適用するプロジェクトのID
+ * @returns 候補を追加したセグメント
+ */
+export async function generateImageVariants(
+  media: GeneratedMedia,
+  prompt: string,
+  count: number = IMAGE_VARIANT_COUNT,
+  onMediaUpdate?: (media: GeneratedMedia) => void,
+  projectId?: string
+): Promise<GeneratedMedia> {
+  const kept = (media.variants ?? []).filter(variant => variant.state === 'completed');
+  if (media.imageResponse.state === 'completed' && !kept.some(variant => variant.id === media.imageResponse.id)) {
+    kept.unshift(media.imageResponse);
   }
-  
-  // キーフレームの作成
-  const keyframes: Record<string, any> = {};
-  
-  successfulImages.forEach((img, index) => {
-    if (img.imageResponse.imageUrl) {
-      keyframes[`frame${index}`] = {
-        type: 'image',
-        url: img.imageResponse.imageUrl,
-        timing: img.startTime
+
+  const created: LumaImageResponse[] = Array.from({ length: count }, (_, i) => ({
+    id: `pending-variant-${media.segmentIndex}-${i}`,
+    type: 'image',
+    state: 'pending'
+  }));
+  const current = (): GeneratedMedia => ({ ...media, variants: [...kept, ...created] });
+  const report = () => {
+    if (onMediaUpdate) onMediaUpdate(current());
+  };
+
+  report();
+  await runQueued(lumaQueue, created, async (_, i) => {
+    created[i] = await generateLumaImage({
+      prompt,
+      aspect_ratio: '16:9',
+      model: IMAGE_MODEL,
+      projectId,
+      fresh: true
+    }, (queued) => {
+      created[i] = queued;
+      report();
+    });
+    report();
+  });
+
+  return current();
+}
+
+/**
+ * 候補の画像をセグメントの画像として選ぶ
+ * 元の画像から作られたクリップは使えなくなるため破棄する
+ * @param media セグメント
+ * @param variantId 選ぶ候補の生成ID
+ * @returns 更新後のセグメント（候補が完成していない場合はそのまま）
+ */
+export function selectImageVariant(media: GeneratedMedia, variantId: string): GeneratedMedia {
+  const variant = media.variants?.find(candidate => candidate.id === variantId);
+  if (!variant || variant.state !== 'completed' || variant.id === media.imageResponse.id) {
+    return media;
+  }
+  const { clipResponse: _staleClip, ...rest } = media;
+  return { ...rest, imageResponse: variant };
+}
+
+/**
+ * 各セグメントの画像から動画クリップを並列で生成する
+ * frame0にセグメントの画像、frame1に次のセグメントの画像（オプション）を指定する
+ * クリップの生成結果が既にあるセグメントは再生成せず、生成中のものはポーリングを再開する
+ * @param generatedImages 生成された画像の配列
+ * @param analyses セグメント分析結果の配列（クリップのプロンプトに使用）
+ * @param options クリップ生成オプション
+ * @param onProgress 進捗状況のコールバック
+ * @param onMediaUpdate セグメントの状態が変わったときのコールバック
+ * @returns クリップの生成結果を追加した配列
+ */
+export async function generateClipsInParallel(
+  generatedImages: GeneratedMedia[],
+  analyses: SegmentAnalysis[],
+  options: ClipGenerationOptions = {},
+  onProgress?: (progress: number, total: number) => void,
+  onMediaUpdate?: (media: GeneratedMedia) => void
+): Promise<GeneratedMedia[]> {
+  const {
+    useNextFrame = true,
+    model = VIDEO_MODEL,
+    resolution = VIDEO_RESOLUTION,
+    projectId,
+    styleBible,
+    signal
+  } = options;
+
+  const results = [...generatedImages]
+    .sort((a, b) => a.segmentIndex - b.segmentIndex)
+    .map(media => ({ ...media }));
+  await runQueued(lumaQueue, results, async (media, index) => {
+    const imageUrl = getCompletedImageUrl(media.imageResponse);
+
+    if (media.clipResponse) {
+      media.clipResponse = await resumeGeneration(media.clipResponse, signal);
+    } else if (!imageUrl) {
+      media.clipResponse = {
+        id: `error-${media.segmentIndex}`,
+        type: 'video',
+        state: 'failed',
+        failure_reason: 'セグメントの画像が生成されていないため、クリップを生成できません'
       };
+    } else {
+      const next = results[index + 1];
+      const nextImageUrl = useNextFrame ? getCompletedImageUrl(next?.imageResponse) : undefined;
+      const analysis = analyses.find(a => a.startTime === media.startTime && a.endTime === media.endTime)
+        ?? analyses[media.segmentIndex];
+
+      const prompt = [
+        analysis?.imagePrompt && applyStyleBible(analysis.imagePrompt, styleBible),
+        nextImageUrl
+          ? 'Smoothly transition into the next scene with cinematic camera motion that follows the rhythm of the music.'
+          : 'Subtle cinematic camera motion that follows the rhythm and mood of the music.'
+      ].filter(Boolean).join(' ');
+
+      media.clipResponse = await generateLumaVideo({
+        prompt,
+        keyframes: {
+          frame0: { type: 'image', url: imageUrl },
+          ...(nextImageUrl ? { frame1: { type: 'image' as const, url: nextImageUrl } } : {})
+        },
+        model,
+        duration: chooseClipDuration(media),
+        resolution,
+        projectId
+      }, (queued) => {
+        if (onMediaUpdate) onMediaUpdate({ ...media, clipResponse: queued });
+      }, signal);
+
+      if (media.clipResponse.state === 'failed') {
+        console.error(`セグメント ${media.segmentIndex} のクリップ生成に失敗:`, media.clipResponse.failure_reason);
+      }
+    }
+
+    if (onMediaUpdate) onMediaUpdate({ ...media });
+    return media;
+  }, {
+    signal,
+    onItemDone: (_, __, completed, total) => {
+      if (onProgress) onProgress(completed, total);
     }
   });
-  
-  // 動画の生成
-  const defaultPrompt = "Create a smooth video transition between these images, maintaining the visual style and atmosphere";
-  
-  return await generateLumaVideo({
-    prompt: overallPrompt || defaultPrompt,
-    keyframes: keyframes,
-    model: 'ray-2',
-    audioUrl
-  });
+
+  const failedCount = results.filter(media => media.clipResponse?.state !== 'completed').length;
+  if (failedCount > 0) {
+    console.warn(`${failedCount}個のセグメントでクリップ生成に失敗しました`);
+  }
+
+  return results;
 }
 
 /**
@@ -449,45 +633,93 @@ export function createAudioFileUrl(audioFile: File): string {
   return URL.createObjectURL(audioFile);
 }
 
+// 最終動画でクリップ間に入れるクロスフェードの長さ（秒）
+const RENDER_CROSSFADE_SECONDS = 0.5;
+
 /**
  * 完全な音声から動画生成フローを実行する
- * @param audioFile 音声ファイル
+ * existingMediaを渡すと、保存されている生成結果を再利用して中断したところから再開する
+ * @param project 音声とスタイルバイブル、連続性の設定を保存したプロジェクト（レンダリングの進捗はプロジェクトのイベントとして配信される）
  * @param analyses セグメント分析結果の配列
- * @param onImageProgress 画像生成の進捗状況
- * @param onVideoProgress 動画生成の進捗状況
- * @returns 生成された動画
+ * @param callbacks 進捗状況と生成結果を受け取るコールバック
+ * @param existingMedia 保存されている生成結果
+ * @param signal 中止するシグナル（中止すると生成中の画像とクリップもLuma側で削除する）
+ * @param imagesOnly 画像だけを生成し、クリップの生成とレンダリングをしない（スライドショーのプレビュー用）
+ * @returns 画像とクリップの生成結果、最終動画
  */
 export async function executeFullGenerationFlow(
-  audioFile: File,
+  project: Pick<Project, 'id' | 'audioId' | 'styleBible' | 'continuityStrength'>,
   analyses: SegmentAnalysis[],
-  onImageProgress?: (progress: number, total: number) => void,
-  onVideoProgress?: (state: string) => void
-): Promise<LumaResponse> {
+  callbacks: GenerationCallbacks = {},
+  existingMedia: GeneratedMedia[] = [],
+  signal?: AbortSignal,
+  imagesOnly = false
+): Promise<FullGenerationResult> {
+  const { onImageProgress, onVideoProgress, onClipProgress, onMediaUpdate } = callbacks;
+
   try {
     // 1. 並列で画像を生成
     if (onVideoProgress) onVideoProgress('画像の生成を開始しています...');
-    const generatedImages = await generateImagesInParallel(analyses, onImageProgress);
-    
-    // 2. 音声ファイルのURLを作成
-    const audioUrl = createAudioFileUrl(audioFile);
+    const generatedImages = await generateImagesInParallel(
+      analyses,
+      onImageProgress,
+      existingMedia,
+      onMediaUpdate,
+      {
+        styleBible: project.styleBible,
+        continuityStrength: project.continuityStrength,
+        projectId: project.id,
+        signal
+      }
+    );
     
-    // 3. 全体的なプロンプトの作成
-    const overallPrompt = `Create a cinematic video that flows smoothly between scenes, 
-    maintaining the visual style and atmosphere of each image. 
-    The transitions should be smooth and natural, following the rhythm and mood of the music.`;
+    if (!generatedImages.some(media => media.imageResponse.state === 'completed')) {
+      throw new Error('有効な画像がありません。すべての画像生成に失敗しました。');
+    }
+
+    if (imagesOnly) {
+      if (onVideoProgress) onVideoProgress('画像の生成が完了しました');
+      return { media: generatedImages };
+    }
     
-    // 4. 画像から動画を生成
-    if (onVideoProgress) onVideoProgress('動画の生成を開始しています...');
-    const videoResponse = await createVideoFromImages(generatedImages, audioUrl, overallPrompt);
+    // 2. 各画像から動画クリップを生成
+    if (onVideoProgress) onVideoProgress('動画クリップの生成を開始しています...');
+    const generatedMedia = await generateClipsInParallel(
+      generatedImages,
+      analyses,
+      { styleBible: project.styleBible, projectId: project.id, signal },
+      onClipProgress,
+      onMediaUpdate
+    );
     
-    if (videoResponse.state === 'failed') {
-      throw new Error(`動画生成に失敗しました: ${videoResponse.failure_reason}`);
+    if (!generatedMedia.some(media => media.clipResponse?.state === 'completed')) {
+      const reason = generatedMedia.find(media => media.clipResponse?.failure_reason)?.clipResponse?.failure_reason;
+      throw new Error(`動画生成に失敗しました: ${reason || '不明なエラー'}`);
     }
     
-    if (onVideoProgress) onVideoProgress('動画の生成が完了しました');
-    return videoResponse;
+    // 3. クリップを連結して元の音声を合成
+    // レンダリングに失敗しても生成済みのクリップは返す
+    if (onVideoProgress) onVideoProgress('最終動画をレンダリングしています...');
+    try {
+      const finalVideo = await renderFinalVideo(project.audioId, generatedMedia, {
+        crossfade: RENDER_CROSSFADE_SECONDS,
+        projectId: project.id,
+        signal
+      });
+      if (onVideoProgress) onVideoProgress('動画の生成が完了しました');
+      return { media: generatedMedia, finalVideo };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      console.error('レンダリングエラー:', error);
+      return {
+        media: generatedMedia,
+        renderError: error instanceof Error ? error.message : '不明なエラー'
+      };
+    }
   } catch (error) {
     console.error('生成フローエラー:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
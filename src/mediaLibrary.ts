@@ -0,0 +1,89 @@
+import type { LumaImageResponse, LumaVideoResponse } from './lumaGeneration';
+
+/**
+ * メディアライブラリに保存する素材の種類
+ */
+export type MediaAssetKind = 'image' | 'video' | 'thumbnail';
+
+/**
+ * メディアライブラリの素材と一緒に保存するメタデータ
+ */
+export interface MediaMetadata {
+  id: string;
+  projectId: string;
+  /** Lumaの生成ID */
+  lumaId: string;
+  kind: MediaAssetKind;
+  segmentIndex: number;
+  startTime: number;
+  endTime: number;
+  /** 生成に使ったプロンプト（サーバーが生成リクエストを記録している場合） */
+  prompt?: string;
+  model?: string;
+  /** ダウンロード元のLumaのURL */
+  sourceUrl: string;
+  fileName: string;
+  contentType: string;
+  archivedAt: string;
+}
+
+// メディアIDの形式（プロジェクトID.生成ID-種類）
+const MEDIA_ID_PATTERN = /^([0-9a-f-]+)\.([0-9A-Za-z-]+)-(image|video|thumbnail)$/;
+
+/**
+ * メディアライブラリの素材のIDを作成する
+ * @param projectId プロジェクトID
+ * @param lumaId Lumaの生成ID
+ * @param kind 素材の種類
+ * @returns メディアID
+ */
+export function createMediaId(projectId: string, lumaId: string, kind: MediaAssetKind): string {
+  return `${projectId}.${lumaId}-${kind}`;
+}
+
+/**
+ * メディアIDをプロジェクトIDと生成ID、種類に分解する
+ * @param id メディアID
+ * @returns 分解した値。不正な場合はnull
+ */
+export function parseMediaId(id: string): { projectId: string; lumaId: string; kind: MediaAssetKind } | null {
+  const match = id.match(MEDIA_ID_PATTERN);
+  return match ? { projectId: match[1], lumaId: match[2], kind: match[3] as MediaAssetKind } : null;
+}
+
+/**
+ * メディアライブラリの素材のURLを取得する
+ * @param projectId プロジェクトID
+ * @param lumaId Lumaの生成ID
+ * @param kind 素材の種類
+ * @returns 素材のURL（まだ保存されていない場合はサーバーがその場でダウンロードする）
+ */
+export function getMediaUrl(projectId: string, lumaId: string, kind: MediaAssetKind): string {
+  return `/api/media/${encodeURIComponent(createMediaId(projectId, lumaId, kind))}`;
+}
+
+/**
+ * 完了した画像をメディアライブラリから表示するURLを取得する
+ * @param projectId プロジェクトID（ない場合は生成結果のURLを使う）
+ * @param response 画像の生成結果
+ * @returns 画像のURL。完了していない場合はundefined
+ */
+export function getLibraryImageUrl(projectId: string | undefined, response: LumaImageResponse | undefined): string | undefined {
+  if (response?.state !== 'completed' || !response.assets) {
+    return undefined;
+  }
+  return projectId ? getMediaUrl(projectId, response.id, 'image') : response.localAssets?.image ?? response.assets.image;
+}
+
+/**
+ * 完了したクリップをメディアライブラリから再生するURLを取得する
+ * @param projectId プロジェクトID（ない場合は生成結果のURLを使う）
+ * @param response 動画の生成結果
+ * @returns 動画のURL。完了していない場合はundefined
+ */
+export function getLibraryVideoUrl(projectId: string | undefined, response: LumaVideoResponse | undefined): string | undefined {
+  if (response?.state !== 'completed' || !response.assets) {
+    return undefined;
+  }
+  return projectId ? getMediaUrl(projectId, response.id, 'video') : response.localAssets?.video ?? response.assets.video;
+}
@@ -0,0 +1,103 @@
+import type { LumaResponse } from './lumaGeneration';
+import type { Project, ProjectStage } from './projects';
+
+export type GenerationState = LumaResponse['state'];
+
+/**
+ * サーバーからSSEで配信されるプロジェクトのイベント
+ */
+export type ProjectEvent =
+  | { type: 'stage'; stage: ProjectStage }
+  | { type: 'segments'; statuses: SegmentStatus[] }
+  | { type: 'segment-analyzed'; segmentIndex: number }
+  | { type: 'image'; segmentIndex: number; id: string; state: GenerationState; failure_reason?: string }
+  | { type: 'clip'; segmentIndex: number; id: string; state: GenerationState; failure_reason?: string }
+  | { type: 'render'; percent: number };
+
+/**
+ * ステータスグリッドに表示するセグメントごとの状態
+ */
+export interface SegmentStatus {
+  analyzed: boolean;
+  image?: GenerationState;
+  clip?: GenerationState;
+  /** 失敗した場合の理由 */
+  failureReason?: string;
+}
+
+/**
+ * 保存されているプロジェクトからセグメントごとの状態を作成する
+ * @param project プロジェクト
+ * @returns セグメントごとの状態
+ */
+export function createSegmentStatuses(project: Project): SegmentStatus[] {
+  return project.segments.map((_, index) => {
+    const media = project.media.find(item => item.segmentIndex === index);
+    return {
+      analyzed: Boolean(project.analyses[index]),
+      image: media?.imageResponse.state,
+      clip: media?.clipResponse?.state,
+      failureReason: media?.clipResponse?.failure_reason ?? media?.imageResponse.failure_reason
+    };
+  });
+}
+
+/**
+ * イベントをセグメントごとの状態に反映する
+ * @param statuses 現在の状態
+ * @param event 受信したイベント
+ * @returns 更新後の状態
+ */
+export function applyProjectEvent(statuses: SegmentStatus[], event: ProjectEvent): SegmentStatus[] {
+  switch (event.type) {
+    case 'segments':
+      return event.statuses;
+    case 'segment-analyzed':
+    case 'image':
+    case 'clip': {
+      const next = [...statuses];
+      while (next.length <= event.segmentIndex) {
+        next.push({ analyzed: false });
+      }
+      const current = next[event.segmentIndex];
+      if (event.type === 'segment-analyzed') {
+        next[event.segmentIndex] = { ...current, analyzed: true };
+      } else {
+        next[event.segmentIndex] = {
+          ...current,
+          analyzed: true,
+          [event.type]: event.state,
+          failureReason: event.state === 'failed' ? event.failure_reason : current.failureReason
+        };
+      }
+      return next;
+    }
+    default:
+      return statuses;
+  }
+}
+
+/**
+ * プロジェクトのイベントストリームを購読する
+ * 接続が切れた場合はEventSourceが自動的に再接続する
+ * @param projectId プロジェクトID
+ * @param onEvent イベントを受け取るコールバック
+ * @returns 購読を解除する関数
+ */
+export function subscribeProjectEvents(projectId: string, onEvent: (event: ProjectEvent) => void): () => void {
+  const source = new EventSource(`/api/projects/${encodeURIComponent(projectId)}/events`);
+
+  source.onmessage = (message) => {
+    try {
+      onEvent(JSON.parse(message.data) as ProjectEvent);
+    } catch (error) {
+      console.warn('プロジェクトイベントのパースに失敗:', error);
+    }
+  };
+
+  source.onerror = () => {
+    console.warn('プロジェクトイベントの接続が切れました。再接続します...');
+  };
+
+  return () => source.close();
+}
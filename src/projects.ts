@@ -0,0 +1,305 @@
+import type { SegmentAnalysis, SegmentationOptions } from './audioAnalysis';
+import type { SegmentBoundary } from './audioStructure';
+import type { GeneratedMedia } from './lumaGeneration';
+import type { ProviderSetName } from './providers';
+import type { StyleBible } from './styleBible';
+import type { FinalRender } from './videoRender';
+
+/**
+ * パイプラインの進行段階
+ */
+export type ProjectStage =
+  | 'created'
+  | 'analyzing'
+  | 'analyzed'
+  | 'generating'
+  | 'completed'
+  | 'failed'
+  | 'canceled';
+
+export interface Project {
+  id: string;
+  /** 元の音声ファイル名 */
+  audioName: string;
+  /** サーバーに保存した音声のID */
+  audioId: string;
+  segmentation: SegmentationOptions;
+  stage: ProjectStage;
+  /** 楽曲全体のスタイルバイブル（セグメントの分析前に作成する） */
+  styleBible?: StyleBible;
+  /** 隣り合うセグメントの見た目をどれだけ揃えるか（0〜1） */
+  continuityStrength?: number;
+  /** 分析と生成に使う提供元の組み合わせ（省略時はGemini + Luma） */
+  provider?: ProviderSetName;
+  /** Luma APIの生成に使える費用の上限（USD、概算）。超える生成はサーバーが拒否する */
+  budget?: number;
+  /** サーバーが記録したLuma APIの生成の概算費用の合計（USD） */
+  spent?: number;
+  /** セグメント境界（分析前に確定する） */
+  segments: SegmentBoundary[];
+  /** セグメントごとの分析結果（未分析のセグメントはnull） */
+  analyses: (SegmentAnalysis | null)[];
+  /** セグメントごとの画像とクリップ（Lumaの生成IDを含む） */
+  media: GeneratedMedia[];
+  finalVideo?: FinalRender;
+  renderError?: string;
+  /** パイプラインが失敗した場合のエラー */
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 最終動画のレンダリングの状態
+ */
+export type ProjectRenderStatus = 'none' | 'rendered' | 'failed';
+
+/**
+ * プロジェクトの一覧に表示する概要
+ */
+export interface ProjectSummary {
+  id: string;
+  audioName: string;
+  stage: ProjectStage;
+  provider?: ProviderSetName;
+  segmentCount: number;
+  /** 先頭のセグメントの画像（メディアライブラリのURL） */
+  thumbnails: string[];
+  renderStatus: ProjectRenderStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * 更新できるプロジェクトのフィールド（nullを指定したフィールドは削除する）
+ */
+export interface ProjectUpdate {
+  stage?: ProjectStage;
+  styleBible?: StyleBible | null;
+  continuityStrength?: number | null;
+  budget?: number | null;
+  segments?: SegmentBoundary[];
+  analyses?: (SegmentAnalysis | null)[];
+  media?: GeneratedMedia[];
+  finalVideo?: FinalRender | null;
+  renderError?: string | null;
+  error?: string | null;
+}
+
+// 再読み込み後に再開するプロジェクトのIDを保持するURLパラメータ
+const PROJECT_QUERY_PARAM = 'project';
+
+/**
+ * APIのエラーレスポンスからメッセージを取り出す
+ * @param response fetchのレスポンス
+ * @param fallback デフォルトのメッセージ
+ * @returns エラーメッセージ
+ */
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (jsonError) {
+    return `${fallback} (${response.status}: ${response.statusText})`;
+  }
+}
+
+/**
+ * プロジェクトAPIにJSONを送信する
+ * @param path APIのパス
+ * @param method HTTPメソッド
+ * @param body 送信するデータ
+ * @param fallback エラー時のデフォルトメッセージ
+ * @returns 更新後のプロジェクト
+ */
+async function sendProjectRequest(path: string, method: string, body: unknown, fallback: string): Promise<Project> {
+  const response = await fetch(path, {
+    method,
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, fallback));
+  }
+
+  return await response.json();
+}
+
+/**
+ * プロジェクトを作成する
+ * @param audioName 元の音声ファイル名
+ * @param audioId サーバーに保存した音声のID
+ * @param segmentation 分割方法
+ * @param continuityStrength 連続性の強さ
+ * @param provider 分析と生成に使う提供元の組み合わせ
+ * @returns 作成したプロジェクト
+ */
+export async function createProject(
+  audioName: string,
+  audioId: string,
+  segmentation: SegmentationOptions,
+  continuityStrength?: number,
+  provider?: ProviderSetName
+): Promise<Project> {
+  return sendProjectRequest('/api/projects', 'POST', {
+    audioName,
+    audioId,
+    segmentation,
+    continuityStrength,
+    provider
+  }, 'プロジェクトの作成に失敗しました');
+}
+
+/**
+ * プロジェクトを取得する
+ * @param id プロジェクトID
+ * @returns プロジェクト
+ */
+export async function fetchProject(id: string): Promise<Project> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`);
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'プロジェクトの取得に失敗しました'));
+  }
+
+  return await response.json();
+}
+
+/**
+ * 保存されているプロジェクトの概要を新しい順に取得する
+ * @returns プロジェクトの概要の一覧
+ */
+export async function fetchProjectSummaries(): Promise<ProjectSummary[]> {
+  const response = await fetch('/api/projects');
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'プロジェクトの一覧の取得に失敗しました'));
+  }
+
+  return await response.json();
+}
+
+/**
+ * プロジェクトを削除する（メディアライブラリの素材とLumaの生成も削除される）
+ * @param id プロジェクトID
+ */
+export async function deleteProject(id: string): Promise<void> {
+  const response = await fetch(`/api/projects/${encodeURIComponent(id)}`, { method: 'DELETE' });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, 'プロジェクトの削除に失敗しました'));
+  }
+}
+
+/**
+ * プロジェクトを更新する
+ * @param id プロジェクトID
+ * @param update 更新するフィールド
+ * @returns 更新後のプロジェクト
+ */
+export async function updateProject(id: string, update: ProjectUpdate): Promise<Project> {
+  return sendProjectRequest(
+    `/api/projects/${encodeURIComponent(id)}`,
+    'PATCH',
+    update,
+    'プロジェクトの保存に失敗しました'
+  );
+}
+
+/**
+ * セグメントの分析結果を保存する
+ * 保存に失敗してもパイプラインは止めない
+ * @param id プロジェクトID
+ * @param index セグメントのインデックス
+ * @param analysis 分析結果
+ */
+export async function saveSegmentAnalysis(id: string, index: number, analysis: SegmentAnalysis): Promise<void> {
+  try {
+    await sendProjectRequest(
+      `/api/projects/${encodeURIComponent(id)}/analyses/${index}`,
+      'PUT',
+      analysis,
+      '分析結果の保存に失敗しました'
+    );
+  } catch (error) {
+    console.warn(`セグメント ${index} の分析結果を保存できませんでした:`, error);
+  }
+}
+
+/**
+ * セグメントの画像とクリップの状態を保存する
+ * 保存に失敗してもパイプラインは止めない
+ * @param id プロジェクトID
+ * @param media 画像とクリップの生成結果
+ */
+export async function saveGeneratedMedia(id: string, media: GeneratedMedia): Promise<void> {
+  try {
+    await sendProjectRequest(
+      `/api/projects/${encodeURIComponent(id)}/media/${media.segmentIndex}`,
+      'PUT',
+      media,
+      '生成結果の保存に失敗しました'
+    );
+  } catch (error) {
+    console.warn(`セグメント ${media.segmentIndex} の生成結果を保存できませんでした:`, error);
+  }
+}
+
+/**
+ * プロジェクトの音声のURLを取得する
+ * @param id プロジェクトID
+ * @returns 音声のURL
+ */
+export function getProjectAudioUrl(id: string): string {
+  return `/api/projects/${encodeURIComponent(id)}/audio`;
+}
+
+/**
+ * プロジェクトの音声をダウンロードする（再読み込み後の分析再開用）
+ * @param project プロジェクト
+ * @returns 音声ファイル
+ */
+export async function fetchProjectAudio(project: Project): Promise<File> {
+  const response = await fetch(getProjectAudioUrl(project.id));
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, '音声の取得に失敗しました'));
+  }
+
+  const blob = await response.blob();
+  return new File([blob], project.audioName, { type: blob.type });
+}
+
+/**
+ * URLから再開するプロジェクトのIDを取得する
+ * @returns プロジェクトID。指定されていない場合はnull
+ */
+export function getActiveProjectId(): string | null {
+  return new URLSearchParams(window.location.search).get(PROJECT_QUERY_PARAM);
+}
+
+/**
+ * 再読み込み後に再開できるよう、プロジェクトのIDをURLに記録する
+ * @param id プロジェクトID。nullの場合は削除する
+ */
+export function setActiveProjectId(id: string | null): void {
+  const url = new URL(window.location.href);
+  if (id) {
+    url.searchParams.set(PROJECT_QUERY_PARAM, id);
+  } else {
+    url.searchParams.delete(PROJECT_QUERY_PARAM);
+  }
+  window.history.replaceState(null, '', url);
+}
+
+/**
+ * 処理が途中で止まっているプロジェクトか
+ * @param project プロジェクト
+ * @returns 再開が必要な場合はtrue
+ */
+export function isProjectInProgress(project: Project): boolean {
+  return project.stage === 'analyzing' || project.stage === 'generating';
+}
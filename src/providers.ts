@@ -0,0 +1,23 @@
+/**
+ * 分析・画像生成・動画生成に使う提供元の組み合わせ（プロジェクトごとに選ぶ）
+ * - gemini-luma: Geminiで分析し、Lumaで画像とクリップを生成する
+ * - mock: APIキーやクレジットなしで動く、決まった結果を返すオフラインの提供元
+ */
+export type ProviderSetName = 'gemini-luma' | 'mock';
+
+// 提供元の組み合わせの表示名
+export const PROVIDER_SET_LABELS: Record<ProviderSetName, string> = {
+  'gemini-luma': 'Gemini + Luma',
+  mock: 'モック（オフライン・無料）'
+};
+
+export const DEFAULT_PROVIDER_SET: ProviderSetName = 'gemini-luma';
+
+/**
+ * 値が提供元の組み合わせの名前かどうかを検証する
+ * @param value 検証する値
+ * @returns 提供元の組み合わせの名前の場合はtrue
+ */
+export function isProviderSetName(value: unknown): value is ProviderSetName {
+  return typeof value === 'string' && Object.keys(PROVIDER_SET_LABELS).includes(value);
+}
@@ -1,9 +1,16 @@
 import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { createProxyMiddleware } from 'http-proxy-middleware';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
+import { analyzeRouter } from './routes/analyze.ts';
+import { cacheRouter } from './routes/cache.ts';
+import { imagesRouter } from './routes/images.ts';
+import { lumaRouter } from './routes/luma.ts';
+import { mediaRouter } from './routes/media.ts';
+import { projectsRouter } from './routes/projects.ts';
+import { renderRouter } from './routes/render.ts';
+import { videosRouter } from './routes/videos.ts';
 
 // ESMでの__dirnameの代替
 const __filename = fileURLToPath(import.meta.url);
@@ -15,115 +22,20 @@ const app = express();
 const PORT = process.env.PORT || 3001;
 
 app.use(cors());
-app.use(express.json());
 
-// エラーハンドリングミドルウェア
-const handleProxyError = (err, req, res, target) => {
-  console.error('プロキシエラー:', err);
-  res.status(500).json({
-    error: true,
-    message: `APIリクエストに失敗しました: ${err.message || 'Unknown error'}`,
-    code: err.code
-  });
-};
+// 音声データや大きなJSONを受け取るルートは独自のパーサーを持つため、共通のJSONパーサーより先に登録する
+app.use('/api/analyze', analyzeRouter);
+app.use('/api/render', renderRouter);
+app.use('/api/projects', projectsRouter);
 
-// Luma API用のプロキシエンドポイント
-app.use('/api/luma', (req, res, next) => {
-  console.log('Luma APIリクエスト:', {
-    method: req.method,
-    path: req.path,
-    body: req.body,
-    headers: req.headers
-  });
-  next();
-}, createProxyMiddleware({
-  target: 'https://api.lumalabs.ai',
-  changeOrigin: true,
-  pathRewrite: {
-    '^/api/luma': '/dream-machine/v1/generations'
-  },
-  onProxyReq: (proxyReq, req, res) => {
-    // リクエストヘッダーの設定
-    if (process.env.LUMA_API_KEY) {
-      proxyReq.setHeader('Authorization', `Bearer ${process.env.LUMA_API_KEY}`);
-      console.log('APIキーを設定:', process.env.LUMA_API_KEY.substring(0, 10) + '...');
-    } else {
-      console.error('APIキーが設定されていません');
-    }
-    proxyReq.setHeader('Content-Type', 'application/json');
-  },
-  onProxyRes: (proxyRes, req, res) => {
-    console.log('Luma API応答:', {
-      statusCode: proxyRes.statusCode,
-      statusMessage: proxyRes.statusMessage,
-      headers: proxyRes.headers
-    });
-    
-    // レスポンスボディを収集
-    let responseBody = '';
-    proxyRes.on('data', (chunk) => {
-      responseBody += chunk;
-    });
-    
-    proxyRes.on('end', () => {
-      try {
-        const parsedBody = JSON.parse(responseBody);
-        console.log('Luma API応答ボディ:', parsedBody);
-      } catch (e) {
-        console.log('Luma API応答ボディ (パース不可):', responseBody);
-      }
-    });
-  },
-  onError: handleProxyError
-}));
+app.use(express.json());
 
-// 特定のLuma生成IDの状態を取得するエンドポイント
-app.use('/api/luma/:id', (req, res, next) => {
-  console.log('Luma 生成ID取得リクエスト:', {
-    method: req.method,
-    path: req.path,
-    params: req.params,
-    headers: req.headers
-  });
-  next();
-}, createProxyMiddleware({
-  target: 'https://api.lumalabs.ai',
-  changeOrigin: true,
-  pathRewrite: (path, req) => {
-    const id = path.split('/').pop();
-    const newPath = `/dream-machine/v1/generations/${id}`;
-    console.log(`パスの書き換え: ${path} -> ${newPath}`);
-    return newPath;
-  },
-  onProxyReq: (proxyReq, req, res) => {
-    if (process.env.LUMA_API_KEY) {
-      proxyReq.setHeader('Authorization', `Bearer ${process.env.LUMA_API_KEY}`);
-    }
-    proxyReq.setHeader('Content-Type', 'application/json');
-  },
-  onProxyRes: (proxyRes, req, res) => {
-    console.log('Luma 生成ID応答:', {
-      statusCode: proxyRes.statusCode,
-      statusMessage: proxyRes.statusMessage
-    });
-    
-    // レスポンスボディを収集
-    let responseBody = '';
-    proxyRes.on('data', (chunk) => {
-      responseBody += chunk;
-    });
-    
-    proxyRes.on('end', () => {
-      try {
-        const parsedBody = JSON.parse(responseBody);
-        console.log('Luma 生成ID応答ボディ:', parsedBody);
-      } catch (e) {
-        console.log('Luma 生成ID応答ボディ (パース不可):', responseBody);
-      }
-    });
-  },
-  onError: handleProxyError
-}));
+// Gemini/Luma APIを呼び出すルート（APIキーはサーバーのみが保持する）
+app.use('/api/images', imagesRouter);
+app.use('/api/videos', videosRouter);
+app.use('/api/luma', lumaRouter);
+app.use('/api/cache', cacheRouter);
+app.use('/api/media', mediaRouter);
 
 // グローバルエラーハンドラー
 app.use((err, req, res, next) => {
@@ -0,0 +1,61 @@
+import { formatCost } from '../costEstimate.ts';
+import { LumaApiError } from './luma.ts';
+import { updateProject } from './projectStore.ts';
+
+/**
+ * プロジェクトの予算から生成の費用を確保する
+ * 上限を超える場合は記録せずにエラーにする（確認と記録は同じ書き込みキューで行うため、並列の生成でも上限を超えない）
+ * @param projectId プロジェクトID
+ * @param cost 生成の概算費用（USD）
+ */
+async function reserveBudget(projectId: string, cost: number): Promise<void> {
+  const project = await updateProject(projectId, (current) => {
+    const spent = current.spent ?? 0;
+    if (current.budget !== undefined && spent + cost > current.budget) {
+      throw new LumaApiError(
+        `予算の上限（${formatCost(current.budget)}）を超えるため中止しました（使用済み ${formatCost(spent)}、今回の概算 ${formatCost(cost)}）`,
+        402,
+        'budget_exceeded'
+      );
+    }
+    current.spent = spent + cost;
+  });
+  if (!project) {
+    throw new LumaApiError('プロジェクトが見つかりません', 404);
+  }
+}
+
+/**
+ * 生成を開始できなかった場合に確保した費用を戻す
+ * @param projectId プロジェクトID
+ * @param cost 生成の概算費用（USD）
+ */
+async function releaseBudget(projectId: string, cost: number): Promise<void> {
+  await updateProject(projectId, (current) => {
+    current.spent = Math.max(0, (current.spent ?? 0) - cost);
+  });
+}
+
+/**
+ * プロジェクトの予算の範囲で生成を開始する
+ * プロジェクトIDがない場合はどのプロジェクトの予算にも含めずに開始する
+ * @param projectId プロジェクトID
+ * @param cost 生成の概算費用（USD）
+ * @param start 生成を開始する処理
+ * @returns 生成を開始した結果
+ */
+export async function withinBudget<T>(projectId: string | undefined, cost: number, start: () => Promise<T>): Promise<T> {
+  if (!projectId) {
+    return start();
+  }
+
+  await reserveBudget(projectId, cost);
+  try {
+    return await start();
+  } catch (error) {
+    await releaseBudget(projectId, cost).catch(releaseError => {
+      console.warn('確保した予算を戻せませんでした:', releaseError);
+    });
+    throw error;
+  }
+}
@@ -0,0 +1,264 @@
+import { createHash, randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import type { LumaImageResponse, LumaResponse, LumaVideoResponse } from '../lumaGeneration.ts';
+import { DATA_DIR } from './render.ts';
+
+// 分析結果と生成結果のキャッシュ（同じ入力でGemini/Luma APIを再び呼び出さないようにする）
+export const CACHE_DIR = path.join(DATA_DIR, 'cache');
+const ANALYSIS_DIR = path.join(CACHE_DIR, 'analyses');
+const GENERATION_DIR = path.join(CACHE_DIR, 'generations');
+const REQUEST_DIR = path.join(CACHE_DIR, 'requests');
+const ASSET_DIR = path.join(CACHE_DIR, 'assets');
+
+// ダウンロードした素材を配信するパス
+export const CACHE_ASSET_PATH = '/api/cache/assets';
+
+// 素材のファイル名（内容のSHA-256と拡張子）
+const ASSET_NAME_PATTERN = /^[0-9a-f]{64}\.[a-z0-9]+$/;
+
+// キャッシュのファイル名に使えるID（キャッシュキーとLumaの生成ID）
+const CACHE_ID_PATTERN = /^[0-9A-Za-z-]+$/;
+
+// サーバーからのダウンロードを許可するLumaの素材の配信元（カンマ区切りで上書きできる）
+const LUMA_ASSET_HOSTS = (process.env.LUMA_ASSET_HOSTS || 'storage.cdn-luma.com')
+  .split(',')
+  .map(host => host.trim().toLowerCase())
+  .filter(host => host.length > 0);
+
+/**
+ * キーの順序に左右されないJSON文字列にする
+ * @param value 変換する値
+ * @returns JSON文字列
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * データのSHA-256を求める
+ * @param data データ
+ * @returns 16進数のハッシュ
+ */
+export function hashContent(data: Buffer | string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * 入力からキャッシュキーを作成する
+ * @param parts キャッシュキーに含める値（音声のハッシュ、セグメントの範囲、プロンプト、モデルなど）
+ * @returns キャッシュキー
+ */
+export function createCacheKey(parts: Record<string, unknown>): string {
+  return hashContent(stableStringify(parts));
+}
+
+/**
+ * キャッシュのJSONを読み込む
+ * @param directory 保存先のディレクトリ
+ * @param id キャッシュキーまたは生成ID
+ * @returns 保存されている値。ない場合はnull
+ */
+async function readEntry<T>(directory: string, id: string): Promise<T | null> {
+  if (!CACHE_ID_PATTERN.test(id)) {
+    return null;
+  }
+  try {
+    return JSON.parse(await readFile(path.join(directory, `${id}.json`), 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * キャッシュのJSONを一時ファイル経由で書き込む
+ * @param directory 保存先のディレクトリ
+ * @param id キャッシュキーまたは生成ID
+ * @param value 保存する値
+ */
+async function writeEntry(directory: string, id: string, value: unknown): Promise<void> {
+  if (!CACHE_ID_PATTERN.test(id)) {
+    return;
+  }
+  await mkdir(directory, { recursive: true });
+  const entryPath = path.join(directory, `${id}.json`);
+  const tempPath = `${entryPath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, JSON.stringify(value, null, 2));
+  await rename(tempPath, entryPath);
+}
+
+/**
+ * キャッシュされた分析結果を取得する
+ * @param key キャッシュキー
+ * @returns 分析結果。ない場合はnull
+ */
+export function getCachedAnalysis<T>(key: string): Promise<T | null> {
+  return readEntry<T>(ANALYSIS_DIR, key);
+}
+
+/**
+ * 分析結果をキャッシュする
+ * @param key キャッシュキー
+ * @param analysis 分析結果
+ */
+export async function setCachedAnalysis<T>(key: string, analysis: T): Promise<void> {
+  await writeEntry(ANALYSIS_DIR, key, analysis);
+}
+
+/**
+ * 同じリクエストで完了した生成結果を取得する
+ * @param key 生成リクエストのキャッシュキー
+ * @returns ダウンロード済みの素材を含む生成結果。ない場合はnull
+ */
+export async function getCachedGeneration<T extends LumaResponse>(key: string): Promise<T | null> {
+  const request = await readEntry<{ id: string }>(REQUEST_DIR, key);
+  return request ? getCachedGenerationById<T>(request.id) : null;
+}
+
+/**
+ * 生成IDから完了した生成結果を取得する
+ * @param id 生成ID
+ * @returns ダウンロード済みの素材を含む生成結果。ない場合はnull
+ */
+export function getCachedGenerationById<T extends LumaResponse>(id: string): Promise<T | null> {
+  return readEntry<T>(GENERATION_DIR, id);
+}
+
+/**
+ * 開始した生成IDをリクエストのキャッシュキーに対応付ける（完了後に同じリクエストで再利用する）
+ * @param key 生成リクエストのキャッシュキー
+ * @param id 生成ID
+ */
+export async function rememberGenerationRequest(key: string, id: string): Promise<void> {
+  await writeEntry(REQUEST_DIR, key, { id });
+}
+
+/**
+ * キャッシュが参照している生成IDを取得する（完了した生成と、リクエストに対応付けた生成）
+ * キャッシュの生成は別のプロジェクトにも返されるため、プロジェクトを削除しても提供元から削除しない
+ * @returns 生成IDの集合
+ */
+export async function getCachedGenerationIds(): Promise<Set<string>> {
+  const listEntries = async (directory: string) => (await readdir(directory).catch(() => [] as string[]))
+    .filter(file => file.endsWith('.json'))
+    .map(file => path.basename(file, '.json'));
+
+  const ids = new Set(await listEntries(GENERATION_DIR));
+  for (const key of await listEntries(REQUEST_DIR)) {
+    const request = await readEntry<{ id: string }>(REQUEST_DIR, key);
+    if (request) ids.add(request.id);
+  }
+  return ids;
+}
+
+/**
+ * 素材を内容のハッシュをファイル名にして保存する
+ * @param data 素材のデータ
+ * @param extension 拡張子（.jpg など）
+ * @returns 保存した素材を配信するURL
+ */
+export async function storeAsset(data: Buffer, extension: string): Promise<string> {
+  const name = `${hashContent(data)}${extension}`;
+  const assetPath = path.join(ASSET_DIR, name);
+
+  try {
+    await stat(assetPath);
+  } catch {
+    await mkdir(ASSET_DIR, { recursive: true });
+    const tempPath = `${assetPath}.${randomUUID()}.tmp`;
+    await writeFile(tempPath, data);
+    await rename(tempPath, assetPath);
+  }
+  return `${CACHE_ASSET_PATH}/${name}`;
+}
+
+/**
+ * 素材をダウンロードし、内容のハッシュをファイル名にして保存する
+ * @param url LumaのURL
+ * @param fallbackExtension URLから拡張子が分からない場合の拡張子
+ * @returns 保存した素材を配信するURL
+ */
+async function downloadAsset(url: string, fallbackExtension: string): Promise<string> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`素材のダウンロードに失敗しました (${response.status}: ${url})`);
+  }
+  const data = Buffer.from(await response.arrayBuffer());
+  const extension = path.extname(new URL(url).pathname).toLowerCase().replace(/[^.a-z0-9]/g, '') || fallbackExtension;
+  return storeAsset(data, extension);
+}
+
+/**
+ * 完了した生成の素材をダウンロードしてキャッシュする
+ * Lumaの素材URLは期限切れになるため、費用を払って生成したものは手元に残す
+ * 素材をサーバーで作成した生成（モックの提供元）はダウンロードせずにそのまま記録する
+ * @param response 完了した生成結果
+ * @returns ダウンロードした素材のURLを加えた生成結果（ダウンロードに失敗した場合はそのまま）
+ */
+export async function cacheCompletedGeneration(response: LumaImageResponse): Promise<LumaImageResponse>;
+export async function cacheCompletedGeneration(response: LumaVideoResponse): Promise<LumaVideoResponse>;
+export async function cacheCompletedGeneration(response: LumaResponse): Promise<LumaResponse> {
+  if (response.state !== 'completed' || !response.assets) {
+    return response;
+  }
+
+  try {
+    let cached: LumaResponse;
+    if (response.localAssets) {
+      cached = response;
+    } else if (response.type === 'image') {
+      cached = { ...response, localAssets: { image: await downloadAsset(response.assets.image, '.jpg') } };
+    } else {
+      const { video, thumbnail } = response.assets;
+      cached = {
+        ...response,
+        localAssets: {
+          video: await downloadAsset(video, '.mp4'),
+          ...(thumbnail ? { thumbnail: await downloadAsset(thumbnail, '.jpg') } : {})
+        }
+      };
+    }
+    await writeEntry(GENERATION_DIR, response.id, cached);
+    return cached;
+  } catch (error) {
+    console.warn('生成結果のキャッシュに失敗:', response.id, error);
+    return response;
+  }
+}
+
+/**
+ * 配信URLまたはファイル名から、ダウンロード済みの素材のパスを取得する
+ * @param value 配信URL（/api/cache/assets/...）またはファイル名
+ * @returns 素材のパス。不正な場合はnull
+ */
+export function resolveCachedAsset(value: string): string | null {
+  const name = value.startsWith(`${CACHE_ASSET_PATH}/`) ? value.slice(CACHE_ASSET_PATH.length + 1) : value;
+  if (!ASSET_NAME_PATTERN.test(name)) {
+    return null;
+  }
+  return path.join(ASSET_DIR, name);
+}
+
+/**
+ * Lumaの素材の配信元のURLかどうか（サーバーから任意のホストにリクエストさせないために確認する）
+ * @param value クライアントが指定したURL
+ * @returns 許可したホストのhttpsのURLの場合はtrue
+ */
+export function isLumaAssetUrl(value: string): boolean {
+  let parsed: URL;
+  try {
+    parsed = new URL(value);
+  } catch {
+    return false;
+  }
+  return parsed.protocol === 'https:' && LUMA_ASSET_HOSTS.includes(parsed.hostname.toLowerCase());
+}
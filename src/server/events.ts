@@ -0,0 +1,54 @@
+import { EventEmitter } from 'events';
+import type { LumaResponse } from '../lumaGeneration.ts';
+import type { ProjectEvent } from '../projectEvents.ts';
+
+// プロジェクトごとのイベント（SSEで配信する）
+const projectEmitter = new EventEmitter();
+// Luma APIの生成状態の変化（生成IDからプロジェクトのセグメントに対応付けて配信する）
+const generationEmitter = new EventEmitter();
+
+// SSEの接続数だけリスナーが増えるため上限を外す
+projectEmitter.setMaxListeners(0);
+generationEmitter.setMaxListeners(0);
+
+/**
+ * プロジェクトのイベントを配信する
+ * @param projectId プロジェクトID
+ * @param event イベント
+ */
+export function publishProjectEvent(projectId: string, event: ProjectEvent): void {
+  projectEmitter.emit(projectId, event);
+}
+
+/**
+ * プロジェクトのイベントを購読する
+ * @param projectId プロジェクトID
+ * @param listener イベントを受け取る関数
+ * @returns 購読を解除する関数
+ */
+export function subscribeProjectEvents(projectId: string, listener: (event: ProjectEvent) => void): () => void {
+  projectEmitter.on(projectId, listener);
+  return () => {
+    projectEmitter.off(projectId, listener);
+  };
+}
+
+/**
+ * Luma APIから取得した生成状態を配信する
+ * @param response 生成結果
+ */
+export function publishGenerationStatus(response: LumaResponse): void {
+  generationEmitter.emit('status', response);
+}
+
+/**
+ * Luma APIの生成状態を購読する
+ * @param listener 生成結果を受け取る関数
+ * @returns 購読を解除する関数
+ */
+export function subscribeGenerationStatus(listener: (response: LumaResponse) => void): () => void {
+  generationEmitter.on('status', listener);
+  return () => {
+    generationEmitter.off('status', listener);
+  };
+}
@@ -0,0 +1,332 @@
+import { GoogleGenerativeAI, ObjectSchema, Part, SchemaType } from '@google/generative-ai';
+import { GoogleAIFileManager } from '@google/generative-ai/server';
+import { AudioFeatures, formatFeaturesForPrompt } from '../audioFeatures.ts';
+import { SECTION_LABEL_NAMES, SectionLabel } from '../audioStructure.ts';
+import { GEMINI_CALL_COST, GEMINI_CALLS_PER_SEGMENT } from '../costEstimate.ts';
+import type { StyleBible } from '../styleBible.ts';
+import { generateStructuredContent } from './geminiSchema.ts';
+import type { AnalysisProvider } from './providers/types.ts';
+
+// 音声入力に対応したGeminiモデル
+export const AUDIO_MODEL = 'gemini-1.5-flash';
+
+// インラインで送信できる音声サイズの上限（リクエスト全体の上限20MBからbase64の膨張分を差し引く）
+const INLINE_AUDIO_LIMIT = 14 * 1024 * 1024;
+
+// 1セグメントとして受け付ける音声サイズの上限
+export const MAX_SEGMENT_AUDIO_BYTES = 100 * 1024 * 1024;
+
+export interface SegmentAudioInput {
+  audio: Buffer;
+  mimeType: string;
+  startTime: number;
+  endTime: number;
+  features?: AudioFeatures;
+  section?: SectionLabel;
+  /** 楽曲全体のスタイルバイブル（セグメントのプロンプトをこれに沿わせる） */
+  styleBible?: StyleBible;
+  /** 直前のセグメントの分析結果（連続性モードで前のシーンから引き継ぐ） */
+  previousSegment?: SegmentAudioAnalysis;
+  /** 直前のセグメントをどれだけ引き継ぐか（0〜1。0の場合は独立に分析する） */
+  continuityStrength?: number;
+}
+
+export interface TrackAudioInput {
+  audio: Buffer;
+  mimeType: string;
+  fileName: string;
+}
+
+export interface SegmentAudioAnalysis {
+  story: string;
+  visual: string;
+  emotion: string;
+  imagePrompt: string;
+}
+
+// セグメントの分析結果のスキーマ（JSONモードの応答形式と、応答の検証に使う）
+const SEGMENT_ANALYSIS_SCHEMA: ObjectSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    story: { type: SchemaType.STRING, description: 'ストーリー/シーン描写を日本語で200文字程度で' },
+    visual: { type: SchemaType.STRING, description: 'ビジュアルイメージを日本語で200文字程度で' },
+    emotion: { type: SchemaType.STRING, description: '感情表現を日本語で200文字程度で' }
+  },
+  required: ['story', 'visual', 'emotion']
+};
+
+// 画像生成プロンプトのスキーマ
+const IMAGE_PROMPT_SCHEMA: ObjectSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    imagePrompt: { type: SchemaType.STRING, description: '画像生成AI向けの英語プロンプト' }
+  },
+  required: ['imagePrompt']
+};
+
+// スタイルバイブルのスキーマ
+const STYLE_BIBLE_SCHEMA: ObjectSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    worldview: { type: SchemaType.STRING, description: '楽曲全体の世界観・物語を日本語で200文字程度で' },
+    palette: {
+      type: SchemaType.ARRAY,
+      description: '色彩パレットを英語で（例: deep teal, amber glow）',
+      items: { type: SchemaType.STRING },
+      minItems: 3,
+      maxItems: 6
+    },
+    motifs: {
+      type: SchemaType.ARRAY,
+      description: '繰り返し登場する人物やモチーフを英語で、外見が一貫するよう具体的に',
+      items: { type: SchemaType.STRING },
+      minItems: 1,
+      maxItems: 4
+    },
+    camera: { type: SchemaType.STRING, description: 'カメラワークと構図の言語を英語で（例: slow dolly-in, wide anamorphic framing, handheld close-ups）' },
+    era: { type: SchemaType.STRING, description: '時代設定を英語で（例: near-future 2080s, 1970s Tokyo）' },
+    medium: { type: SchemaType.STRING, description: '表現媒体を英語で（例: 35mm film photography, cel-shaded anime, watercolor illustration）' }
+  },
+  required: ['worldview', 'palette', 'motifs', 'camera', 'era', 'medium']
+};
+
+/**
+ * 音声サイズが上限を超えた場合のエラー
+ */
+export class AudioTooLargeError extends Error {
+  constructor(size: number) {
+    super(`音声セグメントが大きすぎます (${Math.round(size / 1024 / 1024)}MB)。セグメント長を短くしてください。`);
+    this.name = 'AudioTooLargeError';
+  }
+}
+
+function getApiKey(): string {
+  const apiKey = process.env.GEMINI_API_KEY;
+  if (!apiKey) {
+    throw new Error('GEMINI_API_KEYが設定されていません');
+  }
+  return apiKey;
+}
+
+/**
+ * 秒数を「分:秒」形式にフォーマット
+ * @param seconds 秒数
+ * @returns フォーマットされた時間文字列
+ */
+function formatTime(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+  return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
+}
+
+/**
+ * 連続性の強さに応じて、直前のセグメントとのつながり方の指示を作成する
+ * @param strength 連続性の強さ（0〜1）
+ * @returns プロンプトに含める指示
+ */
+function describeContinuity(strength: number): string {
+  if (strength >= 0.67) {
+    return '同じ場所・人物・色調・時間帯を保ち、変化は音楽の変化に必要な最小限にとどめてください。';
+  }
+  if (strength >= 0.34) {
+    return '人物やモチーフ、色調を引き継ぎつつ、音楽の変化に合わせてシーンを自然に展開させてください。';
+  }
+  return '前のシーンとの関連を少し残しつつ、音楽の変化に合わせて自由に展開させてください。';
+}
+
+/**
+ * 音声データをGeminiに渡せるPartに変換する
+ * インライン上限を超える場合はFile APIでアップロードする
+ * @param audio 音声データ
+ * @param mimeType 音声のMIMEタイプ
+ * @param displayName File APIでの表示名
+ * @returns 音声Partと後片付け用の関数
+ */
+async function createAudioPart(
+  audio: Buffer,
+  mimeType: string,
+  displayName: string
+): Promise<{ part: Part; cleanup: () => Promise<void> }> {
+  if (audio.length <= INLINE_AUDIO_LIMIT) {
+    return {
+      part: {
+        inlineData: {
+          mimeType,
+          data: audio.toString('base64')
+        }
+      },
+      cleanup: async () => {}
+    };
+  }
+
+  const fileManager = new GoogleAIFileManager(getApiKey());
+  const upload = await fileManager.uploadFile(audio, {
+    mimeType,
+    displayName
+  });
+  console.log('Gemini File APIにアップロード:', upload.file.name);
+
+  return {
+    part: {
+      fileData: {
+        mimeType: upload.file.mimeType,
+        fileUri: upload.file.uri
+      }
+    },
+    cleanup: async () => {
+      try {
+        await fileManager.deleteFile(upload.file.name);
+      } catch (error) {
+        console.warn('アップロードした音声の削除に失敗:', error);
+      }
+    }
+  };
+}
+
+/**
+ * 音声セグメントそのものをGeminiに渡して分析する
+ * @param input 音声セグメント
+ * @returns セグメントの分析結果
+ */
+export async function analyzeSegmentAudio(input: SegmentAudioInput): Promise<SegmentAudioAnalysis> {
+  const genAI = new GoogleGenerativeAI(getApiKey());
+  const model = genAI.getGenerativeModel({ model: AUDIO_MODEL });
+
+  const startTimeFormatted = formatTime(input.startTime);
+  const endTimeFormatted = formatTime(input.endTime);
+
+  // 信号処理で計測した特徴量と楽曲構造（あれば）をプロンプトに含める
+  const featuresSection = [
+    input.section && SECTION_LABEL_NAMES[input.section]
+      ? `\nこのセグメントは楽曲構造上「${SECTION_LABEL_NAMES[input.section]}」と推定されています。\n`
+      : '',
+    input.features
+      ? `\n信号処理で計測したこのセグメントの特徴量です。分析の裏付けとして参考にしてください：\n${formatFeaturesForPrompt(input.features)}\n`
+      : ''
+  ].join('');
+
+  // 楽曲全体のスタイルバイブル（あれば）に沿って分析・プロンプトを作成させる
+  const styleSection = input.styleBible
+    ? `\n楽曲全体のスタイルバイブルです。このセグメントもこの世界観の一部として解釈し、色彩・モチーフ・時代・表現媒体を揃えてください：\n${JSON.stringify(input.styleBible, null, 2)}\n`
+    : '';
+
+  // 連続性モードでは直前のセグメントの分析結果から引き継がせる
+  const continuityStrength = input.continuityStrength ?? 0;
+  const continuitySection = input.previousSegment && continuityStrength > 0
+    ? `\n直前のセグメントの分析結果です。このセグメントは映像として直前のシーンから続きます。${describeContinuity(continuityStrength)}\n${JSON.stringify(input.previousSegment, null, 2)}\n`
+    : '';
+
+  const analysisPrompt = `
+添付した音声は楽曲の${startTimeFormatted}～${endTimeFormatted}の部分です。実際に聴こえる音（楽器、リズム、テンポ、声、音色、ダイナミクス）をもとに、このセグメントの世界観を分析してください。
+${featuresSection}${styleSection}${continuitySection}
+以下の3つの観点から分析して、それぞれ日本語で200文字程度で説明してください：
+
+1. ストーリー/シーン描写：この音楽が表現している物語や情景
+2. ビジュアルイメージ：色彩、光、空間、質感などの視覚的な要素
+3. 感情表現：この音楽が喚起する感情や心理状態
+
+注意：
+- 各説明は200文字程度にしてください
+- 改行を含めないでください`;
+
+  if (input.audio.length > MAX_SEGMENT_AUDIO_BYTES) {
+    throw new AudioTooLargeError(input.audio.length);
+  }
+  const { part: audioPart, cleanup } = await createAudioPart(
+    input.audio,
+    input.mimeType,
+    `segment-${input.startTime}-${input.endTime}`
+  );
+
+  let analysis: Pick<SegmentAudioAnalysis, 'story' | 'visual' | 'emotion'>;
+  try {
+    analysis = await generateStructuredContent(model, [audioPart, { text: analysisPrompt }], SEGMENT_ANALYSIS_SCHEMA);
+  } finally {
+    await cleanup();
+  }
+
+  // 画像生成プロンプトの作成
+  const promptGenerationPrompt = `
+以下の分析結果から、画像生成AI向けの英語プロンプトを生成してください。
+この音楽セグメントは${startTimeFormatted}～${endTimeFormatted}の部分です。
+
+分析結果:
+${JSON.stringify(analysis, null, 2)}
+${featuresSection}${styleSection}${continuitySection}
+以下の要素を含む、自然な英語の文章を1つ作成してください：
+- 色合い
+- 風景/シーン
+- 感情
+- 光の強さや陰影
+${input.features ? `
+特徴量を以下の方針で映像に反映してください：
+- スペクトル重心が高いほど明るく鮮やかな色調、低いほど暗く深い色調
+- テンポやオンセット密度が高いほど動きのある構図、低いほど静的な構図
+- 長調は暖かい光、短調は冷たい光や影を強調
+` : ''}${input.styleBible ? `
+スタイルバイブルのモチーフや人物が登場する場合は、同じ外見の描写を使ってください。
+` : ''}${continuitySection ? `
+直前のセグメントの画像プロンプトと同じ人物・場所が登場する場合は、同じ言い回しで描写してください。
+` : ''}`;
+
+  const { imagePrompt } = await generateStructuredContent<Pick<SegmentAudioAnalysis, 'imagePrompt'>>(
+    model,
+    [{ text: promptGenerationPrompt }],
+    IMAGE_PROMPT_SCHEMA
+  );
+
+  return {
+    story: analysis.story,
+    visual: analysis.visual,
+    emotion: analysis.emotion,
+    imagePrompt
+  };
+}
+
+/**
+ * 楽曲全体の音声からスタイルバイブルを作成する
+ * 全セグメントに共通する色彩、モチーフ、カメラワーク、時代、表現媒体を決める
+ * @param input 楽曲全体の音声
+ * @returns スタイルバイブル
+ */
+export async function analyzeTrackStyle(input: TrackAudioInput): Promise<StyleBible> {
+  const genAI = new GoogleGenerativeAI(getApiKey());
+  const model = genAI.getGenerativeModel({ model: AUDIO_MODEL });
+
+  const stylePrompt = `
+添付した音声は楽曲 "${input.fileName}" の全体です。この曲に1本のミュージックビデオをつけるとして、全編を通して統一する映像のスタイルバイブルを作成してください。
+曲全体の展開（楽器、リズム、声、ダイナミクスの変化）を聴いたうえで、すべてのシーンに共通させる要素を決めてください。
+
+注意：
+- worldview以外は画像生成AIにそのまま渡すため英語で書いてください`;
+
+  const { part: audioPart, cleanup } = await createAudioPart(input.audio, input.mimeType, `track-${input.fileName}`);
+
+  let styleBible: StyleBible;
+  try {
+    styleBible = await generateStructuredContent<StyleBible>(model, [audioPart, { text: stylePrompt }], STYLE_BIBLE_SCHEMA);
+  } finally {
+    await cleanup();
+  }
+
+  console.log('スタイルバイブルを作成:', input.fileName);
+
+  return {
+    worldview: styleBible.worldview,
+    palette: styleBible.palette,
+    motifs: styleBible.motifs,
+    camera: styleBible.camera,
+    era: styleBible.era,
+    medium: styleBible.medium
+  };
+}
+
+// 音声対応のGeminiモデルで分析する提供元
+export const geminiAnalysisProvider: AnalysisProvider = {
+  name: 'gemini',
+  model: AUDIO_MODEL,
+  // セグメントは分析とプロンプトの作成、スタイルバイブルは1回呼び出す
+  estimateCost: (kind) => GEMINI_CALL_COST * (kind === 'segment' ? GEMINI_CALLS_PER_SEGMENT : 1),
+  analyzeSegment: analyzeSegmentAudio,
+  analyzeTrackStyle
+};
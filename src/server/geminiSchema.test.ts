@@ -0,0 +1,139 @@
+import { Content, GenerativeModel, ObjectSchema, SchemaType } from '@google/generative-ai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GeminiSchemaError, generateStructuredContent, MAX_REPAIR_ATTEMPTS } from './geminiSchema.ts';
+
+const SCHEMA: ObjectSchema = {
+  type: SchemaType.OBJECT,
+  properties: {
+    title: { type: SchemaType.STRING },
+    mood: { type: SchemaType.STRING, format: 'enum', enum: ['calm', 'energetic'] },
+    bpm: { type: SchemaType.INTEGER },
+    palette: {
+      type: SchemaType.ARRAY,
+      items: { type: SchemaType.STRING },
+      minItems: 2,
+      maxItems: 3
+    },
+    note: { type: SchemaType.STRING, nullable: true }
+  },
+  required: ['title', 'mood', 'bpm', 'palette']
+};
+
+const VALID = { title: 'Night drive', mood: 'calm', bpm: 96, palette: ['deep teal', 'amber'] };
+
+/**
+ * 決まった応答を順に返すモックのGeminiモデルを作成する
+ * @param responses 呼び出しごとの応答（JSON文字列）
+ * @returns モデルと、呼び出しごとに送られた会話の記録
+ */
+function createModel(responses: string[]) {
+  const requests: Content[][] = [];
+  const model = {
+    generateContent: vi.fn(async (request: { contents: Content[] }) => {
+      requests.push(structuredClone(request.contents));
+      const text = responses[Math.min(requests.length, responses.length) - 1];
+      return { response: { text: () => text } };
+    })
+  };
+  return { model: model as unknown as GenerativeModel, requests, generateContent: model.generateContent };
+}
+
+/**
+ * 応答を検証したエラーを取得する（修正を依頼しても同じ応答が返るモデルを使う）
+ * @param value 応答の値
+ * @returns 検証エラー
+ */
+async function getValidationError(value: unknown): Promise<GeminiSchemaError> {
+  const { model } = createModel([JSON.stringify(value)]);
+  return generateStructuredContent<typeof VALID>(model, [{ text: 'prompt' }], SCHEMA).catch(caught => caught);
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('generateStructuredContent', () => {
+  it('スキーマに一致する応答はそのまま返し、修正を依頼しない', async () => {
+    const response = { ...VALID, note: null };
+    const { model, generateContent } = createModel([JSON.stringify(response)]);
+
+    await expect(generateStructuredContent(model, [{ text: 'prompt' }], SCHEMA)).resolves.toEqual(response);
+    expect(generateContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('必須のフィールドがない場合はそのフィールドを指摘する', async () => {
+    const { title: _title, ...missing } = VALID;
+    const error = await getValidationError(missing);
+
+    expect(error).toBeInstanceOf(GeminiSchemaError);
+    expect(error.field).toBe('title');
+    expect(error.message).toContain('ありません');
+  });
+
+  it('型が違う場合はそのフィールドを指摘する', async () => {
+    expect((await getValidationError({ ...VALID, bpm: '96' })).field).toBe('bpm');
+    expect((await getValidationError({ ...VALID, bpm: 96.5 })).message).toContain('整数ではありません');
+    expect((await getValidationError({ ...VALID, palette: ['deep teal', 3] })).field).toBe('palette[1]');
+  });
+
+  it('列挙値以外の値は候補を示して指摘する', async () => {
+    const error = await getValidationError({ ...VALID, mood: 'angry' });
+
+    expect(error.field).toBe('mood');
+    expect(error.message).toContain('calm, energetic');
+  });
+
+  it('空の文字列と配列の個数の範囲外も指摘する', async () => {
+    expect((await getValidationError({ ...VALID, title: '  ' })).message).toContain('空です');
+    expect((await getValidationError({ ...VALID, palette: ['deep teal'] })).field).toBe('palette');
+  });
+
+  it('JSONとして解析できない応答はJSONのエラーにする', async () => {
+    const { model } = createModel(['not json']);
+    const error = await generateStructuredContent<typeof VALID>(model, [{ text: 'prompt' }], SCHEMA).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GeminiSchemaError);
+    expect(error.field).toBe('JSON');
+  });
+
+  it('一致しない応答は直前の応答とエラーを伝えて修正を依頼し、2回目で一致すればその応答を返す', async () => {
+    const invalid = JSON.stringify({ ...VALID, mood: 'angry' });
+    const { model, requests } = createModel([invalid, JSON.stringify(VALID)]);
+
+    await expect(generateStructuredContent(model, [{ text: 'prompt' }], SCHEMA)).resolves.toEqual(VALID);
+
+    expect(requests).toHaveLength(2);
+    const [original, previous, repair] = requests[1];
+    expect(original).toEqual({ role: 'user', parts: [{ text: 'prompt' }] });
+    expect(previous).toEqual({ role: 'model', parts: [{ text: invalid }] });
+    expect(repair.role).toBe('user');
+    expect(repair.parts[0].text).toContain('mood');
+  });
+
+  it(`修正を${MAX_REPAIR_ATTEMPTS}回依頼しても一致しない場合はフィールド名を含むGeminiSchemaErrorを投げる`, async () => {
+    const { palette: _palette, ...missing } = VALID;
+    const { model, generateContent } = createModel([JSON.stringify(missing)]);
+
+    const error = await generateStructuredContent<typeof VALID>(model, [{ text: 'prompt' }], SCHEMA).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(GeminiSchemaError);
+    expect(error.field).toBe('palette');
+    expect(error.message).toContain('palette');
+    expect(generateContent).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS + 1);
+  });
+
+  it('スキーマ以外のエラーは修正を依頼せずにそのまま投げる', async () => {
+    const model = {
+      generateContent: vi.fn(async () => {
+        throw new Error('quota exceeded');
+      })
+    } as unknown as GenerativeModel;
+
+    await expect(generateStructuredContent(model, [{ text: 'prompt' }], SCHEMA)).rejects.toThrow('quota exceeded');
+    expect(model.generateContent).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,156 @@
+import { Content, GenerativeModel, ObjectSchema, Part, Schema, SchemaType } from '@google/generative-ai';
+
+// スキーマに一致しない応答に対して修正を依頼する回数
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Geminiの応答がスキーマに一致しない場合のエラー
+ */
+export class GeminiSchemaError extends Error {
+  /** 一致しなかったフィールド（例: palette[2]） */
+  readonly field: string;
+
+  constructor(field: string, detail: string) {
+    super(`Geminiの応答が不正です（${field}: ${detail}）`);
+    this.name = 'GeminiSchemaError';
+    this.field = field;
+  }
+}
+
+/**
+ * 値がスキーマに一致するか検証する
+ * 文字列は空でないこと、数値は有限であることも確認する
+ * @param value 検証する値
+ * @param schema スキーマ（Geminiに渡すresponseSchemaと同じもの）
+ * @param field エラーに含めるフィールド名
+ */
+function validateValue(value: unknown, schema: Schema, field: string): void {
+  if (value === null && schema.nullable) {
+    return;
+  }
+
+  switch (schema.type) {
+    case SchemaType.STRING:
+      if (typeof value !== 'string') {
+        throw new GeminiSchemaError(field, '文字列ではありません');
+      }
+      if (value.trim().length === 0) {
+        throw new GeminiSchemaError(field, '空です');
+      }
+      if (schema.format === 'enum' && !schema.enum.includes(value)) {
+        throw new GeminiSchemaError(field, `${schema.enum.join(', ')} のいずれかではありません`);
+      }
+      return;
+    case SchemaType.NUMBER:
+    case SchemaType.INTEGER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new GeminiSchemaError(field, '数値ではありません');
+      }
+      if (schema.type === SchemaType.INTEGER && !Number.isInteger(value)) {
+        throw new GeminiSchemaError(field, '整数ではありません');
+      }
+      return;
+    case SchemaType.BOOLEAN:
+      if (typeof value !== 'boolean') {
+        throw new GeminiSchemaError(field, '真偽値ではありません');
+      }
+      return;
+    case SchemaType.ARRAY:
+      if (!Array.isArray(value)) {
+        throw new GeminiSchemaError(field, '配列ではありません');
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        throw new GeminiSchemaError(field, `${schema.minItems}個以上必要です（${value.length}個）`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        throw new GeminiSchemaError(field, `${schema.maxItems}個以下にしてください（${value.length}個）`);
+      }
+      value.forEach((item, index) => validateValue(item, schema.items, `${field}[${index}]`));
+      return;
+    case SchemaType.OBJECT: {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new GeminiSchemaError(field, 'オブジェクトではありません');
+      }
+      const record = value as Record<string, unknown>;
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const propertyField = field ? `${field}.${key}` : key;
+        if (record[key] === undefined) {
+          if (schema.required?.includes(key)) {
+            throw new GeminiSchemaError(propertyField, 'ありません');
+          }
+          continue;
+        }
+        validateValue(record[key], property, propertyField);
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Geminiの応答をJSONとして解析し、スキーマに一致するか検証する
+ * @param text Geminiの応答
+ * @param schema 応答のスキーマ
+ * @returns 検証済みの値
+ */
+function parseStructuredResponse<T>(text: string, schema: ObjectSchema): T {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new GeminiSchemaError('JSON', 'JSONとして解析できません');
+  }
+  validateValue(value, schema, '');
+  return value as T;
+}
+
+/**
+ * スキーマに一致しなかった応答の修正を依頼するプロンプトを作成する
+ * @param error 検証エラー
+ * @returns 修正を依頼するプロンプト
+ */
+function createRepairPrompt(error: GeminiSchemaError): string {
+  return `
+直前の応答は指定したJSONスキーマに一致しませんでした。${error.message}
+内容はそのままに、問題のフィールドを修正したJSONだけをもう一度返してください。`;
+}
+
+/**
+ * JSONモードでGeminiに応答を生成させ、スキーマで検証する
+ * スキーマに一致しない場合は、直前の応答とエラーを伝えて修正を依頼する
+ * @param model Geminiのモデル
+ * @param parts プロンプト（音声を含む場合は修正の依頼でも同じ音声を参照する）
+ * @param schema 応答のスキーマ
+ * @returns 検証済みの応答
+ */
+export async function generateStructuredContent<T>(
+  model: GenerativeModel,
+  parts: Part[],
+  schema: ObjectSchema
+): Promise<T> {
+  const contents: Content[] = [{ role: 'user', parts }];
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await model.generateContent({
+      contents,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema: schema
+      }
+    });
+    const text = result.response.text();
+
+    try {
+      return parseStructuredResponse<T>(text, schema);
+    } catch (error) {
+      if (!(error instanceof GeminiSchemaError) || attempt >= MAX_REPAIR_ATTEMPTS) {
+        throw error;
+      }
+      console.warn('Geminiの応答がスキーマに一致しないため修正を依頼:', error.message);
+      contents.push(
+        { role: 'model', parts: [{ text }] },
+        { role: 'user', parts: [{ text: createRepairPrompt(error) }] }
+      );
+    }
+  }
+}
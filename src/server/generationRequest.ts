@@ -0,0 +1,189 @@
+import type { RequestParamHandler, Response } from 'express';
+import { IMAGE_PRICING, VIDEO_PRICING, VIDEO_RESOLUTION_PIXELS } from '../costEstimate.ts';
+import type { ClipDuration, VideoResolution } from '../costEstimate.ts';
+import type {
+  ImageGenerationOptions,
+  ImageReference,
+  VideoGenerationOptions,
+  VideoKeyframe
+} from '../lumaGeneration.ts';
+
+// 受け付けるモデル（予算を確認するため、単価が分かるモデルだけを許可する）
+export const IMAGE_MODELS = Object.keys(IMAGE_PRICING);
+export const VIDEO_MODELS = Object.keys(VIDEO_PRICING);
+
+// 受け付けるアスペクト比とクリップの長さ
+export const ASPECT_RATIOS = ['1:1', '16:9', '9:16', '4:3', '3:4', '21:9', '9:21'];
+const CLIP_DURATIONS: ClipDuration[] = ['5s', '9s'];
+
+// プロンプトの最大文字数
+const MAX_PROMPT_LENGTH = 5000;
+
+// 生成IDとして受け付ける形式
+const GENERATION_ID_PATTERN = /^[0-9A-Za-z-]{1,64}$/;
+
+/**
+ * 生成リクエストの内容が不正な場合のエラー（ルートは400を返す）
+ */
+export class GenerationRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GenerationRequestError';
+  }
+}
+
+/**
+ * 値が生成IDの形式かどうかを検証する
+ * @param value 検証する値
+ * @returns 生成IDの場合はtrue
+ */
+export function isGenerationId(value: unknown): value is string {
+  return typeof value === 'string' && GENERATION_ID_PATTERN.test(value);
+}
+
+/**
+ * クライアントが応答を受け取らずに接続を閉じたかを追跡する
+ * 生成の開始を待つ間に中止されると、クライアントは生成IDを受け取れず削除もできないため、ルートが代わりに削除する
+ * @param res expressのレスポンス
+ * @returns 応答を返す前に接続が閉じられた場合にtrueを返す関数
+ */
+export function trackClientAbort(res: Response): () => boolean {
+  let aborted = false;
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      aborted = true;
+    }
+  });
+  return () => aborted;
+}
+
+/**
+ * ルートの生成IDを検証する（Luma APIのパスに埋め込む前に不正なIDを拒否する）
+ * @param _req expressのリクエスト
+ * @param res expressのレスポンス
+ * @param next 次のハンドラー
+ * @param id ルートの生成ID
+ */
+export const validateGenerationIdParam: RequestParamHandler = (_req, res, next, id) => {
+  if (!isGenerationId(id)) {
+    res.status(400).json({
+      error: true,
+      message: '生成IDが不正です'
+    });
+    return;
+  }
+  next();
+};
+
+/**
+ * 値が許可された値のいずれかであることを検証する
+ * @param value 検証する値
+ * @param allowed 許可された値
+ * @param field エラーに含めるフィールド名
+ * @returns 検証済みの値（省略された場合はundefined）
+ */
+function parseAllowed<T extends string>(value: unknown, allowed: readonly T[], field: string): T | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !(allowed as readonly string[]).includes(value)) {
+    throw new GenerationRequestError(`${field}には${allowed.join('、')}のいずれかを指定してください`);
+  }
+  return value as T;
+}
+
+/**
+ * プロンプトを検証する
+ * @param value 検証する値
+ * @returns 検証済みのプロンプト
+ */
+function parsePrompt(value: unknown): string {
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    throw new GenerationRequestError('promptは必須です');
+  }
+  if (value.length > MAX_PROMPT_LENGTH) {
+    throw new GenerationRequestError(`promptは${MAX_PROMPT_LENGTH}文字以内で指定してください`);
+  }
+  return value;
+}
+
+/**
+ * 値が参照画像の配列かどうかを検証する
+ * @param value 検証する値
+ * @returns 参照画像の配列の場合はtrue
+ */
+function isImageReferences(value: unknown): value is ImageReference[] {
+  return Array.isArray(value) && value.every(item =>
+    typeof item?.url === 'string'
+    && typeof item.weight === 'number'
+    && item.weight >= 0
+    && item.weight <= 1
+  );
+}
+
+/**
+ * キーフレームの入力を検証する
+ * @param value リクエストのキーフレーム
+ * @returns 検証済みのキーフレーム。不正な場合はnull
+ */
+function parseKeyframe(value: unknown): VideoKeyframe | undefined | null {
+  if (value === undefined) {
+    return undefined;
+  }
+  const keyframe = value as Partial<VideoKeyframe>;
+  if (keyframe?.type === 'image' && typeof keyframe.url === 'string') {
+    return { type: 'image', url: keyframe.url };
+  }
+  if (keyframe?.type === 'generation' && isGenerationId(keyframe.id)) {
+    return { type: 'generation', id: keyframe.id };
+  }
+  return null;
+}
+
+/**
+ * 画像生成リクエストを検証し、許可されたパラメーターだけを取り出す
+ * @param body リクエストボディ
+ * @returns 画像生成オプション
+ */
+export function parseImageGenerationOptions(body: Record<string, unknown>): ImageGenerationOptions {
+  const { prompt, aspect_ratio, model, style_ref } = body;
+
+  if (style_ref !== undefined && !isImageReferences(style_ref)) {
+    throw new GenerationRequestError('style_refにはurlとweight（0〜1）の配列を指定してください');
+  }
+
+  return {
+    prompt: parsePrompt(prompt),
+    aspect_ratio: parseAllowed(aspect_ratio, ASPECT_RATIOS, 'aspect_ratio'),
+    model: parseAllowed(model, IMAGE_MODELS, 'model'),
+    style_ref
+  };
+}
+
+/**
+ * 動画生成リクエストを検証し、許可されたパラメーターだけを取り出す
+ * @param body リクエストボディ
+ * @returns 動画生成オプション
+ */
+export function parseVideoGenerationOptions(body: Record<string, unknown>): VideoGenerationOptions {
+  const { prompt, keyframes, model, duration, aspect_ratio, resolution } = body;
+
+  const frames = keyframes as { frame0?: unknown; frame1?: unknown } | undefined;
+  const frame0 = parseKeyframe(frames?.frame0);
+  const frame1 = parseKeyframe(frames?.frame1);
+  if (frame0 === null || frame1 === null) {
+    throw new GenerationRequestError('keyframesにはtypeとurl（image）またはid（generation）を指定してください');
+  }
+
+  return {
+    prompt: parsePrompt(prompt),
+    keyframes: {
+      ...(frame0 ? { frame0 } : {}),
+      ...(frame1 ? { frame1 } : {})
+    },
+    model: parseAllowed(model, VIDEO_MODELS, 'model'),
+    duration: parseAllowed(duration, CLIP_DURATIONS, 'duration'),
+    aspect_ratio: parseAllowed(aspect_ratio, ASPECT_RATIOS, 'aspect_ratio'),
+    resolution: parseAllowed(resolution, Object.keys(VIDEO_RESOLUTION_PIXELS) as VideoResolution[], 'resolution')
+  };
+}
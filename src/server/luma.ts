@@ -0,0 +1,326 @@
+import type { Response } from 'express';
+import { estimateImageCost, estimateVideoCost } from '../costEstimate.ts';
+import type { VideoResolution } from '../costEstimate.ts';
+import type { LumaErrorCode } from '../lumaClient.ts';
+import type {
+  ImageGenerationOptions,
+  LumaImageResponse,
+  LumaResponse,
+  LumaVideoResponse,
+  VideoGenerationOptions
+} from '../lumaGeneration.ts';
+import type { ImageProvider, VideoProvider } from './providers/types.ts';
+
+const LUMA_API_BASE_URL = process.env.LUMA_API_BASE_URL || 'https://api.lumalabs.ai/dream-machine/v1';
+
+// リクエストでモデルや解像度が指定されなかった場合の値
+export const DEFAULT_IMAGE_MODEL = 'photon-1';
+export const DEFAULT_VIDEO_MODEL = 'ray-2';
+export const DEFAULT_VIDEO_RESOLUTION: VideoResolution = '720p';
+
+/**
+ * Luma APIから返される生成ジョブ
+ */
+export interface LumaGeneration {
+  id: string;
+  generation_type?: 'video' | 'image';
+  state: 'queued' | 'dreaming' | 'completed' | 'failed';
+  failure_reason?: string | null;
+  assets?: {
+    video?: string | null;
+    image?: string | null;
+    video_0_thumb?: string | null;
+  } | null;
+}
+
+/**
+ * Luma APIがエラーを返した場合のエラー
+ */
+export class LumaApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: LumaErrorCode,
+    /** Luma APIが返したRetry-Afterヘッダー */
+    public readonly retryAfter?: string
+  ) {
+    super(message);
+    this.name = 'LumaApiError';
+  }
+}
+
+// モデレーションで拒否されたことを示すエラーメッセージ
+const MODERATION_PATTERN = /moderation|not allowed|blocked|unsafe/i;
+
+/**
+ * ルートのエラーレスポンスとして送信する
+ * クライアントが再試行や型付きのエラーに使えるよう、ステータス、コード、Retry-Afterを引き継ぐ
+ * @param res expressのレスポンス
+ * @param error 発生したエラー
+ * @param fallbackMessage デフォルトのメッセージ
+ */
+export function sendLumaError(res: Response, error: unknown, fallbackMessage: string): void {
+  if (error instanceof LumaApiError && error.retryAfter) {
+    res.setHeader('Retry-After', error.retryAfter);
+  }
+  res.status(error instanceof LumaApiError ? error.status : 500).json({
+    error: true,
+    message: error instanceof Error ? error.message : fallbackMessage,
+    ...(error instanceof LumaApiError && error.code ? { code: error.code } : {})
+  });
+}
+
+function getApiKey(): string {
+  const apiKey = process.env.LUMA_API_KEY;
+  if (!apiKey) {
+    throw new LumaApiError('LUMA_API_KEYが設定されていません', 500);
+  }
+  return apiKey;
+}
+
+/**
+ * Luma APIにリクエストを送信する
+ * @param path APIのパス
+ * @param init fetchのオプション
+ * @param fallbackMessage エラー時のデフォルトメッセージ
+ * @returns レスポンスのJSON
+ */
+async function lumaRequest<T>(path: string, init: RequestInit, fallbackMessage: string): Promise<T> {
+  const response = await fetch(`${LUMA_API_BASE_URL}${path}`, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${getApiKey()}`,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    let errorMessage = fallbackMessage;
+    let code: LumaErrorCode | undefined = response.status === 429 ? 'rate_limited' : undefined;
+
+    try {
+      const errorData = await response.json();
+      console.error('Luma APIエラーレスポンス:', errorData);
+
+      if (errorData.detail === 'Insufficient credits') {
+        errorMessage = 'Luma APIのクレジットが不足しています。APIキーの利用枠を確認してください。';
+        code = 'insufficient_credits';
+      } else {
+        errorMessage = errorData.detail || errorData.message || errorMessage;
+        if (typeof errorMessage === 'string' && MODERATION_PATTERN.test(errorMessage)) {
+          code = 'moderation';
+        }
+      }
+    } catch (jsonError) {
+      // JSONのパースに失敗した場合はステータステキストを使用
+      errorMessage = `${fallbackMessage} (${response.status}: ${response.statusText})`;
+    }
+
+    throw new LumaApiError(errorMessage, response.status, code, response.headers.get('Retry-After') ?? undefined);
+  }
+
+  // 削除などボディのないレスポンス
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return await response.json() as T;
+}
+
+/**
+ * Luma APIの生成ジョブの状態をアプリ内の状態に変換する
+ * @param state Luma APIの状態
+ * @returns アプリ内の状態
+ */
+function toGenerationState(state: LumaGeneration['state']): LumaResponse['state'] {
+  switch (state) {
+    case 'completed':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    case 'dreaming':
+      return 'processing';
+    default:
+      return 'pending';
+  }
+}
+
+/**
+ * Luma APIの生成ジョブをアプリ内の形式に変換する
+ * 画像は画像生成エンドポイントの静止画、動画は動画とそのサムネイルを生成物とする
+ * @param generation Luma APIの生成ジョブ
+ * @param type 生成の種類
+ * @returns 生成結果
+ */
+export function toLumaResponse(generation: LumaGeneration, type: 'image'): LumaImageResponse;
+export function toLumaResponse(generation: LumaGeneration, type: 'video'): LumaVideoResponse;
+export function toLumaResponse(generation: LumaGeneration, type: LumaResponse['type']): LumaResponse {
+  const state = toGenerationState(generation.state);
+  const failure = state === 'failed'
+    ? { failure_reason: generation.failure_reason || '生成に失敗しました' }
+    : {};
+
+  if (type === 'image') {
+    const image = generation.assets?.image;
+    return {
+      id: generation.id,
+      type: 'image',
+      state,
+      ...failure,
+      ...(state === 'completed' && image ? { assets: { image } } : {})
+    };
+  }
+
+  const video = generation.assets?.video;
+  const thumbnail = generation.assets?.image || generation.assets?.video_0_thumb || undefined;
+  return {
+    id: generation.id,
+    type: 'video',
+    state,
+    ...failure,
+    ...(state === 'completed' && video ? { assets: { video, ...(thumbnail ? { thumbnail } : {}) } } : {})
+  };
+}
+
+/**
+ * 画像生成オプションをLuma APIのリクエストボディにする（省略された値は既定値で埋める）
+ * @param options 画像生成オプション
+ * @returns リクエストボディ
+ */
+export function toImageRequestBody(options: ImageGenerationOptions) {
+  return {
+    prompt: options.prompt,
+    aspect_ratio: options.aspect_ratio || '16:9',
+    model: options.model || DEFAULT_IMAGE_MODEL,
+    ...(options.style_ref ? { style_ref: options.style_ref } : {})
+  };
+}
+
+/**
+ * 動画生成オプションをLuma APIのリクエストボディにする（省略された値は既定値で埋める）
+ * @param options 動画生成オプション
+ * @returns リクエストボディ
+ */
+export function toVideoRequestBody(options: VideoGenerationOptions) {
+  return {
+    prompt: options.prompt,
+    model: options.model || DEFAULT_VIDEO_MODEL,
+    keyframes: options.keyframes,
+    duration: options.duration || '5s',
+    aspect_ratio: options.aspect_ratio || '16:9',
+    resolution: options.resolution || DEFAULT_VIDEO_RESOLUTION
+  };
+}
+
+/**
+ * Luma APIの画像生成エンドポイントで画像の生成を開始する
+ * @param options 画像生成オプション
+ * @returns 開始した生成ジョブ
+ */
+export async function createImageGeneration(options: ImageGenerationOptions): Promise<LumaImageResponse> {
+  const generation = await lumaRequest<LumaGeneration>('/generations/image', {
+    method: 'POST',
+    body: JSON.stringify(toImageRequestBody(options))
+  }, '画像生成リクエストに失敗しました');
+  console.log('画像の生成を開始:', generation.id, generation.state);
+  return toLumaResponse(generation, 'image');
+}
+
+/**
+ * Luma APIで動画の生成を開始する
+ * @param options 動画生成オプション
+ * @returns 開始した生成ジョブ
+ */
+export async function createVideoGeneration(options: VideoGenerationOptions): Promise<LumaVideoResponse> {
+  const generation = await lumaRequest<LumaGeneration>('/generations', {
+    method: 'POST',
+    body: JSON.stringify(toVideoRequestBody(options))
+  }, '動画生成リクエストに失敗しました');
+  console.log('動画の生成を開始:', generation.id, generation.state);
+  return toLumaResponse(generation, 'video');
+}
+
+/**
+ * Luma APIの生成を削除する（待機中・生成中の場合は生成が中止される）
+ * @param id 生成ID
+ */
+export async function deleteGeneration(id: string): Promise<void> {
+  await lumaRequest<void>(
+    `/generations/${encodeURIComponent(id)}`,
+    { method: 'DELETE' },
+    '生成の削除に失敗しました'
+  );
+  console.log('生成を削除:', id);
+}
+
+/**
+ * Luma APIの生成状態を取得する
+ * @param id 生成ID
+ * @param type 生成の種類
+ * @returns 生成結果
+ */
+export async function getGenerationStatus(id: string, type: 'image'): Promise<LumaImageResponse>;
+export async function getGenerationStatus(id: string, type: 'video'): Promise<LumaVideoResponse>;
+export async function getGenerationStatus(id: string, type: LumaResponse['type']): Promise<LumaResponse> {
+  const generation = await lumaRequest<LumaGeneration>(
+    `/generations/${encodeURIComponent(id)}`,
+    { method: 'GET' },
+    '生成状態の取得に失敗しました'
+  );
+  return type === 'image' ? toLumaResponse(generation, 'image') : toLumaResponse(generation, 'video');
+}
+
+/**
+ * Luma APIの生成状態を、生成の種類が分からない状態で取得する（種類はLuma APIの応答から判定する）
+ * @param id 生成ID
+ * @returns 生成結果
+ */
+export async function getGeneration(id: string): Promise<LumaResponse> {
+  const generation = await lumaRequest<LumaGeneration>(
+    `/generations/${encodeURIComponent(id)}`,
+    { method: 'GET' },
+    '生成状態の取得に失敗しました'
+  );
+  return generation.generation_type === 'image'
+    ? toLumaResponse(generation, 'image')
+    : toLumaResponse(generation, 'video');
+}
+
+/**
+ * Luma APIの生成の一覧を新しい順に取得する
+ * @param limit 取得する件数
+ * @param offset 読み飛ばす件数
+ * @returns 生成結果の一覧
+ */
+export async function listGenerations(limit: number, offset: number): Promise<LumaResponse[]> {
+  const { generations } = await lumaRequest<{ generations: LumaGeneration[] }>(
+    `/generations?limit=${limit}&offset=${offset}`,
+    { method: 'GET' },
+    '生成の一覧の取得に失敗しました'
+  );
+  return generations.map(generation => generation.generation_type === 'image'
+    ? toLumaResponse(generation, 'image')
+    : toLumaResponse(generation, 'video'));
+}
+
+// Luma APIの画像生成エンドポイントを使う画像の提供元
+export const lumaImageProvider: ImageProvider = {
+  name: 'luma',
+  estimateCost: (options) => estimateImageCost(options.model || DEFAULT_IMAGE_MODEL),
+  createImage: createImageGeneration,
+  getImage: (id) => getGenerationStatus(id, 'image'),
+  deleteGeneration
+};
+
+// Luma APIの動画生成エンドポイントを使う動画の提供元
+export const lumaVideoProvider: VideoProvider = {
+  name: 'luma',
+  estimateCost: (options) => estimateVideoCost(
+    options.model || DEFAULT_VIDEO_MODEL,
+    options.duration || '5s',
+    options.resolution || DEFAULT_VIDEO_RESOLUTION
+  ),
+  createVideo: createVideoGeneration,
+  getVideo: (id) => getGenerationStatus(id, 'video'),
+  deleteGeneration
+};
@@ -0,0 +1,322 @@
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { copyFile, mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+import type { GeneratedMedia, LumaResponse } from '../lumaGeneration.ts';
+import { createMediaId, parseMediaId } from '../mediaLibrary.ts';
+import type { MediaAssetKind, MediaMetadata } from '../mediaLibrary.ts';
+import { getCachedGenerationById, isLumaAssetUrl, resolveCachedAsset } from './cache.ts';
+import { getProject } from './projectStore.ts';
+import { DATA_DIR } from './render.ts';
+
+// 生成した素材をプロジェクトごとのフォルダに保存するメディアライブラリ
+export const MEDIA_DIR = path.join(DATA_DIR, 'media');
+// 生成リクエストの記録（メタデータにプロンプトとモデルを残すため、生成IDごとに保存する）
+const REQUEST_DIR = path.join(MEDIA_DIR, 'requests');
+
+// 生成IDとして受け付ける形式
+const LUMA_ID_PATTERN = /^[0-9A-Za-z-]+$/;
+
+// 拡張子に対応するMIMEタイプ
+const CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4'
+};
+
+// 素材のダウンロードを打ち切るまでの時間（ミリ秒）と最大サイズ（バイト）
+const DOWNLOAD_TIMEOUT = 5 * 60 * 1000;
+const MAX_DOWNLOAD_BYTES = 500 * 1024 * 1024;
+
+// 同じ素材を並行してダウンロードしないよう、保存中の処理を保持する
+const archiving = new Map<string, Promise<MediaMetadata>>();
+
+/**
+ * 生成リクエストの記録
+ */
+export interface GenerationRequestRecord {
+  prompt: string;
+  model: string;
+}
+
+/**
+ * 生成を開始したときのプロンプトとモデルを記録する
+ * @param lumaId Lumaの生成ID
+ * @param record プロンプトとモデル
+ */
+export async function recordGenerationRequest(lumaId: string, record: GenerationRequestRecord): Promise<void> {
+  if (!LUMA_ID_PATTERN.test(lumaId)) {
+    return;
+  }
+  await mkdir(REQUEST_DIR, { recursive: true });
+  await writeFile(path.join(REQUEST_DIR, `${lumaId}.json`), JSON.stringify(record, null, 2));
+}
+
+/**
+ * 記録した生成リクエストを読み込む
+ * @param lumaId Lumaの生成ID
+ * @returns 生成リクエストの記録。ない場合はnull
+ */
+async function readGenerationRequest(lumaId: string): Promise<GenerationRequestRecord | null> {
+  try {
+    return JSON.parse(await readFile(path.join(REQUEST_DIR, `${lumaId}.json`), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 素材のメタデータ（サイドカー）のパスを取得する
+ * @param projectId プロジェクトID
+ * @param lumaId Lumaの生成ID
+ * @param kind 素材の種類
+ * @returns JSONファイルのパス
+ */
+function getSidecarPath(projectId: string, lumaId: string, kind: MediaAssetKind): string {
+  return path.join(MEDIA_DIR, projectId, `${lumaId}-${kind}.json`);
+}
+
+/**
+ * 保存済みの素材のメタデータを読み込む
+ * @param id メディアID
+ * @returns メタデータ。保存されていない場合はnull
+ */
+async function readMetadata(id: string): Promise<MediaMetadata | null> {
+  const parsed = parseMediaId(id);
+  if (!parsed) {
+    return null;
+  }
+  try {
+    return JSON.parse(await readFile(getSidecarPath(parsed.projectId, parsed.lumaId, parsed.kind), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 生成結果から保存する素材とその取得元を取り出す
+ * @param response 生成結果
+ * @returns 素材の種類、LumaのURL、キャッシュ済みの場合はそのURL
+ */
+function getAssetSources(response: LumaResponse): { kind: MediaAssetKind; url: string; cachedUrl?: string }[] {
+  if (response.state !== 'completed' || !response.assets) {
+    return [];
+  }
+  if (response.type === 'image') {
+    return [{ kind: 'image', url: response.assets.image, cachedUrl: response.localAssets?.image }];
+  }
+  return [
+    { kind: 'video', url: response.assets.video, cachedUrl: response.localAssets?.video },
+    ...(response.assets.thumbnail
+      ? [{ kind: 'thumbnail' as const, url: response.assets.thumbnail, cachedUrl: response.localAssets?.thumbnail }]
+      : [])
+  ];
+}
+
+/**
+ * セグメントの画像・候補・クリップの生成結果をまとめて取得する
+ * @param media セグメントの生成結果
+ * @returns 生成結果の一覧
+ */
+function getSegmentResponses(media: GeneratedMedia): LumaResponse[] {
+  return [media.imageResponse, ...(media.variants ?? []), ...(media.clipResponse ? [media.clipResponse] : [])];
+}
+
+/**
+ * 素材をファイルにダウンロードする（時間がかかりすぎる場合と大きすぎる場合は打ち切る）
+ * @param url LumaのURL
+ * @param destination 保存先のパス
+ */
+async function downloadAsset(url: string, destination: string): Promise<void> {
+  const download = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT) });
+  if (!download.ok || !download.body) {
+    throw new Error(`素材のダウンロードに失敗しました (${download.status}: ${url})`);
+  }
+  if (Number(download.headers.get('content-length')) > MAX_DOWNLOAD_BYTES) {
+    throw new Error(`素材が大きすぎます: ${url}`);
+  }
+
+  let bytes = 0;
+  await pipeline(
+    Readable.fromWeb(download.body as WebReadableStream),
+    async function* (chunks: AsyncIterable<Buffer>) {
+      for await (const chunk of chunks) {
+        bytes += chunk.length;
+        if (bytes > MAX_DOWNLOAD_BYTES) {
+          throw new Error(`素材が大きすぎます: ${url}`);
+        }
+        yield chunk;
+      }
+    },
+    createWriteStream(destination)
+  );
+}
+
+/**
+ * 素材をダウンロードしてメタデータと一緒に保存する
+ * サーバーのキャッシュにダウンロード済みの場合はそのファイルをコピーする（LumaのURLが期限切れでも保存できる）
+ * @param projectId プロジェクトID
+ * @param media 素材を含むセグメント
+ * @param response 生成結果
+ * @param source 保存する素材
+ * @returns 保存した素材のメタデータ
+ */
+async function archiveAsset(
+  projectId: string,
+  media: GeneratedMedia,
+  response: LumaResponse,
+  source: { kind: MediaAssetKind; url: string; cachedUrl?: string }
+): Promise<MediaMetadata> {
+  if (!LUMA_ID_PATTERN.test(response.id)) {
+    throw new Error(`生成IDが不正です: ${response.id}`);
+  }
+  const id = createMediaId(projectId, response.id, source.kind);
+  const existing = await readMetadata(id);
+  if (existing) {
+    return existing;
+  }
+
+  // サーバーのキャッシュにある素材か、Lumaの配信元の素材だけを保存する（任意のホストにはリクエストしない）
+  const cachedPath = resolveCachedAsset(source.cachedUrl ?? '') ?? resolveCachedAsset(source.url);
+  if (!cachedPath && !isLumaAssetUrl(source.url)) {
+    throw new Error(`保存できない素材のURLです: ${source.url}`);
+  }
+
+  const directory = path.join(MEDIA_DIR, projectId);
+  await mkdir(directory, { recursive: true });
+  // モックの提供元の素材はサーバー内の相対URLのため、基準のURLを補って拡張子を取り出す
+  // 配信できる形式以外の拡張子（メタデータの.jsonなど）は素材の種類の既定の拡張子にする
+  const urlExtension = path.extname(new URL(source.url, 'http://localhost').pathname).toLowerCase();
+  const extension = urlExtension in CONTENT_TYPES ? urlExtension : (source.kind === 'video' ? '.mp4' : '.jpg');
+  const fileName = `${response.id}-${source.kind}${extension}`;
+  const filePath = path.join(directory, fileName);
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+
+  try {
+    if (cachedPath) {
+      await copyFile(cachedPath, tempPath);
+    } else {
+      await downloadAsset(source.url, tempPath);
+    }
+    await rename(tempPath, filePath);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+
+  const request = await readGenerationRequest(response.id);
+  const metadata: MediaMetadata = {
+    id,
+    projectId,
+    lumaId: response.id,
+    kind: source.kind,
+    segmentIndex: media.segmentIndex,
+    startTime: media.startTime,
+    endTime: media.endTime,
+    ...(request ? { prompt: request.prompt, model: request.model } : {}),
+    sourceUrl: source.url,
+    fileName,
+    contentType: CONTENT_TYPES[extension] ?? 'application/octet-stream',
+    archivedAt: new Date().toISOString()
+  };
+  await writeFile(getSidecarPath(projectId, response.id, source.kind), JSON.stringify(metadata, null, 2));
+  console.log('素材をメディアライブラリに保存:', id);
+  return metadata;
+}
+
+/**
+ * 素材を1回だけ保存する（同じ素材の保存が進行中であればその完了を待つ）
+ * @param projectId プロジェクトID
+ * @param media 素材を含むセグメント
+ * @param response 生成結果
+ * @param source 保存する素材
+ * @returns 保存した素材のメタデータ
+ */
+function archiveOnce(
+  projectId: string,
+  media: GeneratedMedia,
+  response: LumaResponse,
+  source: { kind: MediaAssetKind; url: string; cachedUrl?: string }
+): Promise<MediaMetadata> {
+  const id = createMediaId(projectId, response.id, source.kind);
+  const pending = archiving.get(id);
+  if (pending) {
+    return pending;
+  }
+  const task = archiveAsset(projectId, media, response, source).finally(() => {
+    archiving.delete(id);
+  });
+  archiving.set(id, task);
+  return task;
+}
+
+/**
+ * セグメントの完了した画像・候補・クリップをすべてメディアライブラリに保存する
+ * @param projectId プロジェクトID
+ * @param media 保存するセグメント
+ */
+export async function archiveProjectMedia(projectId: string, media: GeneratedMedia[]): Promise<void> {
+  for (const item of media) {
+    for (const response of getSegmentResponses(item)) {
+      for (const source of getAssetSources(response)) {
+        try {
+          await archiveOnce(projectId, item, response, source);
+        } catch (error) {
+          console.warn('素材をメディアライブラリに保存できませんでした:', response.id, error);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * メディアIDから素材のファイルとメタデータを取得する
+ * まだ保存されていない場合は、プロジェクトの生成結果から探してその場で保存する
+ * @param id メディアID
+ * @returns ファイルのパスとメタデータ。見つからない場合はnull
+ */
+export async function resolveMedia(id: string): Promise<{ filePath: string; metadata: MediaMetadata } | null> {
+  const parsed = parseMediaId(id);
+  if (!parsed) {
+    return null;
+  }
+
+  let metadata = await readMetadata(id);
+  if (!metadata) {
+    const project = await getProject(parsed.projectId);
+    for (const item of project?.media ?? []) {
+      const stored = getSegmentResponses(item).find(candidate => candidate.id === parsed.lumaId);
+      if (!stored) {
+        continue;
+      }
+      // プロジェクトに完了前の状態しか保存されていない場合は、サーバーのキャッシュにある完了した生成結果を使う
+      const response = stored.state === 'completed'
+        ? stored
+        : await getCachedGenerationById<LumaResponse>(parsed.lumaId) ?? stored;
+      const source = getAssetSources(response).find(candidate => candidate.kind === parsed.kind);
+      if (source) {
+        metadata = await archiveOnce(parsed.projectId, item, response, source);
+        break;
+      }
+    }
+  }
+
+  return metadata ? { filePath: path.join(MEDIA_DIR, parsed.projectId, metadata.fileName), metadata } : null;
+}
+
+/**
+ * プロジェクトのメディアライブラリを削除する
+ * @param projectId プロジェクトID
+ */
+export async function deleteProjectMedia(projectId: string): Promise<void> {
+  if (!/^[0-9a-f-]+$/.test(projectId)) {
+    return;
+  }
+  await rm(path.join(MEDIA_DIR, projectId), { recursive: true, force: true });
+}
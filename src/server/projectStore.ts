@@ -0,0 +1,212 @@
+import { randomUUID } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { SegmentationOptions } from '../audioAnalysis.ts';
+import type { GeneratedMedia, LumaImageResponse, LumaVideoResponse } from '../lumaGeneration.ts';
+import type { Project } from '../projects.ts';
+import type { ProviderSetName } from '../providers.ts';
+import { DATA_DIR } from './render.ts';
+
+// プロジェクトはIDごとのJSONファイルとして保存する
+export const PROJECT_DIR = path.join(DATA_DIR, 'projects');
+
+// プロジェクトごとの書き込みを直列化し、並列の更新が失われないようにする
+const writeQueues = new Map<string, Promise<unknown>>();
+
+export interface CreateProjectInput {
+  audioName: string;
+  audioId: string;
+  segmentation: SegmentationOptions;
+  continuityStrength?: number;
+  provider?: ProviderSetName;
+}
+
+/**
+ * プロジェクトIDからファイルのパスを取得する
+ * @param id プロジェクトID
+ * @returns JSONファイルのパス。不正なIDの場合はnull
+ */
+function getProjectPath(id: string): string | null {
+  if (!/^[0-9a-f-]+$/.test(id)) {
+    return null;
+  }
+  return path.join(PROJECT_DIR, `${id}.json`);
+}
+
+/**
+ * プロジェクトを一時ファイル経由で書き込む（書き込み途中で壊れないようにする）
+ * @param project プロジェクト
+ */
+async function writeProject(project: Project): Promise<void> {
+  await mkdir(PROJECT_DIR, { recursive: true });
+  const projectPath = path.join(PROJECT_DIR, `${project.id}.json`);
+  const tempPath = `${projectPath}.${randomUUID()}.tmp`;
+  await writeFile(tempPath, JSON.stringify(project, null, 2));
+  await rename(tempPath, projectPath);
+}
+
+/**
+ * プロジェクトに対する処理を順番に実行する
+ * @param id プロジェクトID
+ * @param task 実行する処理
+ * @returns 処理の結果
+ */
+function enqueue<T>(id: string, task: () => Promise<T>): Promise<T> {
+  const previous = writeQueues.get(id) ?? Promise.resolve();
+  const next = previous.catch(() => undefined).then(task);
+  writeQueues.set(id, next);
+  next.finally(() => {
+    if (writeQueues.get(id) === next) {
+      writeQueues.delete(id);
+    }
+  }).catch(() => undefined);
+  return next;
+}
+
+/**
+ * プロジェクトを作成する
+ * @param input 元の音声と分割方法
+ * @returns 作成したプロジェクト
+ */
+export async function createProject(input: CreateProjectInput): Promise<Project> {
+  const now = new Date().toISOString();
+  const project: Project = {
+    id: randomUUID(),
+    audioName: input.audioName,
+    audioId: input.audioId,
+    segmentation: input.segmentation,
+    ...(input.continuityStrength !== undefined ? { continuityStrength: input.continuityStrength } : {}),
+    ...(input.provider !== undefined ? { provider: input.provider } : {}),
+    stage: 'created',
+    segments: [],
+    analyses: [],
+    media: [],
+    createdAt: now,
+    updatedAt: now
+  };
+  await writeProject(project);
+  return project;
+}
+
+// 生成結果の種類を区別する前に保存された生成結果（URLを直接持っていた）
+type LegacyLumaResponse = Omit<LumaImageResponse, 'type' | 'assets' | 'localAssets'> & { imageUrl?: string; videoUrl?: string };
+
+/**
+ * 古い形式で保存された画像の生成結果を現在の形式に変換する
+ * @param response 保存されている生成結果
+ * @returns 画像の生成結果
+ */
+function upgradeImageResponse(response: LumaImageResponse | LegacyLumaResponse): LumaImageResponse {
+  if ('type' in response) {
+    return response;
+  }
+  const { imageUrl, videoUrl: _videoUrl, ...rest } = response;
+  return { ...rest, type: 'image', ...(imageUrl ? { assets: { image: imageUrl } } : {}) };
+}
+
+/**
+ * 古い形式で保存された動画の生成結果を現在の形式に変換する
+ * @param response 保存されている生成結果
+ * @returns 動画の生成結果
+ */
+function upgradeVideoResponse(response: LumaVideoResponse | LegacyLumaResponse): LumaVideoResponse {
+  if ('type' in response) {
+    return response;
+  }
+  const { imageUrl, videoUrl, ...rest } = response;
+  return {
+    ...rest,
+    type: 'video',
+    ...(videoUrl ? { assets: { video: videoUrl, ...(imageUrl ? { thumbnail: imageUrl } : {}) } } : {})
+  };
+}
+
+/**
+ * 古い形式で保存された生成結果を現在の形式に変換する
+ * @param media 保存されている生成結果
+ * @returns 変換した生成結果
+ */
+function upgradeMedia(media: GeneratedMedia): GeneratedMedia {
+  return {
+    ...media,
+    imageResponse: upgradeImageResponse(media.imageResponse),
+    ...(media.clipResponse ? { clipResponse: upgradeVideoResponse(media.clipResponse) } : {}),
+    ...(media.variants ? { variants: media.variants.map(upgradeImageResponse) } : {})
+  };
+}
+
+/**
+ * プロジェクトを取得する
+ * @param id プロジェクトID
+ * @returns プロジェクト。存在しない場合はnull
+ */
+export async function getProject(id: string): Promise<Project | null> {
+  const projectPath = getProjectPath(id);
+  if (!projectPath) {
+    return null;
+  }
+  try {
+    const project = JSON.parse(await readFile(projectPath, 'utf-8')) as Project;
+    return { ...project, media: project.media.map(upgradeMedia) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 保存されているプロジェクトを新しい順に取得する
+ * @returns プロジェクトの配列
+ */
+export async function listProjects(): Promise<Project[]> {
+  let files: string[];
+  try {
+    files = await readdir(PROJECT_DIR);
+  } catch {
+    return [];
+  }
+
+  const projects = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => getProject(path.basename(file, '.json')))
+  );
+
+  return projects
+    .filter((project): project is Project => project !== null)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * プロジェクトを更新する
+ * @param id プロジェクトID
+ * @param updater プロジェクトを書き換える関数
+ * @returns 更新後のプロジェクト。存在しない場合はnull
+ */
+export function updateProject(id: string, updater: (project: Project) => void): Promise<Project | null> {
+  return enqueue(id, async () => {
+    const project = await getProject(id);
+    if (!project) {
+      return null;
+    }
+    updater(project);
+    project.updatedAt = new Date().toISOString();
+    await writeProject(project);
+    return project;
+  });
+}
+
+/**
+ * プロジェクトを削除する
+ * @param id プロジェクトID
+ * @returns 削除した場合はtrue
+ */
+export function deleteProject(id: string): Promise<boolean> {
+  return enqueue(id, async () => {
+    const projectPath = getProjectPath(id);
+    if (!projectPath || !(await getProject(id))) {
+      return false;
+    }
+    await rm(projectPath, { force: true });
+    return true;
+  });
+}
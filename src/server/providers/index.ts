@@ -0,0 +1,57 @@
+import { DEFAULT_PROVIDER_SET } from '../../providers.ts';
+import type { ProviderSetName } from '../../providers.ts';
+import { geminiAnalysisProvider } from '../gemini.ts';
+import { lumaImageProvider, lumaVideoProvider } from '../luma.ts';
+import { getProject } from '../projectStore.ts';
+import { mockAnalysisProvider, mockImageProvider, mockVideoProvider } from './mock.ts';
+import {
+  geminiServerQueue,
+  limitAnalysisProvider,
+  limitImageProvider,
+  limitVideoProvider,
+  lumaServerQueue
+} from './rateLimit.ts';
+import type { ProviderSet } from './types.ts';
+
+// 登録されている提供元の組み合わせ（APIを呼び出す提供元はサーバー全体のキューでレート制限する）
+const PROVIDER_REGISTRY: Record<ProviderSetName, ProviderSet> = {
+  'gemini-luma': {
+    analysis: limitAnalysisProvider(geminiAnalysisProvider, geminiServerQueue),
+    image: limitImageProvider(lumaImageProvider, lumaServerQueue),
+    video: limitVideoProvider(lumaVideoProvider, lumaServerQueue)
+  },
+  mock: {
+    analysis: mockAnalysisProvider,
+    image: mockImageProvider,
+    video: mockVideoProvider
+  }
+};
+
+/**
+ * 提供元の組み合わせを取得する
+ * @param name 組み合わせの名前（省略時は既定の組み合わせ）
+ * @returns 提供元の組み合わせ
+ */
+export function getProviderSet(name: ProviderSetName = DEFAULT_PROVIDER_SET): ProviderSet {
+  return PROVIDER_REGISTRY[name] ?? PROVIDER_REGISTRY[DEFAULT_PROVIDER_SET];
+}
+
+/**
+ * プロジェクトで選ばれている提供元の組み合わせを取得する
+ * @param projectId プロジェクトID（ない場合や見つからない場合は既定の組み合わせ）
+ * @returns 提供元の組み合わせ
+ */
+export async function getProjectProviders(projectId: unknown): Promise<ProviderSet> {
+  const project = typeof projectId === 'string' ? await getProject(projectId) : null;
+  return getProviderSet(project?.provider);
+}
+
+/**
+ * 生成IDから、その生成を発行した提供元の組み合わせを取得する（状態取得と削除に使う）
+ * @param id 生成ID
+ * @returns 提供元の組み合わせ（接頭辞が一致しない場合は既定の組み合わせ）
+ */
+export function getGenerationProviders(id: string): ProviderSet {
+  return Object.values(PROVIDER_REGISTRY).find(set => set.image.idPrefix && id.startsWith(set.image.idPrefix))
+    ?? getProviderSet();
+}
@@ -0,0 +1,169 @@
+import { randomUUID } from 'crypto';
+import { readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { SECTION_LABEL_NAMES } from '../../audioStructure.ts';
+import type { LumaImageResponse, LumaVideoResponse } from '../../lumaGeneration.ts';
+import type { StyleBible } from '../../styleBible.ts';
+import { cacheCompletedGeneration, createCacheKey, getCachedGenerationById, hashContent, storeAsset } from '../cache.ts';
+import { LumaApiError, toImageRequestBody, toVideoRequestBody } from '../luma.ts';
+import { renderPlaceholderClip } from '../render.ts';
+import type { AnalysisProvider, ImageProvider, VideoProvider } from './types.ts';
+
+// モックの提供元が発行する生成IDの接頭辞
+const MOCK_ID_PREFIX = 'mock-';
+
+// プレースホルダーの背景色（入力のハッシュで選ぶため、同じ入力からは同じ色になる）
+const PLACEHOLDER_COLORS = ['#1e3a5f', '#5f1e3a', '#1e5f3a', '#5f4b1e', '#3a1e5f', '#1e5a5f', '#5f2f1e', '#2f2f2f'];
+
+// モックのスタイルバイブルに使う色とモチーフ
+const MOCK_PALETTE = ['deep teal', 'amber glow', 'muted crimson', 'pale lavender', 'charcoal grey', 'soft gold'];
+const MOCK_MOTIFS = ['a lone traveler in a long grey coat', 'a paper lantern', 'a flock of white birds', 'a red bicycle'];
+
+/**
+ * 入力から決まった値を選ぶ
+ * @param seed 入力のハッシュ
+ * @param items 選ぶ候補
+ * @param offset ハッシュのどの位置を使うか
+ * @returns 選んだ値
+ */
+function pick<T>(seed: string, items: T[], offset = 0): T {
+  return items[parseInt(seed.slice(offset * 2, offset * 2 + 8), 16) % items.length];
+}
+
+/**
+ * SVGに埋め込む文字列をエスケープする
+ * @param text 文字列
+ * @returns エスケープした文字列
+ */
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * プロンプトを表示したプレースホルダーの画像を作成する
+ * @param label 大きく表示する見出し
+ * @param prompt 生成プロンプト
+ * @param color 背景色
+ * @returns SVGのデータ
+ */
+function createPlaceholderImage(label: string, prompt: string, color: string): Buffer {
+  const caption = prompt.length > 90 ? `${prompt.slice(0, 87)}...` : prompt;
+  return Buffer.from(`<svg xmlns="http://www.w3.org/2000/svg" width="1920" height="1080" viewBox="0 0 1920 1080">
+  <rect width="1920" height="1080" fill="${color}"/>
+  <text x="960" y="500" fill="#ffffff" font-family="sans-serif" font-size="72" text-anchor="middle">${escapeXml(label)}</text>
+  <text x="960" y="600" fill="#ffffffcc" font-family="sans-serif" font-size="32" text-anchor="middle">${escapeXml(caption)}</text>
+</svg>
+`);
+}
+
+/**
+ * 記録済みのモックの生成結果を取得する
+ * @param id 生成ID
+ * @returns 生成結果
+ */
+async function getMockGeneration<T extends LumaImageResponse | LumaVideoResponse>(id: string): Promise<T> {
+  const generation = await getCachedGenerationById<T>(id);
+  if (!generation) {
+    throw new LumaApiError('生成が見つかりません', 404);
+  }
+  return generation;
+}
+
+// 特徴量と楽曲構造から決まった分析結果を返す分析の提供元
+export const mockAnalysisProvider: AnalysisProvider = {
+  name: 'mock',
+  model: 'mock',
+  estimateCost: () => 0,
+  analyzeSegment: async (input) => {
+    const section = input.section ? SECTION_LABEL_NAMES[input.section] : 'セグメント';
+    const tempo = input.features?.bpm ? `${Math.round(input.features.bpm)} BPM` : 'テンポ不明';
+    const range = `${input.startTime.toFixed(1)}〜${input.endTime.toFixed(1)}秒`;
+    const seed = hashContent(input.audio);
+    const color = pick(seed, MOCK_PALETTE);
+    const motif = input.styleBible?.motifs[0] ?? pick(seed, MOCK_MOTIFS, 1);
+
+    return {
+      story: `（モック）${range}の${section}。${tempo}の流れに合わせて場面が進む。`,
+      visual: `（モック）${color}を基調にした映像。`,
+      emotion: `（モック）${section}らしい感情の動き。`,
+      imagePrompt: `Placeholder scene for the ${input.section ?? 'segment'} at ${input.startTime.toFixed(1)}-${input.endTime.toFixed(1)}s, ${motif}, ${color} tones, ${tempo}`
+    };
+  },
+  analyzeTrackStyle: async (input): Promise<StyleBible> => {
+    const seed = hashContent(input.audio);
+    return {
+      worldview: `（モック）「${input.fileName}」の世界観。`,
+      palette: [0, 1, 2].map(offset => pick(seed, MOCK_PALETTE, offset)),
+      motifs: [pick(seed, MOCK_MOTIFS)],
+      camera: 'static wide shot',
+      era: 'present day',
+      medium: 'flat placeholder illustration'
+    };
+  }
+};
+
+// プロンプトを表示した単色の画像を返す画像の提供元（生成は即座に完了する）
+export const mockImageProvider: ImageProvider = {
+  name: 'mock',
+  idPrefix: MOCK_ID_PREFIX,
+  estimateCost: () => 0,
+  createImage: async (options) => {
+    const request = toImageRequestBody(options);
+    // 生成し直す場合（再生成や候補）は、同じプロンプトからも別の画像になるよう乱数を加える
+    const seed = options.fresh ? { ...request, nonce: randomUUID() } : request;
+    const id = `${MOCK_ID_PREFIX}image-${createCacheKey(seed).slice(0, 32)}`;
+    const existing = await getCachedGenerationById<LumaImageResponse>(id);
+    if (existing) {
+      return existing;
+    }
+
+    const color = pick(hashContent(options.fresh ? id : request.prompt), PLACEHOLDER_COLORS);
+    const image = await storeAsset(createPlaceholderImage('MOCK IMAGE', request.prompt, color), '.svg');
+    return cacheCompletedGeneration({
+      id,
+      type: 'image',
+      state: 'completed',
+      assets: { image },
+      localAssets: { image }
+    });
+  },
+  getImage: (id) => getMockGeneration<LumaImageResponse>(id),
+  deleteGeneration: async () => {}
+};
+
+// 単色の動画を返す動画の提供元（ffmpegで作成し、生成は即座に完了する）
+export const mockVideoProvider: VideoProvider = {
+  name: 'mock',
+  idPrefix: MOCK_ID_PREFIX,
+  estimateCost: () => 0,
+  createVideo: async (options) => {
+    const request = toVideoRequestBody(options);
+    const id = `${MOCK_ID_PREFIX}video-${createCacheKey(request).slice(0, 32)}`;
+    const existing = await getCachedGenerationById<LumaVideoResponse>(id);
+    if (existing) {
+      return existing;
+    }
+
+    const color = pick(hashContent(request.prompt), PLACEHOLDER_COLORS);
+    const clipPath = path.join(tmpdir(), `${id}.mp4`);
+    let video: string;
+    try {
+      await renderPlaceholderClip(clipPath, color, parseInt(request.duration, 10));
+      video = await storeAsset(await readFile(clipPath), '.mp4');
+    } finally {
+      await rm(clipPath, { force: true });
+    }
+    const thumbnail = await storeAsset(createPlaceholderImage('MOCK CLIP', request.prompt, color), '.svg');
+
+    return cacheCompletedGeneration({
+      id,
+      type: 'video',
+      state: 'completed',
+      assets: { video, thumbnail },
+      localAssets: { video, thumbnail }
+    });
+  },
+  getVideo: (id) => getMockGeneration<LumaVideoResponse>(id),
+  deleteGeneration: async () => {}
+};
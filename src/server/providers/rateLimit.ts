@@ -0,0 +1,50 @@
+import { configureQueueFromEnv, TaskQueue } from '../../taskQueue.ts';
+import type { AnalysisProvider, ImageProvider, VideoProvider } from './types.ts';
+
+// 提供元ごとの共有キュー（ブラウザのタブや再開した処理をまたいで、サーバー全体で同時実行数と開始間隔を制限する）
+// Lumaの画像と動画は同じアカウントのレート制限を受けるため、同じキューで制限する
+export const lumaServerQueue = new TaskQueue({ concurrency: 3, interval: 1000 });
+export const geminiServerQueue = new TaskQueue({ concurrency: 3, interval: 500 });
+
+configureQueueFromEnv(lumaServerQueue, 'LUMA', process.env, '');
+configureQueueFromEnv(geminiServerQueue, 'GEMINI', process.env, '');
+
+/**
+ * 分析の呼び出しをキューで制限する提供元を作成する
+ * @param provider 元の提供元
+ * @param queue 使用するタスクキュー
+ * @returns 分析をキューで実行する提供元
+ */
+export function limitAnalysisProvider(provider: AnalysisProvider, queue: TaskQueue): AnalysisProvider {
+  return {
+    ...provider,
+    analyzeSegment: (input) => queue.run(() => provider.analyzeSegment(input)),
+    analyzeTrackStyle: (input) => queue.run(() => provider.analyzeTrackStyle(input))
+  };
+}
+
+/**
+ * 生成の開始をキューで制限する提供元を作成する（状態の取得と削除は中止を遅らせないよう制限しない）
+ * @param provider 元の提供元
+ * @param queue 使用するタスクキュー
+ * @returns 生成の開始をキューで実行する提供元
+ */
+export function limitImageProvider(provider: ImageProvider, queue: TaskQueue): ImageProvider {
+  return {
+    ...provider,
+    createImage: (options) => queue.run(() => provider.createImage(options))
+  };
+}
+
+/**
+ * 生成の開始をキューで制限する提供元を作成する（状態の取得と削除は中止を遅らせないよう制限しない）
+ * @param provider 元の提供元
+ * @param queue 使用するタスクキュー
+ * @returns 生成の開始をキューで実行する提供元
+ */
+export function limitVideoProvider(provider: VideoProvider, queue: TaskQueue): VideoProvider {
+  return {
+    ...provider,
+    createVideo: (options) => queue.run(() => provider.createVideo(options))
+  };
+}
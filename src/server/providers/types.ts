@@ -0,0 +1,63 @@
+import type {
+  ImageGenerationOptions,
+  LumaImageResponse,
+  LumaVideoResponse,
+  VideoGenerationOptions
+} from '../../lumaGeneration.ts';
+import type { StyleBible } from '../../styleBible.ts';
+import type { SegmentAudioAnalysis, SegmentAudioInput, TrackAudioInput } from '../gemini.ts';
+
+/**
+ * 音声を分析する提供元
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  /** 分析に使うモデル（分析結果のキャッシュキーに含める） */
+  readonly model: string;
+  /** 分析1回の概算費用（USD）。予算の確認に使う（応答の修正を依頼する分は含まない） */
+  estimateCost(kind: 'segment' | 'style'): number;
+  /** 音声セグメントを分析して画像生成プロンプトを作成する */
+  analyzeSegment(input: SegmentAudioInput): Promise<SegmentAudioAnalysis>;
+  /** 楽曲全体の音声からスタイルバイブルを作成する */
+  analyzeTrackStyle(input: TrackAudioInput): Promise<StyleBible>;
+}
+
+/**
+ * 画像と動画の生成に共通する操作
+ */
+interface GenerationProvider {
+  readonly name: string;
+  /** この提供元が発行する生成IDの接頭辞（状態取得と削除をどの提供元に送るかの判定に使う） */
+  readonly idPrefix?: string;
+  /** 生成を削除する（待機中・生成中の場合は中止する） */
+  deleteGeneration(id: string): Promise<void>;
+}
+
+/**
+ * 静止画を生成する提供元
+ */
+export interface ImageProvider extends GenerationProvider {
+  /** 生成の概算費用（USD）。予算の確認に使う */
+  estimateCost(options: ImageGenerationOptions): number;
+  createImage(options: ImageGenerationOptions): Promise<LumaImageResponse>;
+  getImage(id: string): Promise<LumaImageResponse>;
+}
+
+/**
+ * 動画クリップを生成する提供元
+ */
+export interface VideoProvider extends GenerationProvider {
+  /** 生成の概算費用（USD）。予算の確認に使う */
+  estimateCost(options: VideoGenerationOptions): number;
+  createVideo(options: VideoGenerationOptions): Promise<LumaVideoResponse>;
+  getVideo(id: string): Promise<LumaVideoResponse>;
+}
+
+/**
+ * プロジェクトで使う提供元の組み合わせ
+ */
+export interface ProviderSet {
+  analysis: AnalysisProvider;
+  image: ImageProvider;
+  video: VideoProvider;
+}
@@ -0,0 +1,109 @@
+import { spawnSync } from 'child_process';
+import { mkdir, rm } from 'fs/promises';
+import path from 'path';
+import { afterAll, describe, expect, it, vi } from 'vitest';
+
+// レンダリング結果を作業用のディレクトリに保存する（render.tsを読み込む前に設定する）
+const dataDir = await vi.hoisted(async () => {
+  const { tmpdir } = await import('os');
+  const { join } = await import('path');
+  const dir = join(tmpdir(), `render-test-${process.pid}`);
+  process.env.DATA_DIR = dir;
+  return dir;
+});
+
+const { createRenderPlan, renderPlaceholderClip, renderVideo } = await import('./render.ts');
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+const hasFfmpeg = spawnSync(FFMPEG_PATH, ['-version']).status === 0;
+
+/**
+ * ffmpegで動画の長さを調べる
+ * @param filePath 動画のパス
+ * @returns 長さ（秒）
+ */
+function probeDuration(filePath: string): number {
+  const { stderr } = spawnSync(FFMPEG_PATH, ['-hide_banner', '-i', filePath], { encoding: 'utf-8' });
+  const match = stderr.match(/Duration: (\d+):(\d+):([\d.]+)/);
+  if (!match) {
+    throw new Error(`動画の長さを取得できませんでした: ${stderr}`);
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+}
+
+afterAll(async () => {
+  await rm(dataDir, { recursive: true, force: true });
+});
+
+describe('createRenderPlan', () => {
+  const clip = (startTime: number, endTime: number) => ({ source: `/clips/${startTime}.mp4`, startTime, endTime });
+
+  it('クリップを開始時間の順に並べ、長さのないクリップを除く', () => {
+    const plan = createRenderPlan([clip(4, 8), clip(0, 4), clip(8, 8)]);
+    expect(plan.clips.map(item => item.startTime)).toEqual([0, 4]);
+    expect(plan.totalDuration).toBe(8);
+  });
+
+  it('クロスフェードしない場合はセグメントの長さのまま単純に連結する', () => {
+    const plan = createRenderPlan([clip(0, 4), clip(4, 10)]);
+    expect(plan.fade).toBe(0);
+    expect(plan.durations).toEqual([4, 6]);
+    expect(plan.xfadeFilter).toBeNull();
+  });
+
+  it('最後以外のクリップをクロスフェードの分だけ長くし、offsetをセグメントの開始時間に合わせる', () => {
+    const plan = createRenderPlan([clip(2, 6), clip(6, 9), clip(9, 14)], 0.5);
+    expect(plan.fade).toBe(0.5);
+    expect(plan.durations).toEqual([4.5, 3.5, 5]);
+    expect(plan.xfadeFilter).toBe([
+      '[0:v][1:v]xfade=transition=fade:duration=0.500:offset=4.000[x1]',
+      '[x1][2:v]xfade=transition=fade:duration=0.500:offset=7.000[v]'
+    ].join(';'));
+    expect(plan.totalDuration).toBe(12);
+  });
+
+  it('クロスフェードは最も短いセグメントの半分までにする', () => {
+    const plan = createRenderPlan([clip(0, 1), clip(1, 5)], 2);
+    expect(plan.fade).toBe(0.5);
+    expect(plan.durations).toEqual([1.5, 4]);
+  });
+
+  it('クリップが1つの場合はクロスフェードしない', () => {
+    const plan = createRenderPlan([clip(0, 5)], 1);
+    expect(plan.fade).toBe(0);
+    expect(plan.xfadeFilter).toBeNull();
+  });
+
+  it('レンダリングできるクリップがない場合はエラーにする', () => {
+    expect(() => createRenderPlan([clip(3, 3)])).toThrow('レンダリングするクリップがありません');
+  });
+});
+
+describe.skipIf(!hasFfmpeg)('renderVideo（ffmpegで作成したクリップ）', () => {
+  it('クリップをクロスフェードで連結し、音声を合成した動画をセグメントの合計の長さで出力する', async () => {
+    const fixtureDir = path.join(dataDir, 'fixtures');
+    const clipPaths = [path.join(fixtureDir, 'red.mp4'), path.join(fixtureDir, 'blue.mp4')];
+    const audioPath = path.join(fixtureDir, 'tone.m4a');
+    await mkdir(fixtureDir, { recursive: true });
+    await renderPlaceholderClip(clipPaths[0], '#ff0000', 2);
+    await renderPlaceholderClip(clipPaths[1], '#0000ff', 2);
+    spawnSync(FFMPEG_PATH, ['-y', '-f', 'lavfi', '-i', 'sine=frequency=440:duration=8', '-c:a', 'aac', audioPath]);
+
+    const progress: number[] = [];
+    const { outputPath } = await renderVideo({
+      // 2秒のクリップを3秒と2.5秒のセグメントに合わせて（1つ目はループして）使う
+      clips: [
+        { source: clipPaths[0], startTime: 1, endTime: 4 },
+        { source: clipPaths[1], startTime: 4, endTime: 6.5 }
+      ],
+      audioPath,
+      crossfade: 0.5,
+      width: 320,
+      height: 180,
+      onProgress: percent => progress.push(percent)
+    });
+
+    expect(probeDuration(outputPath)).toBeCloseTo(5.5, 0);
+    expect(progress.at(-1)).toBe(100);
+  }, 60_000);
+});
@@ -0,0 +1,347 @@
+import { spawn } from 'child_process';
+import { randomUUID } from 'crypto';
+import { createWriteStream } from 'fs';
+import { copyFile, mkdir, rm, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as WebReadableStream } from 'stream/web';
+
+export interface RenderClip {
+  /** クリップの取得元（http(s)のURLまたはローカルファイルのパス） */
+  source: string;
+  /** セグメントの開始時間（秒） */
+  startTime: number;
+  /** セグメントの終了時間（秒） */
+  endTime: number;
+}
+
+export interface RenderOptions {
+  clips: RenderClip[];
+  /** 合成する音声ファイルのパス */
+  audioPath: string;
+  /** クリップ間のクロスフェードの長さ（秒）。0で単純な連結 */
+  crossfade?: number;
+  width?: number;
+  height?: number;
+  fps?: number;
+  /** 進捗状況（0〜100）のコールバック */
+  onProgress?: (percent: number) => void;
+}
+
+export interface RenderPlan {
+  /** 開始時間の順に並べたクリップ（長さのないクリップは除く） */
+  clips: RenderClip[];
+  /** クリップ間のクロスフェードの長さ（秒） */
+  fade: number;
+  /** 各クリップを正規化する長さ（秒） */
+  durations: number[];
+  /** クロスフェードで連結するffmpegのフィルター。クロスフェードしない場合はnull */
+  xfadeFilter: string | null;
+  /** 最終動画の長さ（秒） */
+  totalDuration: number;
+}
+
+/**
+ * ffmpegの実行に失敗した場合のエラー
+ */
+export class FfmpegError extends Error {
+  constructor(message: string, public readonly stderr: string = '') {
+    super(message);
+    this.name = 'FfmpegError';
+  }
+}
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || 'ffmpeg';
+
+// 進捗の計算で、音声の合成（映像はコピーのみ）をクリップの処理に対してどれだけの重みとみなすか
+const MUX_PROGRESS_WEIGHT = 0.2;
+
+// アップロードされた音声とレンダリング結果の保存先
+export const DATA_DIR = path.resolve(process.env.DATA_DIR || 'data');
+export const UPLOAD_DIR = path.join(DATA_DIR, 'uploads');
+export const RENDER_DIR = path.join(DATA_DIR, 'renders');
+
+/**
+ * ffmpegを実行する
+ * @param args コマンドライン引数
+ * @param onTime 処理済みの出力の長さ（秒）を受け取るコールバック
+ */
+function runFfmpeg(args: string[], onTime?: (seconds: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const progressArgs = onTime ? ['-progress', 'pipe:1', '-nostats'] : [];
+    const child = spawn(FFMPEG_PATH, ['-hide_banner', '-loglevel', 'error', '-y', ...progressArgs, ...args]);
+    let stderr = '';
+    let stdout = '';
+
+    child.stderr.on('data', (chunk) => {
+      stderr += chunk;
+    });
+
+    // -progressの出力は「key=value」の行で、out_time_usに処理済みの長さ（マイクロ秒）が入る
+    child.stdout.on('data', (chunk) => {
+      if (!onTime) return;
+      stdout += chunk;
+      const lines = stdout.split('\n');
+      stdout = lines.pop() ?? '';
+      for (const line of lines) {
+        const match = line.match(/^out_time_(?:us|ms)=(\d+)/);
+        if (match) {
+          onTime(Number(match[1]) / 1000000);
+        }
+      }
+    });
+
+    child.on('error', (error) => {
+      reject(new FfmpegError(`ffmpegを起動できませんでした (${FFMPEG_PATH}): ${error.message}`));
+    });
+
+    child.on('close', (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new FfmpegError(`ffmpegがエラーで終了しました (code ${code})`, stderr));
+      }
+    });
+  });
+}
+
+/**
+ * クリップを作業ディレクトリに取得する
+ * @param source URLまたはローカルファイルのパス
+ * @param destination 保存先のパス
+ */
+async function fetchClip(source: string, destination: string): Promise<void> {
+  if (!/^https?:\/\//.test(source)) {
+    await copyFile(source, destination);
+    return;
+  }
+
+  const response = await fetch(source);
+  if (!response.ok || !response.body) {
+    throw new Error(`クリップのダウンロードに失敗しました (${response.status}: ${source})`);
+  }
+  await pipeline(Readable.fromWeb(response.body as WebReadableStream), createWriteStream(destination));
+}
+
+/**
+ * 単色のプレースホルダーの動画を作成する（モックの提供元が返すクリップ）
+ * @param outputPath 保存先のパス（.mp4）
+ * @param color 背景色（#rrggbb）
+ * @param seconds 動画の長さ（秒）
+ */
+export async function renderPlaceholderClip(outputPath: string, color: string, seconds: number): Promise<void> {
+  await runFfmpeg([
+    '-f', 'lavfi',
+    '-i', `color=c=0x${color.replace('#', '')}:s=1280x720:r=24:d=${seconds}`,
+    '-c:v', 'libx264',
+    '-pix_fmt', 'yuv420p',
+    '-t', String(seconds),
+    outputPath
+  ]);
+}
+
+/**
+ * アップロードされた音声を保存する
+ * @param audio 音声データ
+ * @param extension 拡張子
+ * @returns 保存した音声のID
+ */
+export async function saveUploadedAudio(audio: Buffer, extension: string): Promise<string> {
+  await mkdir(UPLOAD_DIR, { recursive: true });
+  const id = `${randomUUID()}${extension}`;
+  await writeFile(path.join(UPLOAD_DIR, id), audio);
+  return id;
+}
+
+/**
+ * 保存済みの音声のパスを取得する
+ * @param id 音声のID
+ * @returns 音声ファイルのパス。存在しない場合はnull
+ */
+export async function resolveUploadedAudio(id: string): Promise<string | null> {
+  // パストラバーサルを防ぐためファイル名のみを受け付ける
+  if (path.basename(id) !== id) {
+    return null;
+  }
+  const audioPath = path.join(UPLOAD_DIR, id);
+  try {
+    await stat(audioPath);
+    return audioPath;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 保存済みの音声を削除する
+ * @param id 音声のID
+ */
+export async function deleteUploadedAudio(id: string): Promise<void> {
+  const audioPath = await resolveUploadedAudio(id);
+  if (audioPath) {
+    await rm(audioPath, { force: true });
+  }
+}
+
+/**
+ * レンダリング結果のパスを取得する
+ * @param id レンダリングID
+ * @returns MP4ファイルのパス
+ */
+export function getRenderPath(id: string): string | null {
+  if (!/^[0-9a-f-]+$/.test(id)) {
+    return null;
+  }
+  return path.join(RENDER_DIR, `${id}.mp4`);
+}
+
+/**
+ * クリップの長さとクロスフェードの連結方法を決める
+ * @param inputClips レンダリングするクリップ
+ * @param crossfade クリップ間のクロスフェードの長さ（秒）
+ * @returns レンダリングの計画
+ */
+export function createRenderPlan(inputClips: RenderClip[], crossfade = 0): RenderPlan {
+  const clips = [...inputClips]
+    .filter(clip => clip.endTime > clip.startTime)
+    .sort((a, b) => a.startTime - b.startTime);
+  if (clips.length === 0) {
+    throw new Error('レンダリングするクリップがありません');
+  }
+
+  // クロスフェードは最も短いセグメントの半分までにする
+  const shortest = Math.min(...clips.map(clip => clip.endTime - clip.startTime));
+  const fade = clips.length > 1 ? Math.max(0, Math.min(crossfade, shortest / 2)) : 0;
+
+  // クロスフェードで重なる分だけ、最後以外のクリップを長くする
+  const durations = clips.map((clip, i) => clip.endTime - clip.startTime + (i < clips.length - 1 ? fade : 0));
+
+  // 各クリップがセグメントの開始時間から始まるよう、xfadeのoffsetは先頭のクリップからの経過時間にする
+  let xfadeFilter: string | null = null;
+  if (fade > 0) {
+    const filters: string[] = [];
+    let previous = '[0:v]';
+    for (let i = 1; i < clips.length; i++) {
+      const offset = clips[i].startTime - clips[0].startTime;
+      const label = i === clips.length - 1 ? '[v]' : `[x${i}]`;
+      filters.push(`${previous}[${i}:v]xfade=transition=fade:duration=${fade.toFixed(3)}:offset=${offset.toFixed(3)}${label}`);
+      previous = label;
+    }
+    xfadeFilter = filters.join(';');
+  }
+
+  return {
+    clips,
+    fade,
+    durations,
+    xfadeFilter,
+    totalDuration: clips[clips.length - 1].endTime - clips[0].startTime
+  };
+}
+
+/**
+ * クリップを連結し、元の音声を合成したMP4を作成する
+ * 各クリップはセグメントの長さに合わせてトリミングまたはループする
+ * @param options レンダリングオプション
+ * @returns レンダリングIDと出力ファイルのパス
+ */
+export async function renderVideo(options: RenderOptions): Promise<{ id: string; outputPath: string }> {
+  const {
+    audioPath,
+    crossfade = 0,
+    width = 1280,
+    height = 720,
+    fps = 24,
+    onProgress
+  } = options;
+
+  const { clips, durations, xfadeFilter, totalDuration } = createRenderPlan(options.clips, crossfade);
+
+  const id = randomUUID();
+  const workDir = path.join(DATA_DIR, 'tmp', id);
+  await mkdir(workDir, { recursive: true });
+  await mkdir(RENDER_DIR, { recursive: true });
+  const outputPath = path.join(RENDER_DIR, `${id}.mp4`);
+
+  // 進捗は各工程で処理する映像の長さの合計に対する割合で表す
+  const totalWork = totalDuration * (2 + MUX_PROGRESS_WEIGHT);
+  let completedWork = 0;
+  let lastPercent = -1;
+  const reportProgress = (work: number) => {
+    const percent = Math.min(99, Math.floor((completedWork + work) / totalWork * 100));
+    if (onProgress && percent > lastPercent) {
+      lastPercent = percent;
+      onProgress(percent);
+    }
+  };
+
+  try {
+    // 1. クリップを取得し、セグメントの長さに正規化する
+    const normalizedPaths: string[] = [];
+    for (let i = 0; i < clips.length; i++) {
+      const clip = clips[i];
+      const sourcePath = path.join(workDir, `source_${i}.mp4`);
+      const normalizedPath = path.join(workDir, `clip_${i}.mp4`);
+      await fetchClip(clip.source, sourcePath);
+
+      await runFfmpeg([
+        '-stream_loop', '-1',
+        '-i', sourcePath,
+        '-t', durations[i].toFixed(3),
+        '-vf', `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${fps},format=yuv420p`,
+        '-an',
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        normalizedPath
+      ], (seconds) => reportProgress(Math.min(seconds, clip.endTime - clip.startTime)));
+      completedWork += clip.endTime - clip.startTime;
+      reportProgress(0);
+      normalizedPaths.push(normalizedPath);
+    }
+
+    // 2. クリップを連結する
+    const videoPath = path.join(workDir, 'video.mp4');
+    if (xfadeFilter) {
+      const inputs = normalizedPaths.flatMap(clipPath => ['-i', clipPath]);
+      await runFfmpeg([
+        ...inputs,
+        '-filter_complex', xfadeFilter,
+        '-map', '[v]',
+        '-c:v', 'libx264',
+        '-preset', 'veryfast',
+        '-pix_fmt', 'yuv420p',
+        videoPath
+      ], (seconds) => reportProgress(Math.min(seconds, totalDuration)));
+    } else {
+      const listPath = path.join(workDir, 'clips.txt');
+      await writeFile(listPath, normalizedPaths.map(clipPath => `file '${clipPath.replace(/'/g, "'\\''")}'`).join('\n'));
+      await runFfmpeg(
+        ['-f', 'concat', '-safe', '0', '-i', listPath, '-c', 'copy', videoPath],
+        (seconds) => reportProgress(Math.min(seconds, totalDuration))
+      );
+    }
+    completedWork += totalDuration;
+    reportProgress(0);
+
+    // 3. 元の音声を合成する
+    await runFfmpeg([
+      '-i', videoPath,
+      '-ss', clips[0].startTime.toFixed(3),
+      '-i', audioPath,
+      '-map', '0:v:0',
+      '-map', '1:a:0',
+      '-t', totalDuration.toFixed(3),
+      '-c:v', 'copy',
+      '-c:a', 'aac',
+      '-b:a', '192k',
+      '-movflags', '+faststart',
+      outputPath
+    ], (seconds) => reportProgress(Math.min(seconds, totalDuration) * MUX_PROGRESS_WEIGHT));
+    if (onProgress) onProgress(100);
+
+    return { id, outputPath };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,185 @@
+import express from 'express';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { SECTION_LABEL_NAMES, SectionLabel } from '../../audioStructure.ts';
+import { isStyleBible, StyleBible } from '../../styleBible.ts';
+import { withinBudget } from '../budget.ts';
+import { createCacheKey, getCachedAnalysis, hashContent, setCachedAnalysis } from '../cache.ts';
+import {
+  AudioTooLargeError,
+  MAX_SEGMENT_AUDIO_BYTES,
+  SegmentAudioAnalysis,
+  SegmentAudioInput
+} from '../gemini.ts';
+import { GeminiSchemaError } from '../geminiSchema.ts';
+import { LumaApiError, sendLumaError } from '../luma.ts';
+import { getProjectProviders } from '../providers/index.ts';
+import { resolveUploadedAudio } from '../render.ts';
+
+export const analyzeRouter = express.Router();
+
+// アップロード済み音声の拡張子に対応するMIMEタイプ
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.aac': 'audio/aac',
+  '.flac': 'audio/flac'
+};
+
+/**
+ * 値がセグメントの分析結果の形式かどうかを検証する
+ * @param value 検証する値
+ * @returns 分析結果の場合はtrue
+ */
+function isSegmentAnalysis(value: unknown): value is SegmentAudioAnalysis {
+  const candidate = value as Partial<SegmentAudioAnalysis> | null;
+  return typeof candidate?.story === 'string'
+    && typeof candidate.visual === 'string'
+    && typeof candidate.emotion === 'string'
+    && typeof candidate.imagePrompt === 'string';
+}
+
+// base64の音声を受け取るため、共通のJSONパーサーより大きめの上限を設定する
+analyzeRouter.use(express.json({ limit: Math.ceil(MAX_SEGMENT_AUDIO_BYTES * 4 / 3) + 1024 * 1024 }));
+
+// 音声セグメントの分析
+analyzeRouter.post('/segment', async (req, res) => {
+  const {
+    audio,
+    mimeType,
+    startTime,
+    endTime,
+    features,
+    section,
+    styleBible,
+    previousSegment,
+    continuityStrength,
+    projectId
+  } = req.body ?? {};
+
+  if (typeof audio !== 'string' || typeof startTime !== 'number' || typeof endTime !== 'number') {
+    res.status(400).json({
+      error: true,
+      message: 'audio, startTime, endTimeは必須です'
+    });
+    return;
+  }
+
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    res.status(400).json({
+      error: true,
+      message: 'projectIdは文字列で指定してください'
+    });
+    return;
+  }
+
+  const audioBuffer = Buffer.from(audio, 'base64');
+  console.log('セグメント分析リクエスト:', {
+    startTime,
+    endTime,
+    mimeType,
+    bytes: audioBuffer.length
+  });
+
+  const input: SegmentAudioInput = {
+    audio: audioBuffer,
+    mimeType: typeof mimeType === 'string' ? mimeType : 'audio/wav',
+    startTime,
+    endTime,
+    features: features && typeof features === 'object' ? features : undefined,
+    section: typeof section === 'string' && section in SECTION_LABEL_NAMES ? section as SectionLabel : undefined,
+    styleBible: isStyleBible(styleBible) ? styleBible : undefined,
+    previousSegment: isSegmentAnalysis(previousSegment) ? previousSegment : undefined,
+    continuityStrength: typeof continuityStrength === 'number'
+      ? Math.min(1, Math.max(0, continuityStrength))
+      : undefined
+  };
+
+  try {
+    const provider = (await getProjectProviders(projectId)).analysis;
+    // 同じ音声・範囲・プロンプトの条件で分析済みであれば、Gemini APIを呼び出さずに返す
+    const { audio: _audio, ...conditions } = input;
+    const cacheKey = createCacheKey({ kind: 'segment', audio: hashContent(audioBuffer), model: provider.model, ...conditions });
+    const cached = await getCachedAnalysis<SegmentAudioAnalysis>(cacheKey);
+    if (cached) {
+      console.log('キャッシュからセグメントの分析結果を返却:', { startTime, endTime });
+      res.json(cached);
+      return;
+    }
+
+    // プロジェクトの予算の上限を超える分析は、Gemini APIを呼び出す前に拒否する
+    const analysis = await withinBudget(projectId, provider.estimateCost('segment'), () => provider.analyzeSegment(input));
+    await setCachedAnalysis(cacheKey, analysis);
+    res.json(analysis);
+  } catch (error) {
+    console.error('セグメント分析エラー:', error);
+    if (error instanceof LumaApiError) {
+      // 予算の上限を超えた場合など
+      sendLumaError(res, error, '音楽の分析に失敗しました');
+      return;
+    }
+    res.status(error instanceof AudioTooLargeError ? 413 : error instanceof GeminiSchemaError ? 502 : 500).json({
+      error: true,
+      message: error instanceof Error ? error.message : '音楽の分析に失敗しました'
+    });
+  }
+});
+
+// 楽曲全体のスタイルバイブルの作成
+analyzeRouter.post('/style', async (req, res) => {
+  const { audioId, audioName, projectId } = req.body ?? {};
+
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    res.status(400).json({
+      error: true,
+      message: 'projectIdは文字列で指定してください'
+    });
+    return;
+  }
+
+  const audioPath = typeof audioId === 'string' ? await resolveUploadedAudio(audioId) : null;
+  if (!audioPath) {
+    res.status(400).json({
+      error: true,
+      message: 'アップロード済みの音声が見つかりません'
+    });
+    return;
+  }
+
+  try {
+    const audio = await readFile(audioPath);
+    console.log('スタイルバイブル作成リクエスト:', { audioId, bytes: audio.length });
+
+    const provider = (await getProjectProviders(projectId)).analysis;
+    // 同じ音声から作成済みであれば、Gemini APIを呼び出さずに返す
+    const cacheKey = createCacheKey({ kind: 'style', audio: hashContent(audio), model: provider.model });
+    const cached = await getCachedAnalysis<StyleBible>(cacheKey);
+    if (cached) {
+      console.log('キャッシュからスタイルバイブルを返却:', audioId);
+      res.json(cached);
+      return;
+    }
+
+    // プロジェクトの予算の上限を超える分析は、Gemini APIを呼び出す前に拒否する
+    const styleBible = await withinBudget(projectId, provider.estimateCost('style'), () => provider.analyzeTrackStyle({
+      audio,
+      mimeType: AUDIO_MIME_TYPES[path.extname(audioPath)] ?? 'audio/mpeg',
+      fileName: typeof audioName === 'string' && audioName.length > 0 ? audioName : audioId
+    }));
+    await setCachedAnalysis(cacheKey, styleBible);
+    res.json(styleBible);
+  } catch (error) {
+    console.error('スタイルバイブル作成エラー:', error);
+    if (error instanceof LumaApiError) {
+      // 予算の上限を超えた場合など
+      sendLumaError(res, error, '楽曲全体の世界観の分析に失敗しました');
+      return;
+    }
+    res.status(error instanceof GeminiSchemaError ? 502 : 500).json({
+      error: true,
+      message: error instanceof Error ? error.message : '楽曲全体の世界観の分析に失敗しました'
+    });
+  }
+});
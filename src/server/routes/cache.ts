@@ -0,0 +1,25 @@
+import express from 'express';
+import { resolveCachedAsset } from '../cache.ts';
+
+export const cacheRouter = express.Router();
+
+// ダウンロード済みの生成素材の配信（内容のハッシュがファイル名のため、長期間キャッシュさせる）
+cacheRouter.get('/assets/:name', (req, res) => {
+  const assetPath = resolveCachedAsset(req.params.name);
+  if (!assetPath) {
+    res.status(404).json({
+      error: true,
+      message: '素材が見つかりません'
+    });
+    return;
+  }
+
+  res.sendFile(assetPath, { maxAge: '1y', immutable: true }, (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({
+        error: true,
+        message: '素材が見つかりません'
+      });
+    }
+  });
+});
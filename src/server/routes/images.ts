@@ -0,0 +1,112 @@
+import express from 'express';
+import type { ImageGenerationOptions, LumaImageResponse } from '../../lumaGeneration.ts';
+import { withinBudget } from '../budget.ts';
+import {
+  cacheCompletedGeneration,
+  createCacheKey,
+  getCachedGeneration,
+  getCachedGenerationById,
+  rememberGenerationRequest
+} from '../cache.ts';
+import { publishGenerationStatus } from '../events.ts';
+import {
+  GenerationRequestError,
+  parseImageGenerationOptions,
+  trackClientAbort,
+  validateGenerationIdParam
+} from '../generationRequest.ts';
+import { sendLumaError, toImageRequestBody } from '../luma.ts';
+import { recordGenerationRequest } from '../mediaLibrary.ts';
+import { getGenerationProviders, getProjectProviders } from '../providers/index.ts';
+
+export const imagesRouter = express.Router();
+
+imagesRouter.param('id', validateGenerationIdParam);
+
+// 画像生成の開始
+imagesRouter.post('/', async (req, res) => {
+  const { projectId, fresh } = req.body ?? {};
+
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    res.status(400).json({
+      error: true,
+      message: 'projectIdは文字列で指定してください'
+    });
+    return;
+  }
+
+  let options: ImageGenerationOptions;
+  try {
+    options = parseImageGenerationOptions(req.body ?? {});
+  } catch (error) {
+    res.status(400).json({
+      error: true,
+      message: error instanceof GenerationRequestError ? error.message : '画像生成リクエストが不正です'
+    });
+    return;
+  }
+
+  const isAborted = trackClientAbort(res);
+  try {
+    const provider = (await getProjectProviders(projectId)).image;
+    // 同じプロンプトとモデルで生成済みの画像があれば、Luma APIを呼び出さずに返す（再生成や候補の生成では使わない）
+    // Lumaのキャッシュキーは提供元を追加する前と同じにして、既存のキャッシュをそのまま使う
+    const cacheKey = createCacheKey({
+      kind: 'image',
+      ...(provider.name === 'luma' ? {} : { provider: provider.name }),
+      ...toImageRequestBody(options)
+    });
+    const cached = fresh === true ? null : await getCachedGeneration<LumaImageResponse>(cacheKey);
+    if (cached) {
+      console.log('キャッシュから画像を返却:', cached.id);
+      res.json(cached);
+      return;
+    }
+
+    // プロジェクトの予算の上限を超える生成は、提供元に送信する前に拒否する
+    const cost = provider.estimateCost(options);
+    const generation = await withinBudget(
+      projectId,
+      cost,
+      () => provider.createImage(fresh === true ? { ...options, fresh: true } : options)
+    );
+    if (isAborted()) {
+      // 開始を待つ間にクライアントが中止した生成は、誰も削除できずに費用がかかり続けるためここで削除する
+      await provider.deleteGeneration(generation.id);
+      console.log('中止された生成を削除:', generation.id);
+      return;
+    }
+    await rememberGenerationRequest(cacheKey, generation.id);
+    // メディアライブラリに保存するときのメタデータとして、プロンプトとモデルを記録する
+    await recordGenerationRequest(generation.id, { prompt: options.prompt, model: toImageRequestBody(options).model });
+    res.json(generation);
+  } catch (error) {
+    console.error('画像生成エラー:', error);
+    sendLumaError(res, error, '画像生成リクエストに失敗しました');
+  }
+});
+
+// 画像生成の状態取得
+imagesRouter.get('/:id', async (req, res) => {
+  try {
+    // 完了してキャッシュ済みの生成はLuma APIに問い合わせない
+    const status = await getCachedGenerationById<LumaImageResponse>(req.params.id)
+      ?? await cacheCompletedGeneration(await getGenerationProviders(req.params.id).image.getImage(req.params.id));
+    publishGenerationStatus(status);
+    res.json(status);
+  } catch (error) {
+    console.error('生成状態の取得エラー:', error);
+    sendLumaError(res, error, '生成状態の取得に失敗しました');
+  }
+});
+
+// 画像生成の削除（中止したときに待機中・生成中の生成を止める）
+imagesRouter.delete('/:id', async (req, res) => {
+  try {
+    await getGenerationProviders(req.params.id).image.deleteGeneration(req.params.id);
+    res.json({ deleted: true });
+  } catch (error) {
+    console.error('生成の削除エラー:', error);
+    sendLumaError(res, error, '生成の削除に失敗しました');
+  }
+});
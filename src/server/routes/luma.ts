@@ -0,0 +1,144 @@
+import express from 'express';
+import type { LumaResponse } from '../../lumaGeneration.ts';
+import { withinBudget } from '../budget.ts';
+import {
+  GenerationRequestError,
+  parseImageGenerationOptions,
+  parseVideoGenerationOptions,
+  trackClientAbort,
+  validateGenerationIdParam
+} from '../generationRequest.ts';
+import {
+  createImageGeneration,
+  createVideoGeneration,
+  deleteGeneration,
+  getGeneration,
+  listGenerations,
+  lumaImageProvider,
+  lumaVideoProvider,
+  sendLumaError
+} from '../luma.ts';
+import { lumaServerQueue } from '../providers/rateLimit.ts';
+
+// Luma APIの生成を直接操作するルート（キャッシュと提供元の切り替えを通さない。生成の開始は提供元と同じキューで制限する）
+export const lumaRouter = express.Router();
+
+// 一覧で一度に取得できる最大件数
+const MAX_LIST_LIMIT = 100;
+
+lumaRouter.param('id', validateGenerationIdParam);
+
+/**
+ * クエリの整数を検証する
+ * @param value クエリの値
+ * @param fallback 省略された場合の値
+ * @param min 最小値
+ * @param max 最大値
+ * @returns 検証済みの整数。不正な場合はnull
+ */
+function parseQueryInteger(value: unknown, fallback: number, min: number, max: number): number | null {
+  if (value === undefined) {
+    return fallback;
+  }
+  const parsed = typeof value === 'string' && /^\d+$/.test(value) ? Number(value) : NaN;
+  return Number.isInteger(parsed) && parsed >= min && parsed <= max ? parsed : null;
+}
+
+// 生成の一覧
+lumaRouter.get('/', async (req, res) => {
+  const limit = parseQueryInteger(req.query.limit, 20, 1, MAX_LIST_LIMIT);
+  const offset = parseQueryInteger(req.query.offset, 0, 0, Number.MAX_SAFE_INTEGER);
+  if (limit === null || offset === null) {
+    res.status(400).json({
+      error: true,
+      message: `limitには1〜${MAX_LIST_LIMIT}、offsetには0以上の整数を指定してください`
+    });
+    return;
+  }
+
+  try {
+    res.json({ generations: await listGenerations(limit, offset) });
+  } catch (error) {
+    console.error('生成の一覧の取得エラー:', error);
+    sendLumaError(res, error, '生成の一覧の取得に失敗しました');
+  }
+});
+
+// 生成の開始（generation_typeで画像か動画かを選ぶ。省略時は動画）
+lumaRouter.post('/', async (req, res) => {
+  const { generation_type = 'video', projectId } = req.body ?? {};
+
+  if (generation_type !== 'image' && generation_type !== 'video') {
+    res.status(400).json({
+      error: true,
+      message: 'generation_typeにはimage、videoのいずれかを指定してください'
+    });
+    return;
+  }
+
+  if (projectId !== undefined && typeof projectId !== 'string') {
+    res.status(400).json({
+      error: true,
+      message: 'projectIdは文字列で指定してください'
+    });
+    return;
+  }
+
+  let start: () => Promise<LumaResponse>;
+  let cost: number;
+  try {
+    if (generation_type === 'image') {
+      const options = parseImageGenerationOptions(req.body);
+      cost = lumaImageProvider.estimateCost(options);
+      start = () => lumaServerQueue.run(() => createImageGeneration(options));
+    } else {
+      const options = parseVideoGenerationOptions(req.body);
+      cost = lumaVideoProvider.estimateCost(options);
+      start = () => lumaServerQueue.run(() => createVideoGeneration(options));
+    }
+  } catch (error) {
+    res.status(400).json({
+      error: true,
+      message: error instanceof GenerationRequestError ? error.message : '生成リクエストが不正です'
+    });
+    return;
+  }
+
+  console.log('Luma生成リクエスト:', { generation_type, projectId });
+  const isAborted = trackClientAbort(res);
+  try {
+    // プロジェクトの予算の上限を超える生成は、Luma APIに送信する前に拒否する
+    const generation = await withinBudget(projectId, cost, start);
+    if (isAborted()) {
+      // 開始を待つ間にクライアントが中止した生成は、誰も削除できずに費用がかかり続けるためここで削除する
+      await deleteGeneration(generation.id);
+      console.log('中止された生成を削除:', generation.id);
+      return;
+    }
+    res.json(generation);
+  } catch (error) {
+    console.error('Luma生成エラー:', error);
+    sendLumaError(res, error, '生成リクエストに失敗しました');
+  }
+});
+
+// 生成の状態取得
+lumaRouter.get('/:id', async (req, res) => {
+  try {
+    res.json(await getGeneration(req.params.id));
+  } catch (error) {
+    console.error('生成状態の取得エラー:', error);
+    sendLumaError(res, error, '生成状態の取得に失敗しました');
+  }
+});
+
+// 生成の削除（待機中・生成中の場合は中止する）
+lumaRouter.delete('/:id', async (req, res) => {
+  try {
+    await deleteGeneration(req.params.id);
+    res.json({ deleted: true });
+  } catch (error) {
+    console.error('生成の削除エラー:', error);
+    sendLumaError(res, error, '生成の削除に失敗しました');
+  }
+});
@@ -0,0 +1,55 @@
+import express from 'express';
+import { resolveMedia } from '../mediaLibrary.ts';
+
+export const mediaRouter = express.Router();
+
+// メディアライブラリの素材のメタデータ取得
+mediaRouter.get('/:id/metadata', async (req, res) => {
+  try {
+    const media = await resolveMedia(req.params.id);
+    if (!media) {
+      res.status(404).json({
+        error: true,
+        message: '素材が見つかりません'
+      });
+      return;
+    }
+    res.json(media.metadata);
+  } catch (error) {
+    console.error('素材の取得エラー:', error);
+    res.status(500).json({
+      error: true,
+      message: error instanceof Error ? error.message : '素材の取得に失敗しました'
+    });
+  }
+});
+
+// メディアライブラリの素材の配信（未保存の素材はその場でダウンロードして保存する）
+mediaRouter.get('/:id', async (req, res) => {
+  try {
+    const media = await resolveMedia(req.params.id);
+    if (!media) {
+      res.status(404).json({
+        error: true,
+        message: '素材が見つかりません'
+      });
+      return;
+    }
+
+    res.type(media.metadata.contentType);
+    res.sendFile(media.filePath, { maxAge: '1y', immutable: true }, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json({
+          error: true,
+          message: '素材が見つかりません'
+        });
+      }
+    });
+  } catch (error) {
+    console.error('素材の取得エラー:', error);
+    res.status(500).json({
+      error: true,
+      message: error instanceof Error ? error.message : '素材の取得に失敗しました'
+    });
+  }
+});
@@ -0,0 +1,547 @@
+import express from 'express';
+import type { SegmentAnalysis, SegmentationOptions } from '../../audioAnalysis.ts';
+import type { GeneratedMedia, LumaResponse } from '../../lumaGeneration.ts';
+import { createSegmentStatuses, ProjectEvent } from '../../projectEvents.ts';
+import { getLibraryImageUrl } from '../../mediaLibrary.ts';
+import type { Project, ProjectStage, ProjectSummary, ProjectUpdate } from '../../projects.ts';
+import { isProviderSetName, PROVIDER_SET_LABELS } from '../../providers.ts';
+import { isStyleBible } from '../../styleBible.ts';
+import type { FinalRender } from '../../videoRender.ts';
+import { getCachedGenerationIds } from '../cache.ts';
+import {
+  publishProjectEvent,
+  subscribeGenerationStatus,
+  subscribeProjectEvents
+} from '../events.ts';
+import { isGenerationId } from '../generationRequest.ts';
+import { archiveProjectMedia, deleteProjectMedia } from '../mediaLibrary.ts';
+import {
+  createProject,
+  deleteProject,
+  getProject,
+  listProjects,
+  updateProject
+} from '../projectStore.ts';
+import { getGenerationProviders } from '../providers/index.ts';
+import { deleteUploadedAudio, resolveUploadedAudio } from '../render.ts';
+
+export const projectsRouter = express.Router();
+
+const PROJECT_STAGES: ProjectStage[] = [
+  'created',
+  'analyzing',
+  'analyzed',
+  'generating',
+  'completed',
+  'failed',
+  'canceled'
+];
+
+// クライアントが生成IDの発行前や失敗時に置く仮のID（pending-0、pending-variant-0-1、error-0など）
+const PLACEHOLDER_ID_PATTERN = /^(pending|error)-/;
+
+// 生成結果の状態
+const GENERATION_STATES: LumaResponse['state'][] = ['pending', 'processing', 'completed', 'failed'];
+
+// SSEの接続を維持するためのコメントを送る間隔（ミリ秒）
+const HEARTBEAT_INTERVAL = 25000;
+
+// 分析結果や生成結果をまとめて保存するため、共通のJSONパーサーより大きめの上限を設定する
+projectsRouter.use(express.json({ limit: '10mb' }));
+
+/**
+ * パスパラメータのインデックスを検証する
+ * @param value パスパラメータ
+ * @returns インデックス。不正な場合はnull
+ */
+function parseIndex(value: string): number | null {
+  const index = Number(value);
+  return Number.isInteger(index) && index >= 0 ? index : null;
+}
+
+/**
+ * 連続性の強さとして正しい値か
+ * @param value 検証する値
+ * @returns 0〜1の数値の場合はtrue
+ */
+function isContinuityStrength(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+/**
+ * 予算の上限として正しい値か
+ * @param value 検証する値
+ * @returns 0以上の有限の数値の場合はtrue
+ */
+function isBudget(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+/**
+ * 素材のURLの組として正しい値か
+ * @param value 検証する値
+ * @param required 必須のキー
+ * @param optional 省略できるキー
+ * @returns 省略されているか、キーごとの値が文字列の場合はtrue
+ */
+function isAssetUrls(value: unknown, required: string, optional?: string): boolean {
+  if (value === undefined) {
+    return true;
+  }
+  const urls = value as Record<string, unknown> | null;
+  return typeof urls === 'object' && urls !== null
+    && typeof urls[required] === 'string'
+    && (optional === undefined || urls[optional] === undefined || typeof urls[optional] === 'string');
+}
+
+/**
+ * 生成結果として正しい値か（生成IDは素材のファイル名にも使うため形式を確認する）
+ * @param value 検証する値
+ * @param type 生成物の種類
+ * @returns 正しい場合はtrue
+ */
+function isLumaResponse(value: unknown, type: LumaResponse['type']): value is LumaResponse {
+  const response = value as Partial<LumaResponse> | null;
+  if (typeof response !== 'object' || response === null) {
+    return false;
+  }
+  const [asset, optionalAsset] = type === 'image' ? ['image'] : ['video', 'thumbnail'];
+  return response.type === type
+    && isGenerationId(response.id)
+    && GENERATION_STATES.includes(response.state as LumaResponse['state'])
+    && (response.failure_reason === undefined || typeof response.failure_reason === 'string')
+    && isAssetUrls(response.assets, asset, optionalAsset)
+    && isAssetUrls(response.localAssets, asset, optionalAsset);
+}
+
+/**
+ * セグメントの生成結果として正しい値か
+ * @param value 検証する値
+ * @returns 正しい場合はtrue
+ */
+function isGeneratedMedia(value: unknown): value is GeneratedMedia {
+  const media = value as Partial<GeneratedMedia> | null;
+  return typeof media === 'object' && media !== null
+    && Number.isInteger(media.segmentIndex) && (media.segmentIndex as number) >= 0
+    && typeof media.startTime === 'number'
+    && typeof media.endTime === 'number'
+    && isLumaResponse(media.imageResponse, 'image')
+    && (media.clipResponse === undefined || isLumaResponse(media.clipResponse, 'video'))
+    && (media.variants === undefined
+      || (Array.isArray(media.variants) && media.variants.every(variant => isLumaResponse(variant, 'image'))));
+}
+
+/**
+ * PATCHで受け取ったフィールドを検証する
+ * @param body リクエストボディ
+ * @returns 検証済みの更新内容。不正な場合はnull
+ */
+function parseProjectUpdate(body: Record<string, unknown>): ProjectUpdate | null {
+  const update: ProjectUpdate = {};
+
+  if (body.stage !== undefined) {
+    if (!PROJECT_STAGES.includes(body.stage as ProjectStage)) return null;
+    update.stage = body.stage as ProjectStage;
+  }
+  if (body.styleBible !== undefined) {
+    if (body.styleBible !== null && !isStyleBible(body.styleBible)) return null;
+    update.styleBible = body.styleBible;
+  }
+  if (body.continuityStrength !== undefined) {
+    if (body.continuityStrength !== null && !isContinuityStrength(body.continuityStrength)) return null;
+    update.continuityStrength = body.continuityStrength;
+  }
+  if (body.budget !== undefined) {
+    if (body.budget !== null && !isBudget(body.budget)) return null;
+    update.budget = body.budget;
+  }
+  if (body.segments !== undefined) {
+    if (!Array.isArray(body.segments)) return null;
+    update.segments = body.segments;
+  }
+  if (body.analyses !== undefined) {
+    if (!Array.isArray(body.analyses)) return null;
+    update.analyses = body.analyses;
+  }
+  if (body.media !== undefined) {
+    if (!Array.isArray(body.media) || !body.media.every(isGeneratedMedia)) return null;
+    update.media = body.media;
+  }
+  if (body.finalVideo !== undefined) {
+    const finalVideo = body.finalVideo as Partial<FinalRender> | null;
+    if (finalVideo !== null && (typeof finalVideo?.id !== 'string' || typeof finalVideo.url !== 'string')) return null;
+    update.finalVideo = finalVideo && { id: finalVideo.id as string, url: finalVideo.url as string };
+  }
+  for (const key of ['renderError', 'error'] as const) {
+    if (body[key] !== undefined) {
+      if (body[key] !== null && typeof body[key] !== 'string') return null;
+      update[key] = body[key] as string | null;
+    }
+  }
+
+  return update;
+}
+
+/**
+ * セグメントの生成結果をイベントに変換する
+ * @param media 生成結果
+ * @returns 画像とクリップのイベント
+ */
+function createMediaEvents(media: GeneratedMedia): ProjectEvent[] {
+  const toEvent = (type: 'image' | 'clip', response: LumaResponse): ProjectEvent => ({
+    type,
+    segmentIndex: media.segmentIndex,
+    id: response.id,
+    state: response.state,
+    ...(response.failure_reason ? { failure_reason: response.failure_reason } : {})
+  });
+
+  return [
+    toEvent('image', media.imageResponse),
+    ...(media.clipResponse ? [toEvent('clip', media.clipResponse)] : [])
+  ];
+}
+
+// プロジェクトの作成
+projectsRouter.post('/', async (req, res) => {
+  const { audioName, audioId, segmentation, continuityStrength, provider } = req.body ?? {};
+
+  if (typeof audioName !== 'string' || typeof audioId !== 'string' || !(await resolveUploadedAudio(audioId))) {
+    res.status(400).json({
+      error: true,
+      message: 'audioNameとアップロード済みのaudioIdを指定してください'
+    });
+    return;
+  }
+
+  const options = segmentation as Partial<SegmentationOptions> | undefined;
+  if (options?.mode !== 'fixed' && options?.mode !== 'structural') {
+    res.status(400).json({
+      error: true,
+      message: 'segmentationのmodeにはfixedまたはstructuralを指定してください'
+    });
+    return;
+  }
+
+  if (continuityStrength !== undefined && !isContinuityStrength(continuityStrength)) {
+    res.status(400).json({
+      error: true,
+      message: 'continuityStrengthには0〜1の数値を指定してください'
+    });
+    return;
+  }
+
+  if (provider !== undefined && !isProviderSetName(provider)) {
+    res.status(400).json({
+      error: true,
+      message: `providerには${Object.keys(PROVIDER_SET_LABELS).join('、')}のいずれかを指定してください`
+    });
+    return;
+  }
+
+  const project = await createProject({
+    audioName,
+    audioId,
+    segmentation: options as SegmentationOptions,
+    continuityStrength,
+    provider
+  });
+  console.log('プロジェクトを作成:', project.id);
+  res.json(project);
+});
+
+// 一覧に表示するサムネイルの数
+const SUMMARY_THUMBNAIL_COUNT = 4;
+
+/**
+ * プロジェクトの一覧に表示する概要を作成する
+ * @param project プロジェクト
+ * @returns プロジェクトの概要
+ */
+function summarizeProject(project: Project): ProjectSummary {
+  const thumbnails = project.media
+    .map(media => getLibraryImageUrl(project.id, media.imageResponse))
+    .filter((url): url is string => url !== undefined)
+    .slice(0, SUMMARY_THUMBNAIL_COUNT);
+
+  return {
+    id: project.id,
+    audioName: project.audioName,
+    stage: project.stage,
+    ...(project.provider ? { provider: project.provider } : {}),
+    segmentCount: project.segments.length,
+    thumbnails,
+    renderStatus: project.finalVideo ? 'rendered' : project.renderError ? 'failed' : 'none',
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt
+  };
+}
+
+/**
+ * プロジェクトが参照している画像・候補・クリップの生成IDを取得する
+ * @param project プロジェクト
+ * @returns 生成IDの集合
+ */
+function collectGenerationIds(project: Project): Set<string> {
+  return new Set(project.media.flatMap(media => [
+    media.imageResponse.id,
+    ...(media.variants ?? []).map(variant => variant.id),
+    ...(media.clipResponse ? [media.clipResponse.id] : [])
+  ]));
+}
+
+/**
+ * プロジェクトの画像・候補・クリップの生成を提供元から削除する
+ * キャッシュを通して別のプロジェクトと共有している生成と、クライアントが置いた仮のIDは削除しない。
+ * 削除済みや期限切れの生成もあるため、失敗しても残りの削除を続ける
+ * @param project 削除したプロジェクト
+ */
+async function deleteProjectGenerations(project: Project): Promise<void> {
+  const others = await listProjects();
+  const shared = await getCachedGenerationIds();
+  others.forEach(other => collectGenerationIds(other).forEach(id => shared.add(id)));
+
+  const ids = [...collectGenerationIds(project)]
+    .filter(id => isGenerationId(id) && !PLACEHOLDER_ID_PATTERN.test(id) && !shared.has(id));
+
+  for (const id of ids) {
+    try {
+      await getGenerationProviders(id).image.deleteGeneration(id);
+    } catch (error) {
+      console.warn('生成を削除できませんでした:', id, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// プロジェクトの一覧（新しい順の概要）
+projectsRouter.get('/', async (_req, res) => {
+  res.json((await listProjects()).map(summarizeProject));
+});
+
+// プロジェクトの取得
+projectsRouter.get('/:id', async (req, res) => {
+  const project = await getProject(req.params.id);
+  if (!project) {
+    res.status(404).json({
+      error: true,
+      message: 'プロジェクトが見つかりません'
+    });
+    return;
+  }
+  res.json(project);
+});
+
+/**
+ * 完了した素材をバックグラウンドでメディアライブラリに保存する（レスポンスはダウンロードを待たない）
+ * @param projectId プロジェクトID
+ * @param media 保存するセグメント
+ */
+function archiveInBackground(projectId: string, media: GeneratedMedia[]): void {
+  archiveProjectMedia(projectId, media).catch(error => {
+    console.warn('メディアライブラリへの保存に失敗しました:', error);
+  });
+}
+
+// プロジェクトの更新（段階の遷移や、まとめての保存）
+projectsRouter.patch('/:id', async (req, res) => {
+  const update = parseProjectUpdate(req.body ?? {});
+  if (!update) {
+    res.status(400).json({
+      error: true,
+      message: '更新内容が不正です'
+    });
+    return;
+  }
+
+  const project = await updateProject(req.params.id, (current) => {
+    for (const [key, value] of Object.entries(update)) {
+      if (value === null) {
+        delete current[key as keyof ProjectUpdate];
+      } else {
+        Object.assign(current, { [key]: value } as Partial<Project>);
+      }
+    }
+  });
+  if (!project) {
+    res.status(404).json({
+      error: true,
+      message: 'プロジェクトが見つかりません'
+    });
+    return;
+  }
+
+  // セグメントが変わった場合（分割の確定やストーリーボードの編集）は全セグメントの状態を送り直す
+  if (update.segments) {
+    publishProjectEvent(project.id, { type: 'segments', statuses: createSegmentStatuses(project) });
+  }
+  if (update.stage) {
+    publishProjectEvent(project.id, { type: 'stage', stage: update.stage });
+  }
+  if (update.media) {
+    archiveInBackground(project.id, update.media);
+  }
+  res.json(project);
+});
+
+// セグメントの分析結果の保存
+projectsRouter.put('/:id/analyses/:index', async (req, res) => {
+  const index = parseIndex(req.params.index);
+  const analysis = req.body as SegmentAnalysis;
+  if (index === null || typeof analysis?.startTime !== 'number' || typeof analysis?.endTime !== 'number') {
+    res.status(400).json({
+      error: true,
+      message: 'インデックスまたは分析結果が不正です'
+    });
+    return;
+  }
+
+  const project = await updateProject(req.params.id, (current) => {
+    while (current.analyses.length <= index) {
+      current.analyses.push(null);
+    }
+    current.analyses[index] = analysis;
+  });
+  if (!project) {
+    res.status(404).json({
+      error: true,
+      message: 'プロジェクトが見つかりません'
+    });
+    return;
+  }
+
+  publishProjectEvent(project.id, { type: 'segment-analyzed', segmentIndex: index });
+  res.json(project);
+});
+
+// セグメントの画像とクリップの保存（Lumaの生成IDを含む）
+projectsRouter.put('/:id/media/:segmentIndex', async (req, res) => {
+  const segmentIndex = parseIndex(req.params.segmentIndex);
+  const media: unknown = req.body;
+  if (segmentIndex === null || !isGeneratedMedia(media) || media.segmentIndex !== segmentIndex) {
+    res.status(400).json({
+      error: true,
+      message: 'インデックスまたは生成結果が不正です'
+    });
+    return;
+  }
+
+  const project = await updateProject(req.params.id, (current) => {
+    current.media = [
+      ...current.media.filter(item => item.segmentIndex !== segmentIndex),
+      media
+    ].sort((a, b) => a.segmentIndex - b.segmentIndex);
+  });
+  if (!project) {
+    res.status(404).json({
+      error: true,
+      message: 'プロジェクトが見つかりません'
+    });
+    return;
+  }
+
+  for (const event of createMediaEvents(media)) {
+    publishProjectEvent(project.id, event);
+  }
+  archiveInBackground(project.id, [media]);
+  res.json(project);
+});
+
+// 進捗状況のイベントストリーム（Server-Sent Events）
+projectsRouter.get('/:id/events', async (req, res) => {
+  const project = await getProject(req.params.id);
+  if (!project) {
+    res.status(404).json({
+      error: true,
+      message: 'プロジェクトが見つかりません'
+    });
+    return;
+  }
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.write(': connected\n\n');
+
+  const send = (event: ProjectEvent) => {
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Lumaの生成IDとセグメントの対応（ポーリングで取得した状態をセグメントのイベントに変換する）
+  const generations = new Map<string, { type: 'image' | 'clip'; segmentIndex: number; state?: string }>();
+  const trackMedia = (media: GeneratedMedia) => {
+    generations.set(media.imageResponse.id, { type: 'image', segmentIndex: media.segmentIndex, state: media.imageResponse.state });
+    if (media.clipResponse) {
+      generations.set(media.clipResponse.id, { type: 'clip', segmentIndex: media.segmentIndex, state: media.clipResponse.state });
+    }
+  };
+  project.media.forEach(trackMedia);
+
+  const unsubscribeProject = subscribeProjectEvents(project.id, (event) => {
+    if (event.type === 'image' || event.type === 'clip') {
+      generations.set(event.id, { type: event.type, segmentIndex: event.segmentIndex, state: event.state });
+    }
+    send(event);
+  });
+
+  const unsubscribeGeneration = subscribeGenerationStatus((status) => {
+    const generation = generations.get(status.id);
+    // 同じ状態のポーリング結果は送らない
+    if (!generation || generation.state === status.state) {
+      return;
+    }
+    generation.state = status.state;
+    send({
+      type: generation.type,
+      segmentIndex: generation.segmentIndex,
+      id: status.id,
+      state: status.state,
+      ...(status.failure_reason ? { failure_reason: status.failure_reason } : {})
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, HEARTBEAT_INTERVAL);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    unsubscribeProject();
+    unsubscribeGeneration();
+  });
+});
+
+// プロジェクトの音声の取得（再読み込み後の再生と分析の再開に使う）
+projectsRouter.get('/:id/audio', async (req, res) => {
+  const project = await getProject(req.params.id);
+  const audioPath = project ? await resolveUploadedAudio(project.audioId) : null;
+  if (!audioPath) {
+    res.status(404).json({
+      error: true,
+      message: '音声が見つかりません'
+    });
+    return;
+  }
+  res.sendFile(audioPath);
+});
+
+// プロジェクトの削除（メディアライブラリの素材と提供元の生成も削除する）
+projectsRouter.delete('/:id', async (req, res) => {
+  const project = await getProject(req.params.id);
+  if (!project || !(await deleteProject(project.id))) {
+    res.status(404).json({
+      error: true,
+      message: 'プロジェクトが見つかりません'
+    });
+    return;
+  }
+  await deleteProjectMedia(project.id);
+  await deleteProjectGenerations(project);
+  // 同じ音声を使うプロジェクトが残っていなければ、アップロードされた音声も削除する
+  if (!(await listProjects()).some(other => other.audioId === project.audioId)) {
+    await deleteUploadedAudio(project.audioId);
+  }
+  res.json({ deleted: true });
+});
@@ -0,0 +1,174 @@
+import express from 'express';
+import { isLumaAssetUrl, resolveCachedAsset } from '../cache.ts';
+import { publishProjectEvent } from '../events.ts';
+import { resolveMedia } from '../mediaLibrary.ts';
+import {
+  FfmpegError,
+  getRenderPath,
+  RenderClip,
+  renderVideo,
+  resolveUploadedAudio,
+  saveUploadedAudio
+} from '../render.ts';
+
+export const renderRouter = express.Router();
+
+// メディアライブラリの素材のURL
+const MEDIA_URL_PREFIX = '/api/media/';
+
+/**
+ * クリップのURLをレンダリングに使う取得元に変換する
+ * サーバーから任意のホストにリクエストさせないよう、キャッシュとメディアライブラリの素材、
+ * 許可したホストのhttpsのURLだけを受け付ける
+ * @param url クライアントが指定したクリップのURL
+ * @returns ローカルファイルのパスまたはURL。許可されていない場合はnull
+ */
+async function resolveClipSource(url: string): Promise<string | null> {
+  const cached = resolveCachedAsset(url);
+  if (cached) {
+    return cached;
+  }
+
+  if (url.startsWith(MEDIA_URL_PREFIX)) {
+    let id: string;
+    try {
+      id = decodeURIComponent(url.slice(MEDIA_URL_PREFIX.length));
+    } catch {
+      return null;
+    }
+    const media = await resolveMedia(id);
+    return media?.metadata.kind === 'video' ? media.filePath : null;
+  }
+
+  return isLumaAssetUrl(url) ? new URL(url).href : null;
+}
+
+// アップロードされた音声の拡張子
+const AUDIO_EXTENSIONS: Record<string, string> = {
+  'audio/mpeg': '.mp3',
+  'audio/mp3': '.mp3',
+  'audio/wav': '.wav',
+  'audio/x-wav': '.wav',
+  'audio/wave': '.wav',
+  'audio/ogg': '.ogg',
+  'audio/mp4': '.m4a',
+  'audio/x-m4a': '.m4a',
+  'audio/aac': '.aac',
+  'audio/flac': '.flac'
+};
+
+// 最終レンダリング用の音声アップロード
+renderRouter.post('/audio', express.raw({ type: ['audio/*', 'application/octet-stream'], limit: '200mb' }), async (req, res) => {
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    res.status(400).json({
+      error: true,
+      message: '音声データが空です'
+    });
+    return;
+  }
+
+  const extension = AUDIO_EXTENSIONS[req.headers['content-type'] ?? ''] ?? '.bin';
+  const audioId = await saveUploadedAudio(req.body, extension);
+  console.log('音声をアップロード:', { audioId, bytes: req.body.length });
+  res.json({ audioId });
+});
+
+// クリップを連結して音声を合成した動画のレンダリング
+renderRouter.post('/', express.json(), async (req, res) => {
+  const { audioId, clips, crossfade, projectId } = req.body ?? {};
+
+  const audioPath = typeof audioId === 'string' ? await resolveUploadedAudio(audioId) : null;
+  if (!audioPath) {
+    res.status(400).json({
+      error: true,
+      message: 'アップロードされた音声が見つかりません'
+    });
+    return;
+  }
+
+  const isValidClip = (clip: unknown): clip is { url: string; startTime: number; endTime: number } => {
+    const candidate = clip as { url?: unknown; startTime?: unknown; endTime?: unknown };
+    return typeof candidate?.url === 'string'
+      && typeof candidate.startTime === 'number'
+      && typeof candidate.endTime === 'number'
+      && Number.isFinite(candidate.startTime)
+      && Number.isFinite(candidate.endTime)
+      && candidate.startTime >= 0
+      && candidate.endTime > candidate.startTime;
+  };
+
+  if (!Array.isArray(clips) || clips.length === 0 || !clips.every(isValidClip)) {
+    res.status(400).json({
+      error: true,
+      message: 'clipsにはurl, startTime, endTimeを持つクリップを1つ以上指定してください'
+    });
+    return;
+  }
+
+  // クロスフェードはffmpegのフィルターに埋め込むため、最も短いクリップより短い0以上の秒数だけを受け付ける
+  const shortestClip = Math.min(...clips.map(clip => clip.endTime - clip.startTime));
+  if (crossfade !== undefined
+    && (typeof crossfade !== 'number' || !Number.isFinite(crossfade) || crossfade < 0 || crossfade >= shortestClip)) {
+    res.status(400).json({
+      error: true,
+      message: `crossfadeには0以上、最も短いクリップの長さ（${shortestClip}秒）未満の秒数を指定してください`
+    });
+    return;
+  }
+
+  // ダウンロード済みのクリップはローカルのファイルを使う
+  const sources = await Promise.all(clips.map(clip => resolveClipSource(clip.url)));
+  if (sources.some(source => source === null)) {
+    res.status(400).json({
+      error: true,
+      message: 'clipsのurlには、キャッシュまたはメディアライブラリの素材か、Lumaの素材のURLを指定してください'
+    });
+    return;
+  }
+
+  try {
+    const renderClips: RenderClip[] = clips.map((clip, i) => ({
+      source: sources[i] as string,
+      startTime: clip.startTime,
+      endTime: clip.endTime
+    }));
+    const { id } = await renderVideo({
+      clips: renderClips,
+      audioPath,
+      crossfade: crossfade ?? 0,
+      // プロジェクトが指定されていれば進捗をイベントストリームに配信する
+      onProgress: typeof projectId === 'string'
+        ? (percent) => publishProjectEvent(projectId, { type: 'render', percent })
+        : undefined
+    });
+    console.log('レンダリング完了:', id);
+    res.json({ id, url: `/api/render/${id}` });
+  } catch (error) {
+    console.error('レンダリングエラー:', error instanceof FfmpegError ? error.stderr : error);
+    res.status(500).json({
+      error: true,
+      message: `動画のレンダリングに失敗しました: ${error instanceof Error ? error.message : '不明なエラー'}`
+    });
+  }
+});
+
+// レンダリング結果のダウンロード
+renderRouter.get('/:id', (req, res) => {
+  const renderPath = getRenderPath(req.params.id);
+  if (!renderPath) {
+    res.status(404).json({
+      error: true,
+      message: 'レンダリング結果が見つかりません'
+    });
+    return;
+  }
+
+  res.download(renderPath, 'music-video.mp4', (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({
+        error: true,
+        message: 'レンダリング結果が見つかりません'
+      });
+    }
+  });
+});
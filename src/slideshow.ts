@@ -0,0 +1,298 @@
+import type { SegmentAnalysis } from './audioAnalysis';
+import type { GeneratedMedia } from './lumaGeneration';
+import { getLibraryImageUrl } from './mediaLibrary';
+
+// プレビューの解像度
+export const SLIDESHOW_WIDTH = 1280;
+export const SLIDESHOW_HEIGHT = 720;
+
+// スライドを切り替えるクロスフェードの長さ（秒、境界の前後に半分ずつかける）
+const SLIDE_CROSSFADE_SECONDS = 0.5;
+
+// ケン・バーンズ効果の拡大率（1枚のスライドの間に1.0倍からこの倍率まで拡大・縮小する）
+const KEN_BURNS_ZOOM = 1.15;
+
+// ケン・バーンズ効果の移動量（画面の幅・高さに対する割合）
+const KEN_BURNS_PAN = 0.04;
+
+// スライドごとに順番に使う移動の向き
+const PAN_DIRECTIONS: Array<[number, number]> = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+
+// ビートに合わせて拡大する最大の倍率
+const BEAT_PULSE_SCALE = 0.03;
+
+// 書き出すWebMの形式（対応している最初の形式を使う）
+const RECORDER_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+// 書き出す動画のフレームレート
+const RECORDER_FRAME_RATE = 30;
+
+export interface SlideshowSlide {
+  segmentIndex: number;
+  /** スライドを表示し始める時刻（秒） */
+  startTime: number;
+  /** スライドを表示し終える時刻（秒） */
+  endTime: number;
+  imageUrl: string;
+  /** セグメントの推定テンポ（ビートに合わせて拡大するときに使う） */
+  bpm?: number;
+}
+
+export interface SlideshowFrameOptions {
+  /** ビートに合わせてスライドを拡大する */
+  beatPulse?: boolean;
+}
+
+/**
+ * 生成済みの画像からスライドショーのスライドを作る
+ * 画像のないセグメントは直前のスライドを延ばして埋め、最初のスライドは音声の先頭から表示する
+ * @param segments セグメント分析結果の配列
+ * @param media 生成結果の配列
+ * @param projectId プロジェクトID（メディアライブラリから画像を読み込む）
+ * @returns 時刻順のスライドの配列
+ */
+export function createSlideshowSlides(
+  segments: SegmentAnalysis[],
+  media: GeneratedMedia[],
+  projectId?: string
+): SlideshowSlide[] {
+  const slides: SlideshowSlide[] = [];
+
+  [...media]
+    .sort((a, b) => a.segmentIndex - b.segmentIndex)
+    .forEach(item => {
+      const imageUrl = getLibraryImageUrl(projectId, item.imageResponse);
+      if (!imageUrl) return;
+
+      const previous = slides[slides.length - 1];
+      if (previous) {
+        previous.endTime = item.startTime;
+      }
+      slides.push({
+        segmentIndex: item.segmentIndex,
+        startTime: previous ? item.startTime : 0,
+        endTime: item.endTime,
+        imageUrl,
+        bpm: segments[item.segmentIndex]?.features?.bpm ?? undefined
+      });
+    });
+
+  const last = slides[slides.length - 1];
+  const audioEnd = segments[segments.length - 1]?.endTime;
+  if (last && audioEnd !== undefined && audioEnd > last.endTime) {
+    last.endTime = audioEnd;
+  }
+  return slides;
+}
+
+/**
+ * スライドの画像を読み込む（読み込めなかった画像はnullにして、そのスライドを飛ばす）
+ * @param slides スライドの配列
+ * @returns スライドと同じ順序の画像の配列
+ */
+export function loadSlideImages(slides: SlideshowSlide[]): Promise<Array<HTMLImageElement | null>> {
+  return Promise.all(slides.map(slide => new Promise<HTMLImageElement | null>(resolve => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => resolve(null);
+    image.src = slide.imageUrl;
+  })));
+}
+
+/**
+ * 1枚のスライドを、ケン・バーンズ効果とビートの拡大をかけてキャンバス全体を覆うように描く
+ * @param context 描画先のコンテキスト
+ * @param image スライドの画像
+ * @param slide スライド
+ * @param index スライドの番号（拡大と縮小、移動の向きを切り替える）
+ * @param time 描画する時刻（秒）
+ * @param options 描画のオプション
+ */
+function drawSlide(
+  context: CanvasRenderingContext2D,
+  image: HTMLImageElement,
+  slide: SlideshowSlide,
+  index: number,
+  time: number,
+  options: SlideshowFrameOptions
+): void {
+  const { width, height } = context.canvas;
+  // フェードアウトの間も動き続けるように、クロスフェードを含めた長さで進み具合を求める
+  const duration = slide.endTime - slide.startTime + SLIDE_CROSSFADE_SECONDS;
+  const progress = Math.min(1, Math.max(0, (time - slide.startTime + SLIDE_CROSSFADE_SECONDS / 2) / duration));
+
+  // 偶数番目は拡大、奇数番目は縮小する
+  const zoomProgress = index % 2 === 0 ? progress : 1 - progress;
+  let scale = 1 + (KEN_BURNS_ZOOM - 1) * zoomProgress;
+
+  if (options.beatPulse && slide.bpm) {
+    // セグメントの先頭を拍の頭として、拍ごとに拡大してから減衰させる
+    const beats = ((time - slide.startTime) * slide.bpm) / 60;
+    const beatPhase = beats - Math.floor(beats);
+    scale *= 1 + BEAT_PULSE_SCALE * Math.pow(1 - beatPhase, 3);
+  }
+
+  const [panX, panY] = PAN_DIRECTIONS[index % PAN_DIRECTIONS.length];
+  const offsetX = panX * KEN_BURNS_PAN * width * (progress - 0.5);
+  const offsetY = panY * KEN_BURNS_PAN * height * (progress - 0.5);
+
+  // 移動しても端が見えないように、移動量の分だけ余分に拡大する
+  const cover = Math.max(width / image.naturalWidth, height / image.naturalHeight) * (1 + KEN_BURNS_PAN);
+  const drawWidth = image.naturalWidth * cover * scale;
+  const drawHeight = image.naturalHeight * cover * scale;
+  context.drawImage(
+    image,
+    (width - drawWidth) / 2 + offsetX,
+    (height - drawHeight) / 2 + offsetY,
+    drawWidth,
+    drawHeight
+  );
+}
+
+/**
+ * 指定した時刻のスライドショーのフレームを描く
+ * 境界の前後では、次のスライドを前のスライドの上にフェードインさせる
+ * @param context 描画先のコンテキスト
+ * @param slides スライドの配列
+ * @param images スライドと同じ順序の画像の配列
+ * @param time 描画する時刻（秒）
+ * @param options 描画のオプション
+ */
+export function drawSlideshowFrame(
+  context: CanvasRenderingContext2D,
+  slides: SlideshowSlide[],
+  images: Array<HTMLImageElement | null>,
+  time: number,
+  options: SlideshowFrameOptions = {}
+): void {
+  const { width, height } = context.canvas;
+  const halfFade = SLIDE_CROSSFADE_SECONDS / 2;
+
+  context.globalAlpha = 1;
+  context.fillStyle = '#000';
+  context.fillRect(0, 0, width, height);
+
+  slides.forEach((slide, index) => {
+    const image = images[index];
+    if (!image) return;
+
+    const isFirst = index === 0;
+    const isLast = index === slides.length - 1;
+    const visibleFrom = isFirst ? -Infinity : slide.startTime - halfFade;
+    const visibleUntil = isLast ? Infinity : slide.endTime + halfFade;
+    if (time < visibleFrom || time >= visibleUntil) return;
+
+    context.globalAlpha = isFirst ? 1 : Math.min(1, (time - visibleFrom) / SLIDE_CROSSFADE_SECONDS);
+    drawSlide(context, image, slide, index, time, options);
+  });
+
+  context.globalAlpha = 1;
+}
+
+/**
+ * ブラウザが書き出しに対応しているWebMの形式を取得する
+ * @returns 対応している形式。MediaRecorderに対応していない場合はnull
+ */
+export function getSupportedRecorderMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') {
+    return null;
+  }
+  return RECORDER_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+/**
+ * 音声を再生しながらスライドショーを描き、キャンバスと音声をWebMとして録画する
+ * 録画は実時間で進むため、音声の長さだけ時間がかかる
+ * @param canvas 描画先のキャンバス
+ * @param audioUrl 元の音声のURL
+ * @param drawFrame 指定した時刻のフレームをキャンバスに描く
+ * @param onProgress 進捗（0〜1）を受け取るコールバック
+ * @param signal 中止するシグナル
+ * @returns 録画したWebM
+ */
+export async function recordSlideshow(
+  canvas: HTMLCanvasElement,
+  audioUrl: string,
+  drawFrame: (time: number) => void,
+  onProgress?: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> {
+  const mimeType = getSupportedRecorderMimeType();
+  if (!mimeType) {
+    throw new Error('このブラウザはWebMの書き出しに対応していません');
+  }
+
+  // 録画用の音声は別に用意し、再生中の音声を録画のストリームと画面の両方に流す
+  const audio = new Audio(audioUrl);
+  const audioContext = new AudioContext();
+  const source = audioContext.createMediaElementSource(audio);
+  const destination = audioContext.createMediaStreamDestination();
+  source.connect(destination);
+  source.connect(audioContext.destination);
+
+  const stream = new MediaStream([
+    ...canvas.captureStream(RECORDER_FRAME_RATE).getVideoTracks(),
+    ...destination.stream.getAudioTracks()
+  ]);
+  const recorder = new MediaRecorder(stream, { mimeType });
+  const chunks: Blob[] = [];
+  let frameId = 0;
+
+  try {
+    return await new Promise<Blob>((resolve, reject) => {
+      let finished = false;
+      const finish = (error?: unknown) => {
+        if (finished) return;
+        finished = true;
+        cancelAnimationFrame(frameId);
+        audio.pause();
+        signal?.removeEventListener('abort', handleAbort);
+
+        const complete = () => error ? reject(error) : resolve(new Blob(chunks, { type: 'video/webm' }));
+        if (recorder.state === 'inactive') {
+          complete();
+          return;
+        }
+        // 最後のデータはstopの後に届くため、停止してから結果を返す
+        recorder.onstop = complete;
+        recorder.stop();
+      };
+      const handleAbort = () => finish(signal?.reason ?? new DOMException('書き出しを中止しました', 'AbortError'));
+
+      const render = () => {
+        drawFrame(audio.currentTime);
+        if (audio.duration) {
+          onProgress?.(Math.min(1, audio.currentTime / audio.duration));
+        }
+        frameId = requestAnimationFrame(render);
+      };
+
+      if (signal?.aborted) {
+        handleAbort();
+        return;
+      }
+      signal?.addEventListener('abort', handleAbort);
+
+      recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+      };
+      audio.onended = () => {
+        drawFrame(audio.duration);
+        onProgress?.(1);
+        finish();
+      };
+      audio.onerror = () => finish(new Error('音声を読み込めませんでした'));
+
+      drawFrame(0);
+      recorder.start();
+      audio.play()
+        .then(() => {
+          frameId = requestAnimationFrame(render);
+        })
+        .catch(finish);
+    });
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+    audioContext.close().catch(() => undefined);
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, expect, it } from 'vitest';
+import type { SegmentAnalysis } from './audioAnalysis';
+import type { GeneratedMedia } from './lumaGeneration';
+import {
+  mergeBoundaries,
+  MIN_SPLIT_DURATION,
+  moveBoundary,
+  replaceMedia,
+  replaceSegments,
+  splitBoundary,
+  Storyboard,
+  toBoundaries
+} from './storyboard';
+
+const FEATURES: SegmentAnalysis['features'] = {
+  bpm: 120,
+  rmsCurve: [],
+  rms: 0.2,
+  loudnessDb: -14,
+  onsetDensity: 2,
+  spectralCentroid: 2000,
+  key: 'C',
+  mode: 'major',
+  keyConfidence: 0.8
+};
+
+/**
+ * セグメントの分析結果を作成する
+ * @param startTime 開始時刻（秒）
+ * @param endTime 終了時刻（秒）
+ * @param story ストーリー（どのセグメントか見分けるための文字列）
+ * @returns 分析結果
+ */
+function createAnalysis(startTime: number, endTime: number, story: string): SegmentAnalysis {
+  return {
+    startTime,
+    endTime,
+    story,
+    visual: '',
+    emotion: '',
+    imagePrompt: '',
+    features: FEATURES,
+    section: 'verse'
+  };
+}
+
+/**
+ * 画像とクリップを生成済みのセグメントの生成結果を作成する
+ * @param segmentIndex セグメントのインデックス
+ * @param imageId 画像の生成ID
+ * @returns 生成結果
+ */
+function createMedia(segmentIndex: number, imageId = `img-${segmentIndex}`): GeneratedMedia {
+  return {
+    segmentIndex,
+    startTime: segmentIndex * 5,
+    endTime: (segmentIndex + 1) * 5,
+    imageResponse: { id: imageId, type: 'image', state: 'completed' },
+    clipResponse: { id: `vid-${segmentIndex}`, type: 'video', state: 'completed' }
+  };
+}
+
+/**
+ * 生成結果を「インデックス:画像ID:クリップの有無」の文字列にまとめる
+ * @param media 生成結果の配列
+ * @returns 比較しやすい文字列の配列
+ */
+function summarize(media: GeneratedMedia[]): string[] {
+  return media.map(item => `${item.segmentIndex}:${item.imageResponse.id}:${item.clipResponse ? 'clip' : '-'}`);
+}
+
+/**
+ * 4つのセグメントがすべて生成済みのストーリーボードを作成する
+ * @returns ストーリーボード
+ */
+function createStoryboard(): Storyboard {
+  return {
+    analyses: [0, 1, 2, 3].map(i => createAnalysis(i * 5, (i + 1) * 5, `segment-${i}`)),
+    media: [0, 1, 2, 3].map(i => createMedia(i))
+  };
+}
+
+describe('toBoundaries', () => {
+  it('分析結果から開始・終了時刻とセクションだけを取り出す', () => {
+    expect(toBoundaries([createAnalysis(0, 5, 'a')])).toEqual([{ startTime: 0, endTime: 5, section: 'verse' }]);
+  });
+});
+
+describe('replaceSegments', () => {
+  it('置き換えたセグメントの生成結果と直前のセグメントのクリップを破棄し、それ以外は保持する', () => {
+    const { analyses, media } = replaceSegments(createStoryboard(), 2, 1, [createAnalysis(10, 15, 'edited')]);
+
+    expect(analyses.map(analysis => analysis.story)).toEqual(['segment-0', 'segment-1', 'edited', 'segment-3']);
+    expect(summarize(media)).toEqual(['0:img-0:clip', '1:img-1:-', '3:img-3:clip']);
+  });
+
+  it('2つを1つに結合すると以降のセグメントのインデックスを1つ詰める', () => {
+    const { analyses, media } = replaceSegments(createStoryboard(), 1, 2, [createAnalysis(5, 15, 'merged')]);
+
+    expect(analyses.map(analysis => analysis.story)).toEqual(['segment-0', 'merged', 'segment-3']);
+    expect(summarize(media)).toEqual(['0:img-0:-', '2:img-3:clip']);
+  });
+
+  it('1つを2つに分割すると以降のセグメントのインデックスを1つずらす', () => {
+    const { analyses, media } = replaceSegments(createStoryboard(), 1, 1, [
+      createAnalysis(5, 7.5, 'first half'),
+      createAnalysis(7.5, 10, 'second half')
+    ]);
+
+    expect(analyses.map(analysis => analysis.story)).toEqual([
+      'segment-0', 'first half', 'second half', 'segment-2', 'segment-3'
+    ]);
+    expect(summarize(media)).toEqual(['0:img-0:-', '3:img-2:clip', '4:img-3:clip']);
+  });
+
+  it('先頭のセグメントを置き換えた場合は他のクリップを破棄しない', () => {
+    const { media } = replaceSegments(createStoryboard(), 0, 1, [createAnalysis(0, 5, 'edited')]);
+
+    expect(summarize(media)).toEqual(['1:img-1:clip', '2:img-2:clip', '3:img-3:clip']);
+  });
+
+  it('元のストーリーボードを変更しない', () => {
+    const storyboard = createStoryboard();
+    replaceSegments(storyboard, 1, 2, [createAnalysis(5, 15, 'merged')]);
+
+    expect(storyboard.analyses).toHaveLength(4);
+    expect(summarize(storyboard.media)).toEqual(['0:img-0:clip', '1:img-1:clip', '2:img-2:clip', '3:img-3:clip']);
+  });
+});
+
+describe('replaceMedia', () => {
+  it('画像が変わった場合は直前のセグメントのクリップを破棄する', () => {
+    const media = replaceMedia(createStoryboard().media, createMedia(2, 'img-new'));
+
+    expect(summarize(media)).toEqual(['0:img-0:clip', '1:img-1:-', '2:img-new:clip', '3:img-3:clip']);
+  });
+
+  it('画像が同じ場合は直前のセグメントのクリップを保持する', () => {
+    const media = replaceMedia(createStoryboard().media, createMedia(2));
+
+    expect(summarize(media)).toEqual(['0:img-0:clip', '1:img-1:clip', '2:img-2:clip', '3:img-3:clip']);
+  });
+
+  it('未生成のセグメントの生成結果はインデックスの順に追加する', () => {
+    const media = replaceMedia([createMedia(0), createMedia(2)], createMedia(1));
+
+    expect(summarize(media)).toEqual(['0:img-0:-', '1:img-1:clip', '2:img-2:clip']);
+  });
+});
+
+describe('mergeBoundaries', () => {
+  it('前のセグメントの開始から後のセグメントの終了までを前のセクションで結合する', () => {
+    expect(mergeBoundaries(
+      { startTime: 0, endTime: 5, section: 'verse' },
+      { startTime: 5, endTime: 12, section: 'chorus' }
+    )).toEqual({ startTime: 0, endTime: 12, section: 'verse' });
+  });
+});
+
+describe('splitBoundary', () => {
+  it('セグメントを中央で分割する', () => {
+    expect(splitBoundary({ startTime: 10, endTime: 16, section: 'chorus' })).toEqual([
+      { startTime: 10, endTime: 13, section: 'chorus' },
+      { startTime: 13, endTime: 16, section: 'chorus' }
+    ]);
+  });
+
+  it('分割後が最小長より短くなる場合はnullを返す', () => {
+    expect(splitBoundary({ startTime: 0, endTime: MIN_SPLIT_DURATION * 2 })).not.toBeNull();
+    expect(splitBoundary({ startTime: 0, endTime: MIN_SPLIT_DURATION * 2 - 0.1 })).toBeNull();
+  });
+});
+
+describe('moveBoundary', () => {
+  const first = { startTime: 0, endTime: 5, section: 'verse' as const };
+  const second = { startTime: 5, endTime: 10, section: 'chorus' as const };
+
+  it('境界を移動し、それぞれのセクションを保持する', () => {
+    expect(moveBoundary(first, second, 6.5)).toEqual([
+      { startTime: 0, endTime: 6.5, section: 'verse' },
+      { startTime: 6.5, endTime: 10, section: 'chorus' }
+    ]);
+  });
+
+  it('どちらのセグメントも最小長より短くならないように移動先を制限する', () => {
+    expect(moveBoundary(first, second, 0.5)?.[0].endTime).toBe(MIN_SPLIT_DURATION);
+    expect(moveBoundary(first, second, 9.5)?.[1].startTime).toBe(10 - MIN_SPLIT_DURATION);
+  });
+
+  it('位置が変わらない場合や、2つ合わせても最小長の2倍に満たない場合はnullを返す', () => {
+    expect(moveBoundary(first, second, 5)).toBeNull();
+    expect(moveBoundary(
+      { startTime: 0, endTime: 1.5 },
+      { startTime: 1.5, endTime: 3.5 },
+      2
+    )).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import type { SegmentAnalysis } from './audioAnalysis';
+import type { SegmentBoundary } from './audioStructure';
+import type { GeneratedMedia } from './lumaGeneration';
+
+export interface Storyboard {
+  analyses: SegmentAnalysis[];
+  media: GeneratedMedia[];
+}
+
+// 分割後のセグメントの最小長（秒）
+export const MIN_SPLIT_DURATION = 2;
+
+/**
+ * 分析結果からセグメント境界を取り出す
+ * @param analyses セグメント分析結果の配列
+ * @returns セグメント境界の配列
+ */
+export function toBoundaries(analyses: SegmentAnalysis[]): SegmentBoundary[] {
+  return analyses.map(({ startTime, endTime, section }) => ({ startTime, endTime, section }));
+}
+
+/**
+ * ストーリーボードのセグメントを置き換える
+ * 置き換えたセグメントの画像とクリップは破棄し、直前のセグメントのクリップも
+ * 終了フレームが変わるため破棄する。以降のセグメントの生成結果はインデックスをずらして保持する
+ * @param storyboard 現在のストーリーボード
+ * @param index 置き換えを開始するセグメントのインデックス
+ * @param deleteCount 置き換えるセグメントの数
+ * @param replacements 新しいセグメントの分析結果
+ * @returns 更新後のストーリーボード
+ */
+export function replaceSegments(
+  storyboard: Storyboard,
+  index: number,
+  deleteCount: number,
+  replacements: SegmentAnalysis[]
+): Storyboard {
+  const analyses = [...storyboard.analyses];
+  analyses.splice(index, deleteCount, ...replacements);
+  const shift = replacements.length - deleteCount;
+
+  const media = storyboard.media
+    .filter(item => item.segmentIndex < index || item.segmentIndex >= index + deleteCount)
+    .map((item): GeneratedMedia => {
+      if (item.segmentIndex >= index + deleteCount) {
+        return { ...item, segmentIndex: item.segmentIndex + shift };
+      }
+      if (item.segmentIndex === index - 1) {
+        const { clipResponse: _staleClip, ...rest } = item;
+        return rest;
+      }
+      return item;
+    });
+
+  return { analyses, media };
+}
+
+/**
+ * 1つのセグメントの生成結果を置き換える
+ * 画像が変わった場合は、その画像を終了フレームにしていた直前のセグメントのクリップも破棄する
+ * @param media 現在の生成結果の配列
+ * @param updated 置き換えるセグメントの生成結果
+ * @returns 更新後の生成結果の配列
+ */
+export function replaceMedia(media: GeneratedMedia[], updated: GeneratedMedia): GeneratedMedia[] {
+  const current = media.find(item => item.segmentIndex === updated.segmentIndex);
+  const imageChanged = current?.imageResponse.id !== updated.imageResponse.id;
+
+  return [
+    ...media
+      .filter(item => item.segmentIndex !== updated.segmentIndex)
+      .map((item): GeneratedMedia => {
+        if (imageChanged && item.segmentIndex === updated.segmentIndex - 1 && item.clipResponse) {
+          const { clipResponse: _staleClip, ...rest } = item;
+          return rest;
+        }
+        return item;
+      }),
+    updated
+  ].sort((a, b) => a.segmentIndex - b.segmentIndex);
+}
+
+/**
+ * 隣り合う2つのセグメントを結合した境界を作成する
+ * @param first 前のセグメント
+ * @param second 後のセグメント
+ * @returns 結合したセグメント境界
+ */
+export function mergeBoundaries(first: SegmentBoundary, second: SegmentBoundary): SegmentBoundary {
+  return {
+    startTime: first.startTime,
+    endTime: second.endTime,
+    section: first.section
+  };
+}
+
+/**
+ * セグメントを中央で2つに分割した境界を作成する
+ * @param boundary 分割するセグメント
+ * @returns 分割したセグメント境界。短すぎて分割できない場合はnull
+ */
+export function splitBoundary(boundary: SegmentBoundary): [SegmentBoundary, SegmentBoundary] | null {
+  const duration = boundary.endTime - boundary.startTime;
+  if (duration < MIN_SPLIT_DURATION * 2) {
+    return null;
+  }
+  const splitTime = boundary.startTime + duration / 2;
+  return [
+    { startTime: boundary.startTime, endTime: splitTime, section: boundary.section },
+    { startTime: splitTime, endTime: boundary.endTime, section: boundary.section }
+  ];
+}
+
+/**
+ * 隣り合う2つのセグメントの境界を移動した境界を作成する
+ * どちらのセグメントも最小長より短くならないように移動先を制限する
+ * @param first 前のセグメント
+ * @param second 後のセグメント
+ * @param time 新しい境界の時刻（秒）
+ * @returns 移動したセグメント境界。短すぎて移動できない場合や位置が変わらない場合はnull
+ */
+export function moveBoundary(
+  first: SegmentBoundary,
+  second: SegmentBoundary,
+  time: number
+): [SegmentBoundary, SegmentBoundary] | null {
+  const earliest = first.startTime + MIN_SPLIT_DURATION;
+  const latest = second.endTime - MIN_SPLIT_DURATION;
+  if (earliest > latest) {
+    return null;
+  }
+  const boundaryTime = Math.min(latest, Math.max(earliest, time));
+  if (boundaryTime === first.endTime) {
+    return null;
+  }
+  return [
+    { startTime: first.startTime, endTime: boundaryTime, section: first.section },
+    { startTime: boundaryTime, endTime: second.endTime, section: second.section }
+  ];
+}
@@ -0,0 +1,101 @@
+/**
+ * 楽曲全体の世界観（スタイルバイブル）
+ * 全セグメントの画像・動画プロンプトに共通して適用し、1本のミュージックビデオとしての統一感を出す
+ */
+export interface StyleBible {
+  /** 楽曲全体の世界観の要約（日本語） */
+  worldview: string;
+  /** 色彩パレット（英語） */
+  palette: string[];
+  /** 繰り返し登場する人物やモチーフ（英語） */
+  motifs: string[];
+  /** カメラワークや構図の言語（英語） */
+  camera: string;
+  /** 時代設定（英語） */
+  era: string;
+  /** 表現媒体（実写フィルム、アニメーションなど。英語） */
+  medium: string;
+}
+
+/**
+ * 値がスタイルバイブルの形式かどうかを検証する
+ * @param value 検証する値
+ * @returns スタイルバイブルの場合はtrue
+ */
+export function isStyleBible(value: unknown): value is StyleBible {
+  const candidate = value as Partial<StyleBible> | null;
+  const isStringArray = (items: unknown) => Array.isArray(items) && items.every(item => typeof item === 'string');
+  return typeof candidate?.worldview === 'string'
+    && isStringArray(candidate.palette)
+    && isStringArray(candidate.motifs)
+    && typeof candidate.camera === 'string'
+    && typeof candidate.era === 'string'
+    && typeof candidate.medium === 'string';
+}
+
+/**
+ * スタイルバイブルを画像・動画生成プロンプトに付け加える英語の指示にする
+ * @param styleBible スタイルバイブル
+ * @returns プロンプトに付け加える文
+ */
+export function formatStyleBibleForPrompt(styleBible: StyleBible): string {
+  return [
+    styleBible.medium && `Medium: ${styleBible.medium}.`,
+    styleBible.era && `Era: ${styleBible.era}.`,
+    styleBible.palette.length > 0 && `Color palette: ${styleBible.palette.join(', ')}.`,
+    styleBible.motifs.length > 0 && `Recurring characters and motifs: ${styleBible.motifs.join(', ')}.`,
+    styleBible.camera && `Camera language: ${styleBible.camera}.`
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * セグメントのプロンプトにスタイルバイブルを適用する
+ * @param prompt セグメントのプロンプト
+ * @param styleBible スタイルバイブル（ない場合はプロンプトをそのまま返す）
+ * @returns 生成に使うプロンプト
+ */
+export function applyStyleBible(prompt: string, styleBible?: StyleBible | null): string {
+  if (!styleBible) {
+    return prompt;
+  }
+  return `${prompt} ${formatStyleBibleForPrompt(styleBible)}`.trim();
+}
+
+/**
+ * サーバー経由で楽曲全体の音声からスタイルバイブルを生成する
+ * @param audioId サーバーに保存した音声のID
+ * @param audioName 元の音声ファイル名
+ * @param signal 中止するシグナル
+ * @param projectId プロジェクトID（プロジェクトで選んだ提供元で分析する）
+ * @returns スタイルバイブル
+ */
+export async function generateStyleBible(
+  audioId: string,
+  audioName: string,
+  signal?: AbortSignal,
+  projectId?: string
+): Promise<StyleBible> {
+  const response = await fetch('/api/analyze/style', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ audioId, audioName, projectId }),
+    signal
+  });
+
+  if (!response.ok) {
+    let errorMessage = '楽曲全体の世界観の分析に失敗しました。もう一度お試しください。';
+
+    try {
+      const errorData = await response.json();
+      errorMessage = errorData.message || errorMessage;
+    } catch (jsonError) {
+      errorMessage = `楽曲全体の世界観の分析に失敗しました (${response.status}: ${response.statusText})`;
+    }
+
+    throw new Error(errorMessage);
+  }
+
+  return await response.json();
+}
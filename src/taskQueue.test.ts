@@ -0,0 +1,158 @@
+import { describe, expect, it, vi } from 'vitest';
+import { configureQueueFromEnv, runQueued, TaskQueue } from './taskQueue';
+
+/**
+ * 指定した時間だけ待つ
+ * @param ms 待つ時間（ミリ秒）
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * 同時に実行されているタスクの数を記録するタスクを作成する
+ * @param duration タスクの実行時間（ミリ秒）
+ * @returns タスクと、同時に実行されたタスクの最大数を取得する関数
+ */
+function trackConcurrency(duration: number) {
+  let running = 0;
+  let maxRunning = 0;
+  const task = async (item: number) => {
+    running++;
+    maxRunning = Math.max(maxRunning, running);
+    await delay(duration);
+    running--;
+    return item;
+  };
+  return { task, getMaxRunning: () => maxRunning };
+}
+
+describe('runQueued', () => {
+  it('完了した順序に関わらず入力と同じ順序で結果を返す', async () => {
+    const queue = new TaskQueue({ concurrency: 3, interval: 0 });
+    const durations = [30, 5, 15];
+
+    const results = await runQueued(queue, durations, async (duration, index) => {
+      await delay(duration);
+      return `item-${index}`;
+    });
+
+    expect(results).toEqual(['item-0', 'item-1', 'item-2']);
+  });
+
+  it('項目ごとに完了した順で進捗を通知する', async () => {
+    const queue = new TaskQueue({ concurrency: 3, interval: 0 });
+    const progress: [string, number, number, number][] = [];
+
+    await runQueued(queue, [20, 1, 10], async (duration) => {
+      await delay(duration);
+      return `${duration}ms`;
+    }, {
+      onItemDone: (result, index, completed, total) => progress.push([result, index, completed, total])
+    });
+
+    expect(progress).toEqual([
+      ['1ms', 1, 1, 3],
+      ['10ms', 2, 2, 3],
+      ['20ms', 0, 3, 3]
+    ]);
+  });
+
+  it('キューの同時実行数を超えて実行しない', async () => {
+    const queue = new TaskQueue({ concurrency: 2, interval: 0 });
+    const { task, getMaxRunning } = trackConcurrency(10);
+
+    await runQueued(queue, [1, 2, 3, 4, 5], task);
+
+    expect(getMaxRunning()).toBe(2);
+  });
+
+  it('呼び出しごとの同時実行数でさらに絞る', async () => {
+    const queue = new TaskQueue({ concurrency: 3, interval: 0 });
+    const { task, getMaxRunning } = trackConcurrency(10);
+
+    await runQueued(queue, [1, 2, 3, 4], task, { concurrency: 1 });
+
+    expect(getMaxRunning()).toBe(1);
+  });
+
+  it('別々の呼び出しでも同じキューの同時実行数をまとめて制限する', async () => {
+    const queue = new TaskQueue({ concurrency: 2, interval: 0 });
+    const { task, getMaxRunning } = trackConcurrency(10);
+
+    await Promise.all([runQueued(queue, [1, 2, 3], task), runQueued(queue, [4, 5, 6], task)]);
+
+    expect(getMaxRunning()).toBe(2);
+  });
+
+  it('タスクの開始の間隔を空ける', async () => {
+    const queue = new TaskQueue({ concurrency: 3, interval: 30 });
+    const startedAt: number[] = [];
+
+    await runQueued(queue, [1, 2, 3], async () => {
+      startedAt.push(Date.now());
+    });
+
+    expect(startedAt).toHaveLength(3);
+    for (let i = 1; i < startedAt.length; i++) {
+      // タイマーの誤差を見込む
+      expect(startedAt[i] - startedAt[i - 1]).toBeGreaterThanOrEqual(25);
+    }
+  });
+
+  it('失敗した場合は新しいタスクを開始せず、最初のエラーを投げる', async () => {
+    const queue = new TaskQueue({ concurrency: 1, interval: 0 });
+    const started: number[] = [];
+
+    const error = await runQueued(queue, [1, 2, 3], async (item) => {
+      started.push(item);
+      if (item === 2) {
+        throw new Error('failed 2');
+      }
+      return item;
+    }, { concurrency: 1 }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.message).toBe('failed 2');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('中止すると待機中のタスクを開始しない', async () => {
+    const queue = new TaskQueue({ concurrency: 1, interval: 0 });
+    const controller = new AbortController();
+    const started: number[] = [];
+
+    const running = runQueued(queue, [1, 2, 3], async (item) => {
+      started.push(item);
+      await delay(20);
+      return item;
+    }, { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(running).rejects.toBeDefined();
+    expect(started).toEqual([1]);
+  });
+});
+
+describe('configureQueueFromEnv', () => {
+  it('接頭辞と提供元の名前の環境変数から同時実行数と開始間隔を設定する', () => {
+    const queue = new TaskQueue({ concurrency: 3, interval: 1000 });
+    const configure = vi.spyOn(queue, 'configure');
+
+    configureQueueFromEnv(queue, 'LUMA', { LUMA_CONCURRENCY: '5', LUMA_INTERVAL_MS: '0' }, '');
+
+    expect(configure).toHaveBeenCalledWith({ concurrency: 5, interval: 0 });
+  });
+
+  it('不正な値は警告して変更しない', () => {
+    const queue = new TaskQueue({ concurrency: 3, interval: 1000 });
+    const configure = vi.spyOn(queue, 'configure');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    configureQueueFromEnv(queue, 'GEMINI', { VITE_GEMINI_CONCURRENCY: '0', VITE_GEMINI_INTERVAL_MS: 'fast' });
+
+    expect(configure).toHaveBeenCalledWith({});
+    expect(warn).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+});
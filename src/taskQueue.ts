@@ -0,0 +1,232 @@
+/**
+ * タスクキューの設定
+ */
+export interface TaskQueueOptions {
+  /** 同時に実行するタスクの数 */
+  concurrency: number;
+  /** タスクを開始する最小間隔（ミリ秒）。APIのレート制限を避けるために使う */
+  interval: number;
+}
+
+/**
+ * キューでまとめて実行するときのオプション
+ */
+export interface QueuedRunOptions<R> {
+  /** この呼び出しで同時に実行するタスクの数（キュー全体の上限とは別に絞る場合） */
+  concurrency?: number;
+  /** 中止するシグナル（中止すると待機中のタスクを開始しない） */
+  signal?: AbortSignal;
+  /** 各タスクが完了したとき（完了した順に呼ばれる） */
+  onItemDone?: (result: R, index: number, completed: number, total: number) => void;
+}
+
+/**
+ * 指定した時間だけ待つ（中止された場合はすぐに終了する）
+ * @param ms 待つ時間（ミリ秒）
+ * @param signal 中止するシグナル
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject((signal as AbortSignal).reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 同時実行数と開始間隔を制限するタスクキュー
+ * APIの提供元ごとに1つ作り、アプリ全体で共有する（別々の処理から呼び出してもまとめて制限される）
+ */
+export class TaskQueue {
+  private options: TaskQueueOptions;
+  private running = 0;
+  private waiting: (() => void)[] = [];
+  private nextStartAt = 0;
+
+  constructor(options: TaskQueueOptions) {
+    this.options = { ...options };
+  }
+
+  /**
+   * 同時実行数と開始間隔を変更する（実行中のタスクはそのまま続ける）
+   * @param options 変更する設定
+   */
+  configure(options: Partial<TaskQueueOptions>): void {
+    this.options = { ...this.options, ...options };
+    while (this.running < this.options.concurrency && this.waiting.length > 0) {
+      this.running++;
+      this.waiting.shift()?.();
+    }
+  }
+
+  /**
+   * 空きを待ってタスクを実行する
+   * @param task 実行するタスク
+   * @param signal 中止するシグナル（待機中に中止された場合はタスクを実行しない）
+   * @returns タスクの結果
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      await this.waitForStartSlot(signal);
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * 実行枠を確保する（空いていない場合は空くまで待つ）
+   * @param signal 中止するシグナル
+   */
+  private acquire(signal?: AbortSignal): Promise<void> {
+    signal?.throwIfAborted();
+    if (this.running < this.options.concurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const start = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        this.waiting = this.waiting.filter(entry => entry !== start);
+        reject((signal as AbortSignal).reason);
+      };
+      this.waiting.push(start);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * 実行枠を次の待機中のタスクに渡す
+   */
+  private release(): void {
+    const next = this.running <= this.options.concurrency ? this.waiting.shift() : undefined;
+    if (next) {
+      next();
+    } else {
+      this.running--;
+    }
+  }
+
+  /**
+   * 前のタスクの開始から最小間隔が経つまで待つ
+   * @param signal 中止するシグナル
+   */
+  private async waitForStartSlot(signal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const delay = this.nextStartAt - now;
+    this.nextStartAt = Math.max(now, this.nextStartAt) + this.options.interval;
+    if (delay > 0) {
+      await wait(delay, signal);
+    }
+  }
+}
+
+/**
+ * 環境変数の値を整数として読み込む
+ * @param value 環境変数の値
+ * @param min 最小値
+ * @returns 整数。指定されていない場合や不正な場合はundefined
+ */
+function parseEnvInteger(value: unknown, min: number): number | undefined {
+  const parsed = typeof value === 'string' && /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+  return Number.isInteger(parsed) && parsed >= min ? parsed : undefined;
+}
+
+/**
+ * 環境変数の設定でキューの同時実行数と開始間隔を変更する
+ * <prefix><name>_CONCURRENCY（1以上の整数）と <prefix><name>_INTERVAL_MS（0以上の整数）を読み、指定されていない値や不正な値は変更しない
+ * @param queue 設定するタスクキュー
+ * @param name 環境変数の名前に使う提供元の名前（LUMA、GEMINIなど）
+ * @param env 環境変数（省略時はViteの環境変数）
+ * @param prefix 環境変数の名前の接頭辞（サーバーのprocess.envから読む場合は空にする）
+ */
+export function configureQueueFromEnv(
+  queue: TaskQueue,
+  name: string,
+  env: Record<string, unknown> = import.meta.env,
+  prefix = 'VITE_'
+): void {
+  const options: Partial<TaskQueueOptions> = {};
+  const settings = [
+    ['concurrency', `${prefix}${name}_CONCURRENCY`, 1],
+    ['interval', `${prefix}${name}_INTERVAL_MS`, 0]
+  ] as const;
+
+  for (const [key, variable, min] of settings) {
+    if (env[variable] === undefined || env[variable] === '') {
+      continue;
+    }
+    const value = parseEnvInteger(env[variable], min);
+    if (value === undefined) {
+      console.warn(`${variable}には${min}以上の整数を指定してください:`, env[variable]);
+      continue;
+    }
+    options[key] = value;
+  }
+
+  queue.configure(options);
+}
+
+/**
+ * 複数の項目をキューで並列に処理し、入力と同じ順序で結果を返す
+ * いずれかのタスクが失敗した場合は新しいタスクを開始せず、実行中のタスクの終了を待ってから最初のエラーを投げる
+ * @param queue 使用するタスクキュー
+ * @param items 処理する項目
+ * @param task 項目ごとの処理
+ * @param options この呼び出しの同時実行数、中止するシグナル、項目ごとの進捗のコールバック
+ * @returns 項目ごとの結果（入力と同じ順序）
+ */
+export async function runQueued<T, R>(
+  queue: TaskQueue,
+  items: T[],
+  task: (item: T, index: number) => Promise<R>,
+  options: QueuedRunOptions<R> = {}
+): Promise<R[]> {
+  const { concurrency = items.length, signal, onItemDone } = options;
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+  let completed = 0;
+  let failed = false;
+  let firstError: unknown;
+
+  const worker = async () => {
+    while (nextIndex < items.length && !failed) {
+      const index = nextIndex++;
+      try {
+        results[index] = await queue.run(() => task(items[index], index), signal);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          firstError = error;
+        }
+        return;
+      }
+      completed++;
+      if (onItemDone) {
+        onItemDone(results[index], index, completed, items.length);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, () => worker())
+  );
+  if (failed) {
+    throw firstError;
+  }
+  return results;
+}
@@ -0,0 +1,117 @@
+import { GeneratedMedia, getCompletedVideoUrl } from './lumaGeneration';
+
+export interface FinalRender {
+  id: string;
+  /** ダウンロード用のURL */
+  url: string;
+}
+
+export interface RenderRequestClip {
+  url: string;
+  startTime: number;
+  endTime: number;
+}
+
+/**
+ * APIのエラーレスポンスからメッセージを取り出す
+ * @param response fetchのレスポンス
+ * @param fallback デフォルトのメッセージ
+ * @returns エラーメッセージ
+ */
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+  try {
+    const errorData = await response.json();
+    return errorData.message || fallback;
+  } catch (jsonError) {
+    return `${fallback} (${response.status}: ${response.statusText})`;
+  }
+}
+
+/**
+ * レンダリング用に音声ファイルをサーバーへアップロードする
+ * @param audioFile 音声ファイル
+ * @returns アップロードした音声のID
+ */
+export async function uploadAudioForRender(audioFile: File): Promise<string> {
+  const response = await fetch('/api/render/audio', {
+    method: 'POST',
+    headers: {
+      'Content-Type': audioFile.type || 'application/octet-stream'
+    },
+    body: audioFile
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, '音声のアップロードに失敗しました'));
+  }
+
+  const { audioId } = await response.json();
+  return audioId;
+}
+
+/**
+ * 生成されたクリップをレンダリング用のリストに変換する
+ * クリップの生成に失敗したセグメントは直前（先頭の場合は直後）のクリップで埋める
+ * @param media 生成された画像とクリップの配列
+ * @returns レンダリングするクリップの配列
+ */
+export function createRenderClips(media: GeneratedMedia[]): RenderRequestClip[] {
+  const clips: RenderRequestClip[] = [];
+  let pendingStart: number | null = null;
+
+  for (const item of [...media].sort((a, b) => a.segmentIndex - b.segmentIndex)) {
+    const url = getCompletedVideoUrl(item.clipResponse);
+    if (url) {
+      clips.push({
+        url,
+        startTime: pendingStart ?? item.startTime,
+        endTime: item.endTime
+      });
+      pendingStart = null;
+    } else if (clips.length > 0) {
+      clips[clips.length - 1].endTime = item.endTime;
+    } else if (pendingStart === null) {
+      pendingStart = item.startTime;
+    }
+  }
+
+  return clips;
+}
+
+/**
+ * クリップを連結して元の音声を合成した最終動画をサーバーでレンダリングする
+ * @param audioId アップロード済みの元の音声のID
+ * @param media 生成された画像とクリップの配列
+ * @param options レンダリングオプション（projectIdを指定すると進捗がイベントストリームに配信される。signalで中止できる）
+ * @returns レンダリング結果
+ */
+export async function renderFinalVideo(
+  audioId: string,
+  media: GeneratedMedia[],
+  options: { crossfade?: number; projectId?: string; signal?: AbortSignal } = {}
+): Promise<FinalRender> {
+  const clips = createRenderClips(media);
+  if (clips.length === 0) {
+    throw new Error('レンダリングできるクリップがありません');
+  }
+
+  const response = await fetch('/api/render', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      audioId,
+      clips,
+      crossfade: options.crossfade ?? 0,
+      projectId: options.projectId
+    }),
+    signal: options.signal
+  });
+
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, '動画のレンダリングに失敗しました'));
+  }
+
+  return await response.json();
+}
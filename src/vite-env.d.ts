@@ -1,10 +1,15 @@
 /// <reference types="vite/client" />
 
+// APIキーはサーバー側（.envのGEMINI_API_KEY/LUMA_API_KEY）でのみ扱い、ブラウザには公開しない
+
+// ブラウザから呼び出すAPIのキューの設定
 interface ImportMetaEnv {
-  readonly VITE_GEMINI_API_KEY: string
-  readonly VITE_LUMA_API_KEY: string
+  /** Gemini APIのキューの同時実行数 */
+  readonly VITE_GEMINI_CONCURRENCY?: string;
+  /** Gemini APIのキューの開始間隔（ミリ秒） */
+  readonly VITE_GEMINI_INTERVAL_MS?: string;
+  /** Luma APIのキューの同時実行数 */
+  readonly VITE_LUMA_CONCURRENCY?: string;
+  /** Luma APIのキューの開始間隔（ミリ秒） */
+  readonly VITE_LUMA_INTERVAL_MS?: string;
 }
-
-interface ImportMeta {
-  readonly env: ImportMetaEnv
-}
\ No newline at end of file